@@ -44,7 +44,7 @@ export function ActivityFeed() {
     setActivity([])
   }
 
-  // Simple WebSocket connection effect with reconnection
+  // WebSocket connection effect (reconnection is handled by the SDK)
   useEffect(() => {
     if (!aori || !address || !isConnected || !mounted) return
 
@@ -82,19 +82,15 @@ export function ActivityFeed() {
           },
           onDisconnect: () => {
             setWsConnected(false)
+          },
+          // The SDK reconnects automatically with backoff
+          onReconnect: (attempt, delay) => {
             addActivity({
               type: 'websocket',
               status: 'disconnected',
-              message: 'WebSocket disconnected, reconnecting...',
+              message: `WebSocket disconnected, reconnecting in ${Math.round(delay / 1000)}s (attempt ${attempt})...`,
               timestamp: new Date()
             })
-            
-            // Simple reconnection after 3 seconds
-            setTimeout(() => {
-              if (mounted && aori && address && isConnected) {
-                connectWebSocket()
-              }
-            }, 1000)
           },
           onMessage: (event: any) => {
             addActivity({
@@ -140,13 +136,6 @@ export function ActivityFeed() {
           message: `WebSocket connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
           timestamp: new Date()
         })
-        
-        // Retry connection after 1 seconds on failure
-        setTimeout(() => {
-          if (mounted && aori && address && isConnected) {
-            connectWebSocket()
-          }
-        }, 1000)
       }
     }
 
@@ -3,8 +3,9 @@
 import { useState } from 'react'
 import { useAccount, useWalletClient, useSwitchChain } from 'wagmi'
 import { useAori } from '../AoriProvider'
-import type { CancelTxExecutor, CancelOrderResponse, TransactionRequest } from '@aori/aori-ts'
-import { type Address } from 'viem'
+import type { CancelOrderResponse } from '@aori/aori-ts'
+import { fromViemWalletClient } from '@aori/aori-ts'
+import { publicActions } from 'viem'
 
 interface CancelOrderModalProps {
   isOpen: boolean
@@ -13,35 +14,10 @@ interface CancelOrderModalProps {
 
 type CancelStatus = 'idle' | 'cancelling' | 'completed' | 'error'
 
-// Utility function to safely convert values to decimal strings
-function safeToDecimalString(value: string | number | bigint): string {
-  if (typeof value === 'bigint') {
-    return value.toString();
-  }
-  
-  if (typeof value === 'number') {
-    return value.toFixed(0);
-  }
-  
-  if (typeof value === 'string') {
-    if (value.includes('e') || value.includes('E')) {
-      return Number(value).toFixed(0);
-    }
-    
-    if (value.startsWith('0x')) {
-      return BigInt(value).toString();
-    }
-    
-    return value;
-  }
-  
-  return String(value);
-}
-
 export default function CancelOrderModal({ isOpen, onClose }: CancelOrderModalProps) {
   const { address, isConnected } = useAccount()
   const { data: walletClient } = useWalletClient()
-  const { switchChain } = useSwitchChain()
+  const { switchChainAsync } = useSwitchChain()
   const aori = useAori()
 
   const [orderHash, setOrderHash] = useState('')
@@ -108,88 +84,24 @@ export default function CancelOrderModal({ isOpen, onClose }: CancelOrderModalPr
         throw error // Re-throw to be caught by outer catch block
       }
 
-      // Check if we're on the correct chain
-      const requiredChain = aori.getChain(cancelTxData.chain)
-      const currentChainId = walletClient.chain?.id
-
-      if (!requiredChain) {
-        throw new Error(`Unsupported chain: ${cancelTxData.chain}`)
-      }
-
-      const requiredChainId = requiredChain.chainId
-
-      if (currentChainId !== requiredChainId) {
-        setStatusMessage(`Switching to ${cancelTxData.chain} network...`)
-        setIsChainSwitching(true)
-        
-        try {
-          await switchChain({ chainId: requiredChainId })
-          
-          // Wait for the wallet client to reflect the chain change
-          setStatusMessage('Waiting for chain switch to complete...')
-          let attempts = 0
-          const maxAttempts = 20 // 10 seconds max (500ms * 20)
-          
-          while (attempts < maxAttempts) {
-            await new Promise(resolve => setTimeout(resolve, 500)) // Wait 500ms
-            const updatedChainId = walletClient.chain?.id
-            
-            if (updatedChainId === requiredChainId) {
-              setStatusMessage('Network switched successfully. Preparing cancellation...')
-              break
-            }
-            
-            attempts++
-          }
-          
-          if (attempts >= maxAttempts) {
-            throw new Error(`Chain switch timeout: wallet still on chain ${walletClient.chain?.id}, expected ${requiredChainId}`)
-          }
-          
-        } catch (switchError) {
-          setIsChainSwitching(false)
-          throw new Error(`Failed to switch to ${cancelTxData.chain}: ${switchError instanceof Error ? switchError.message : String(switchError)}`)
-        } finally {
-          setIsChainSwitching(false)
-        }
-      }
-
       setStatusMessage('Preparing cancellation transaction...')
-
-      // Create CancelTxExecutor with wallet capabilities
-      const cancelTxExecutor: CancelTxExecutor = {
-        address: address,
-        getChainId: async () => {
-          return walletClient.chain?.id || 0;
-        },
-        sendTransaction: async (request: TransactionRequest) => {
-          setStatusMessage('Sending cancellation transaction...')
-
-          const hash = await walletClient.sendTransaction({
-            to: request.to as Address,
-            data: request.data as `0x${string}`,
-            value: BigInt(safeToDecimalString(request.value)),
-            gas: request.gasLimit ? BigInt(safeToDecimalString(request.gasLimit)) : undefined,
-          })
-
-          return {
-            hash,
-            wait: async () => {
-              setStatusMessage('Waiting for confirmation...')
-              const { waitForTransactionReceipt } = await import('viem/actions')
-              return await waitForTransactionReceipt(walletClient, { hash })
-            }
+      const chainKey = cancelTxData.chain
+
+      // Wallet adapter implementing the CancelTxExecutor interface. cancelOrder checks the wallet's chain
+      // and switches it through wagmi to the order's chain before sending
+      const cancelTxExecutor = fromViemWalletClient(walletClient.extend(publicActions), {
+        switchChain: async (chainId) => {
+          setStatusMessage(`Switching to ${chainKey} network...`)
+          setIsChainSwitching(true)
+          try {
+            await switchChainAsync({ chainId })
+          } finally {
+            setIsChainSwitching(false)
           }
-        },
-        estimateGas: async (request: TransactionRequest) => {
-          const { estimateGas } = await import('viem/actions')
-          return await estimateGas(walletClient, {
-            to: request.to as Address,
-            data: request.data as `0x${string}`,
-            value: BigInt(safeToDecimalString(request.value)),
-          })
+          setStatusMessage('Sending cancellation transaction...')
         }
-      }
+      })
+      setStatusMessage('Sending cancellation transaction...')
 
       // Execute cancellation using the order hash
       const cancelResult = await aori.cancelOrder(orderHash, cancelTxExecutor)
@@ -8,12 +8,11 @@ import type {
   QuoteResponse,
   ChainInfo,
   TokenInfo,
-  SwapConfig,
-  TxExecutor,
-  TransactionRequest
+  SwapConfig
 } from '@aori/aori-ts'
-import { type Address, erc20Abi, parseUnits, maxUint256 } from 'viem'
-import { signTypedData, readContract, writeContract, waitForTransactionReceipt, sendTransaction, estimateGas } from 'viem/actions'
+import { fromViemWalletClient } from '@aori/aori-ts'
+import { type Address, erc20Abi, parseUnits, maxUint256, publicActions } from 'viem'
+import { signTypedData, readContract, writeContract, waitForTransactionReceipt } from 'viem/actions'
 
 type SwapFormData = {
   inputChain: string
@@ -402,30 +401,7 @@ useEffect(() => {
           await new Promise(resolve => setTimeout(resolve, 1000))
         }
 
-        const txExecutor: TxExecutor = {
-          sendTransaction: async (request: TransactionRequest) => {
-            const hash = await sendTransaction(walletClient, {
-              to: request.to as Address,
-              data: request.data as `0x${string}`,
-              value: BigInt(request.value),
-              gas: request.gasLimit ? BigInt(request.gasLimit) : undefined,
-            })
-
-            return {
-              hash,
-              wait: async () => {
-                return await waitForTransactionReceipt(walletClient, { hash })
-              }
-            }
-          },
-          estimateGas: async (request: TransactionRequest) => {
-            return await estimateGas(walletClient, {
-              to: request.to as Address,
-              data: request.data as `0x${string}`,
-              value: BigInt(request.value),
-            })
-          }
-        }
+        const txExecutor = fromViemWalletClient(walletClient.extend(publicActions))
 
         const nativeConfig: SwapConfig = {
           type: 'native',
@@ -434,38 +410,34 @@ useEffect(() => {
 
         const result = await aori.executeSwap(quote, nativeConfig)
 
-        // For native swaps, result is always a TransactionResponse
-        if ('success' in result) {
-          if (result.success) {
-            // Deposit transaction succeeded, now monitor the order status
-            setOrderHash(quote.orderHash) // Use the order hash from quote, not the tx hash
-            setStatusMessage('Deposit successful! Monitoring swap status...')
-
-            try {
-              const finalStatus = await aori.pollOrderStatus(quote.orderHash)
-              const statusType = typeof finalStatus === 'object' && 'status' in finalStatus ? finalStatus.status : 'completed'
-
-              // Set UI status based on actual order outcome
-              if (statusType === 'failed') {
-                setStatus('error')
-                setStatusMessage(`Swap failed! Order was not filled.`)
-              } else if (statusType === 'completed') {
-                setStatus('completed')
-                setStatusMessage(`Swap completed successfully!`)
-                // Clear form on successful completion
-                setFormData(prev => ({ ...prev, inputAmount: '' }))
-                setQuote(null)
-              } else {
-                setStatus('completed')
-                setStatusMessage(`Swap ${statusType}!`)
-              }
-            } catch (pollError) {
-              console.error('Status polling failed:', pollError)
-              setStatusMessage('Deposit completed, but status monitoring failed')
-              setStatus('error') // Changed from 'completed' to 'error' since monitoring failed
+        // Failures are thrown, so the order was submitted and deposited
+        if (result.outcome === 'submitted') {
+          // Deposit transaction succeeded, now monitor the order status
+          setOrderHash(quote.orderHash) // Use the order hash from quote, not the tx hash
+          setStatusMessage('Deposit successful! Monitoring swap status...')
+
+          try {
+            const finalStatus = await aori.pollOrderStatus(quote.orderHash)
+            const statusType = typeof finalStatus === 'object' && 'status' in finalStatus ? finalStatus.status : 'completed'
+
+            // Set UI status based on actual order outcome
+            if (statusType === 'failed') {
+              setStatus('error')
+              setStatusMessage(`Swap failed! Order was not filled.`)
+            } else if (statusType === 'completed') {
+              setStatus('completed')
+              setStatusMessage(`Swap completed successfully!`)
+              // Clear form on successful completion
+              setFormData(prev => ({ ...prev, inputAmount: '' }))
+              setQuote(null)
+            } else {
+              setStatus('completed')
+              setStatusMessage(`Swap ${statusType}!`)
             }
-          } else {
-            throw new Error(result.error || 'Native swap failed')
+          } catch (pollError) {
+            console.error('Status polling failed:', pollError)
+            setStatusMessage('Deposit completed, but status monitoring failed')
+            setStatus('error') // Changed from 'completed' to 'error' since monitoring failed
           }
         } else {
           throw new Error('Unexpected response type for native swap')
@@ -507,8 +479,8 @@ useEffect(() => {
 
         const result = await aori.executeSwap(quote, erc20Config)
 
-        // For ERC20 swaps, result is a SwapResponse
-        if ('orderHash' in result) {
+        // Failures are thrown, so the order was submitted unless an approval is required
+        if (result.outcome === 'submitted') {
           setOrderHash(result.orderHash)
           setStatusMessage('Monitoring swap status...')
 
@@ -0,0 +1,283 @@
+import { ethers } from 'ethers';
+import { AoriValidationError } from './errors';
+import { ReadOnlyExecutor, SignTypedDataParams, TransactionRequest, ViemAdapterOptions, ViemPublicClientLike, ViemWalletClientLike, WalletAdapter } from './types';
+
+////////////////////////////////////////////////////////////////*/
+//                         VIEM ADAPTER
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Creates a signer and executor from a viem WalletClient
+ * @param walletClient The wallet client, optionally extended with publicActions
+ * @param options A public client for reads and receipts, the account if none is attached, and a chain switching hook
+ * @returns The wallet adapter
+ */
+export function fromViemWalletClient(
+  walletClient: ViemWalletClientLike,
+  { publicClient, account, switchChain: switchWalletChain }: ViemAdapterOptions = {}
+): WalletAdapter {
+  const address = account ?? walletClient.account?.address;
+  if (!address) {
+    throw new AoriValidationError("Wallet client has no account. Pass one with the `account` option", { field: 'account' });
+  }
+
+  // Reads go through the public client, or the wallet client itself when it is extended with publicActions
+  const reader = <M extends keyof ViemPublicClientLike>(method: M) => {
+    const client: Partial<ViemPublicClientLike> = publicClient && hasAction(publicClient, method) ? publicClient : walletClient;
+    if (!hasAction(client, method)) {
+      throw new AoriValidationError(`Wallet client does not support ${method}. Pass a public client with the \`publicClient\` option`, { field: 'publicClient' });
+    }
+    return client;
+  };
+
+  // viem rejects transactions whose chain doesn't match the wallet, so the chain is dropped once it's switched
+  let chain = walletClient.chain ?? null;
+  const switchTo = switchWalletChain
+    ?? (walletClient.switchChain && (async (chainId: number) => await walletClient.switchChain?.({ id: chainId })));
+  const switchChain = switchTo
+    ? async (chainId: number) => {
+      await switchTo(chainId);
+      chain = null;
+    }
+    : undefined;
+
+  return {
+    address,
+    getChainId: async () => await walletClient.getChainId(),
+    ...(switchChain && { switchChain }),
+    signTypedData: async ({ domain, types, primaryType, message }: SignTypedDataParams) => {
+      return await walletClient.signTypedData({
+        account: walletClient.account ?? address,
+        domain,
+        types,
+        primaryType,
+        message
+      });
+    },
+    sendTransaction: async (request: TransactionRequest) => {
+      const hash = await walletClient.sendTransaction({
+        account: walletClient.account ?? address,
+        chain,
+        to: request.to,
+        data: request.data,
+        value: toQuantity(request.value, 'value'),
+        gas: request.gasLimit ? toQuantity(request.gasLimit, 'gasLimit') : undefined,
+        maxFeePerGas: request.maxFeePerGas ? toQuantity(request.maxFeePerGas, 'maxFeePerGas') : undefined,
+        maxPriorityFeePerGas: request.maxPriorityFeePerGas ? toQuantity(request.maxPriorityFeePerGas, 'maxPriorityFeePerGas') : undefined,
+        nonce: request.nonce
+      });
+
+      return {
+        hash,
+        wait: async () => await reader('waitForTransactionReceipt').waitForTransactionReceipt({ hash })
+      };
+    },
+    estimateGas: async (request: TransactionRequest) => {
+      return await reader('estimateGas').estimateGas({
+        account: address,
+        to: request.to,
+        data: request.data,
+        value: toQuantity(request.value, 'value')
+      });
+    },
+    call: async ({ to, data }) => {
+      const result = await reader('call').call({ account: address, to, data });
+      return result.data ?? '0x';
+    },
+    getFeeHistory: async (blockCount, rewardPercentiles) => {
+      const { baseFeePerGas, reward } = await reader('getFeeHistory').getFeeHistory({ blockCount, rewardPercentiles });
+      return { baseFeePerGas, reward };
+    },
+    getNonce: async () => {
+      return await reader('getTransactionCount').getTransactionCount({ address, blockTag: 'pending' });
+    },
+    getFeeData: async () => {
+      const { maxFeePerGas, maxPriorityFeePerGas } = await reader('estimateFeesPerGas').estimateFeesPerGas();
+      return { maxFeePerGas, maxPriorityFeePerGas };
+    }
+  };
+}
+
+////////////////////////////////////////////////////////////////*/
+//                        ETHERS ADAPTERS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Creates a signer and executor from an ethers v6 Signer connected to a provider
+ * @param signer The ethers signer, e.g. a Wallet or JsonRpcSigner
+ * @param address The signer address, if the signer doesn't expose one synchronously
+ * @returns The wallet adapter
+ */
+export function fromEthersSigner(signer: ethers.Signer, address?: string): WalletAdapter {
+  const resolvedAddress = address ?? (signer as { address?: string }).address;
+  if (!resolvedAddress) {
+    throw new AoriValidationError("Signer has no address. Pass it as the second argument", { field: 'address' });
+  }
+
+  const provider = () => {
+    if (!signer.provider) {
+      throw new AoriValidationError("Signer is not connected to a provider", { field: 'provider' });
+    }
+    return signer.provider;
+  };
+
+  return {
+    address: resolvedAddress,
+    getChainId: async () => Number((await provider().getNetwork()).chainId),
+    signTypedData: async (params: SignTypedDataParams) => {
+      const { domain, types, message } = toEthersTypedData(params);
+      return await signer.signTypedData(domain, types, message);
+    },
+    sendTransaction: async (request: TransactionRequest) => {
+      const tx = await signer.sendTransaction({
+        to: request.to,
+        data: request.data,
+        value: toQuantity(request.value, 'value'),
+        gasLimit: request.gasLimit ? toQuantity(request.gasLimit, 'gasLimit') : undefined,
+        maxFeePerGas: request.maxFeePerGas ? toQuantity(request.maxFeePerGas, 'maxFeePerGas') : undefined,
+        maxPriorityFeePerGas: request.maxPriorityFeePerGas ? toQuantity(request.maxPriorityFeePerGas, 'maxPriorityFeePerGas') : undefined,
+        nonce: request.nonce
+      });
+
+      return {
+        hash: tx.hash,
+        wait: async () => await tx.wait()
+      };
+    },
+    estimateGas: async (request: TransactionRequest) => {
+      return await signer.estimateGas({
+        from: resolvedAddress,
+        to: request.to,
+        data: request.data,
+        value: toQuantity(request.value, 'value')
+      });
+    },
+    call: async ({ to, data }) => await signer.call({ from: resolvedAddress, to, data }),
+    getFeeHistory: async (blockCount, rewardPercentiles) => {
+      // ethers providers have no fee history method, so it goes to the node directly
+      const rpc = provider();
+      if (!isJsonRpcProvider(rpc)) {
+        throw new AoriValidationError("Provider does not support eth_feeHistory", { field: 'provider' });
+      }
+
+      const history = await rpc.send('eth_feeHistory', [ethers.toQuantity(blockCount), 'latest', rewardPercentiles]);
+      if (!isRpcFeeHistory(history)) {
+        throw new AoriValidationError("Provider returned an invalid eth_feeHistory response", { field: 'provider' });
+      }
+      return {
+        baseFeePerGas: history.baseFeePerGas.map(fee => BigInt(fee)),
+        reward: history.reward?.map(rewards => rewards.map(reward => BigInt(reward)))
+      };
+    },
+    getNonce: async () => await signer.getNonce('pending'),
+    getFeeData: async () => {
+      const { maxFeePerGas, maxPriorityFeePerGas } = await provider().getFeeData();
+      if (maxFeePerGas === null || maxPriorityFeePerGas === null) {
+        throw new AoriValidationError("Network does not support EIP-1559 fees", { field: 'provider' });
+      }
+      return { maxFeePerGas, maxPriorityFeePerGas };
+    }
+  };
+}
+
+/**
+ * Creates a read-only executor from an ethers v6 Provider
+ * @param provider The ethers provider
+ * @returns The read-only executor
+ */
+export function fromEthersProvider(provider: ethers.Provider): ReadOnlyExecutor {
+  return {
+    getChainId: async () => Number((await provider.getNetwork()).chainId),
+    call: async ({ to, data }) => await provider.call({ to, data }),
+    estimateGas: async (request) => {
+      return await provider.estimateGas({
+        from: request.from,
+        to: request.to,
+        data: request.data,
+        value: toQuantity(request.value, 'value')
+      });
+    }
+  };
+}
+
+/**
+ * Converts typed data built for viem-style signers to the arguments of ethers' signTypedData.
+ * ethers derives the domain type from the domain fields, so fields not listed in EIP712Domain are dropped.
+ */
+function toEthersTypedData({ domain, types, message }: SignTypedDataParams) {
+  const { EIP712Domain, ...messageTypes } = types;
+  const domainFields = EIP712Domain ? new Set(EIP712Domain.map(field => field.name)) : undefined;
+
+  return {
+    domain: Object.fromEntries(
+      Object.entries(domain).filter(([name]) => !domainFields || domainFields.has(name))
+    ) as ethers.TypedDataDomain,
+    types: Object.fromEntries(
+      Object.entries(messageTypes).map(([name, fields]) => [name, [...fields]])
+    ),
+    message
+  };
+}
+
+/**
+ * Checks that a viem client has an optional action, e.g. one added by publicActions
+ */
+function hasAction<M extends keyof ViemPublicClientLike>(
+  client: Partial<ViemPublicClientLike>,
+  method: M
+): client is Partial<ViemPublicClientLike> & Required<Pick<ViemPublicClientLike, M>> {
+  return typeof client[method] === 'function';
+}
+
+/**
+ * Checks that an ethers provider can send raw JSON-RPC requests
+ */
+function isJsonRpcProvider(
+  provider: ethers.Provider
+): provider is ethers.Provider & { send(method: string, params: unknown[]): Promise<unknown> } {
+  return typeof (provider as { send?: unknown }).send === 'function';
+}
+
+/**
+ * Checks the shape of an eth_feeHistory result
+ */
+function isRpcFeeHistory(value: unknown): value is { baseFeePerGas: string[]; reward?: string[][] } {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { baseFeePerGas, reward } = value as { baseFeePerGas?: unknown; reward?: unknown };
+  return Array.isArray(baseFeePerGas) && (reward === undefined || Array.isArray(reward));
+}
+
+/**
+ * Converts a transaction value or gas limit to a bigint without losing precision. Numbers must be safe
+ * integers, and strings in exponent notation must denote an integer.
+ */
+function toQuantity(value: string | number | bigint, field: string): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new AoriValidationError(`${field} ${value} is not an exact integer, pass it as a string or bigint`, { field });
+    }
+    return BigInt(value);
+  }
+
+  const exponent = /^(\d+)(?:\.(\d+))?e\+?(\d+)$/i.exec(value);
+  if (exponent) {
+    const [, integer, fraction = '', power] = exponent;
+    const digits = fraction.replace(/0+$/, '');
+    const shift = Number(power) - digits.length;
+    if (shift < 0) {
+      throw new AoriValidationError(`${field} ${value} is not an integer`, { field });
+    }
+    return BigInt(integer + digits) * BigInt(10) ** BigInt(shift);
+  }
+
+  try {
+    return BigInt(value);
+  } catch (error) {
+    throw new AoriValidationError(`${field} ${value} is not an integer`, { field, cause: error });
+  }
+}
@@ -0,0 +1,128 @@
+import { BackfillOptions, SubscriptionParams, WebSocketErrorEvent, WSEvent } from './types';
+
+// Number of delivered events remembered for deduplication
+const MAX_SEEN_EVENTS = 10000;
+
+/**
+ * Fetches the events matching a filter that occurred at or after `since`, ordered by timestamp
+ */
+export type MissedEventsFetcher = (
+  filter: SubscriptionParams,
+  since: number,
+  options: BackfillOptions
+) => Promise<WSEvent[]>;
+
+////////////////////////////////////////////////////////////////*/
+//                        EVENT BACKFILL
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Keeps the event stream of a connection gap-free across reconnects.
+ * Remembers the last delivered event timestamp and, after each reconnect, fetches the events
+ * missed during the outage. Live events are held back until the backfill completes, and events
+ * already delivered are skipped, so subscribers see one continuous, ordered stream.
+ */
+export class EventBackfill {
+  private readonly seen = new Set<string>();
+  private lastTimestamp?: number;
+  private held: WSEvent[] | null = null;
+  private generation = 0;
+  private stopped = false;
+
+  /**
+   * @param filter The filter of the connection
+   * @param options How far back to search for orders and how many to fetch
+   * @param fetchMissed Fetches the events missed since a timestamp
+   * @param deliver Delivers an event to the subscribers
+   * @param reportError Reports a failed backfill to the subscribers
+   */
+  constructor(
+    private readonly filter: SubscriptionParams,
+    private readonly options: BackfillOptions,
+    private readonly fetchMissed: MissedEventsFetcher,
+    private readonly deliver: (event: WSEvent) => void,
+    private readonly reportError: (error: WebSocketErrorEvent) => void
+  ) {}
+
+  /**
+   * Delivers a live event, or holds it back while a backfill is running
+   */
+  public handleMessage(event: WSEvent): void {
+    if (this.held) {
+      this.held.push(event);
+      return;
+    }
+
+    this.emit(event);
+  }
+
+  /**
+   * Starts a backfill when the connection is re-established
+   */
+  public handleConnect(): void {
+    if (this.lastTimestamp === undefined) {
+      // First connection: nothing can have been missed yet
+      this.lastTimestamp = Math.floor(Date.now() / 1000);
+      return;
+    }
+
+    void this.backfill(this.lastTimestamp);
+  }
+
+  /**
+   * Discards any running backfill once the connection is closed for good
+   */
+  public stop(): void {
+    this.stopped = true;
+    this.held = null;
+  }
+
+  private async backfill(since: number): Promise<void> {
+    // A newer reconnect supersedes a backfill that is still running
+    const generation = ++this.generation;
+    this.held ??= [];
+
+    let missed: WSEvent[] = [];
+    try {
+      missed = await this.fetchMissed(this.filter, since, this.options);
+    } catch (error) {
+      if (generation === this.generation && !this.stopped) {
+        this.reportError({
+          type: 'backfill',
+          message: `Failed to backfill missed events: ${error instanceof Error ? error.message : String(error)}`,
+          error
+        });
+      }
+    }
+
+    if (generation !== this.generation || this.stopped || !this.held) {
+      return;
+    }
+
+    const live = this.held;
+    this.held = null;
+
+    for (const event of [...missed, ...live]) {
+      this.emit(event);
+    }
+  }
+
+  private emit(event: WSEvent): void {
+    // Each order goes through each event type once, so the pair identifies an event
+    const key = `${event.order?.orderHash}:${event.eventType}`;
+    if (this.seen.has(key)) {
+      return;
+    }
+
+    this.seen.add(key);
+    if (this.seen.size > MAX_SEEN_EVENTS) {
+      // Sets iterate in insertion order, so the first entry is the oldest
+      this.seen.delete(this.seen.values().next().value as string);
+    }
+
+    if (typeof event.timestamp === 'number') {
+      this.lastTimestamp = Math.max(this.lastTimestamp ?? 0, event.timestamp);
+    }
+    this.deliver(event);
+  }
+}
@@ -9,4 +9,55 @@ export const AORI_API: string = "https://api.aori.io";
 //                        NATIVE TOKENS
 //////////////////////////////////////////////////////////////*/
 
-export const NATIVE_TOKEN_ADDRESS: string = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
\ No newline at end of file
+export const NATIVE_TOKEN_ADDRESS: string = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+//////////////////////////////////////////////////////////////*/
+//                           PERMIT2
+//////////////////////////////////////////////////////////////*/
+
+// Uniswap Permit2, deployed at the same address on all supported chains
+export const PERMIT2_ADDRESS: string = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+//////////////////////////////////////////////////////////////*/
+//                       TRANSACTION FEES
+//////////////////////////////////////////////////////////////*/
+
+// Buffer added to gas estimates, in percent
+export const DEFAULT_GAS_BUFFER_PERCENT: number = 20;
+// Blocks sampled for percentile-based priority fees
+export const DEFAULT_FEE_HISTORY_BLOCKS: number = 10;
+// maxFeePerGas covers the next base fee multiplied by this, so the transaction survives rising base fees
+export const DEFAULT_BASE_FEE_MULTIPLIER: number = 2;
+
+// Conservative gas limits used when gas estimation fails
+export const DEFAULT_DEPOSIT_GAS_LIMIT: string = "200000";
+export const DEFAULT_CANCEL_GAS_LIMIT: string = "400000";
+export const DEFAULT_APPROVE_GAS_LIMIT: string = "100000";
+
+//////////////////////////////////////////////////////////////*/
+//                     TRANSACTION MONITOR
+//////////////////////////////////////////////////////////////*/
+
+// Nodes only accept replacements with at least 10% higher fees
+export const DEFAULT_FEE_BUMP_PERCENT: number = 15;
+export const DEFAULT_MAX_REPLACEMENTS: number = 3;
+// Gas limit of a zero-value self-send
+export const SELF_SEND_GAS_LIMIT: string = "21000";
+
+//////////////////////////////////////////////////////////////*/
+//                     EXACT-OUTPUT QUOTES
+//////////////////////////////////////////////////////////////*/
+
+// How far an exact-output quote's output may exceed the requested output, in basis points
+export const DEFAULT_EXACT_OUTPUT_TOLERANCE_BPS: number = 10;
+// Exact-input quotes requested before an exact-output search gives up
+export const DEFAULT_EXACT_OUTPUT_MAX_ITERATIONS: number = 8;
+
+//////////////////////////////////////////////////////////////*/
+//                        SWAP STORAGE
+//////////////////////////////////////////////////////////////*/
+
+// Prefix of the keys under which swaps are stored in key-value storage
+export const DEFAULT_SWAP_STORE_PREFIX: string = "aori:swap:";
+// Seconds past an order's endTime a swap keeps tracking it, since fills are indexed with a delay
+export const DEFAULT_EXPIRY_GRACE_PERIOD: number = 60;
@@ -9,6 +9,10 @@ import {
   SignerType,
   TypedDataSigner,
   PollOrderStatusOptions,
+  SigningOptions,
+  ExpiringPollOrderStatusOptions,
+  ExpiredOrderStatus,
+  OrderStatus,
   QueryOrdersParams,
   SubscriptionParams,
   WebSocketCallbacks,
@@ -20,10 +24,34 @@ import {
   Order,
   CancelOrderResponse,
   CancelTxExecutor,
-  WSEvent,
-  CancelTx
+  CancelTx,
+  RequestOptions,
+  RetryOptions,
+  TransportOptions,
+  WebSocketConnectionState,
+  WebSocketOptions,
+  StreamOptions,
+  WaitForOrderOptions,
+  ContractTxExecutor,
+  AllowanceCheck,
+  PermitConfig,
+  PermitSignature,
+  OrderTypedDataParams,
+  SmartAccountExecutor,
+  DigestSigner,
+  FeeStrategy,
+  TransactionMonitorOptions,
+  SwapOptions,
+  SwapSnapshot,
+  SwapStore,
+  SwapExecutionResult,
+  ExecuteSwapOptions
 } from './types'
-import { fetchAllChains, getDomain, fetchAllTokens, getTokens, getQuote, signOrder, submitSwap, getOrderStatus, pollOrderStatus, getOrderDetails, queryOrders, signReadableOrder, isNativeToken, isNativeSwap, executeNativeSwap, executeSwap, constructNativeSwapTransaction, parseOrder, getOrder, cancelOrder, canCancel, getCancelTx } from './helpers';
+import { fetchAllChains, getDomain, fetchAllTokens, getTokens, getQuote, signOrder, submitSwap, getOrderStatus, pollOrderStatus, getOrderDetails, queryOrders, signReadableOrder, isNativeToken, isNativeSwap, executeNativeSwap, executeSwap, constructNativeSwapTransaction, parseOrder, getOrder, cancelOrder, canCancel, getCancelTx, getMissedEvents, waitForOrder, checkAllowance, signPermit, verifyQuoteHashes, recoverOrderSigner, verifyOrderSignature, executeSmartAccountDeposit } from './helpers';
+import { AoriValidationError } from './errors';
+import { AoriSubscription, SubscriptionManager } from './subscriptions';
+import { AoriEventStream } from './stream';
+import { AoriSwap, resumeSwaps } from './swap';
 import {
   AORI_API,
   AORI_WS_API,
@@ -46,6 +74,18 @@ export interface AoriCreateOptions {
   chains?: Record<string, ChainInfo>;
   /** Optional domain info for EIP-712. If provided, no API call is made for domain. */
   domain?: DomainInfo;
+  /** Optional retry policy applied to all API requests made by this instance */
+  retry?: RetryOptions;
+  /** Optional transport (custom fetch implementation and interceptors) used for all API requests made by this instance */
+  transport?: TransportOptions;
+  /** Optional reconnect, heartbeat and WebSocket implementation configuration for WebSocket connections */
+  websocket?: WebSocketOptions;
+  /** Optional gas buffer and EIP-1559 fee settings of deposits, approvals and cancellations sent by this instance */
+  fees?: FeeStrategy;
+  /** Optional deadline after which pending deposits and cancellations sent by this instance are sped up or cancelled */
+  transactionMonitor?: TransactionMonitorOptions;
+  /** Optional store persisting swaps created by this instance, so they can be resumed with resumeSwaps */
+  swapStore?: SwapStore;
 }
 
 /**
@@ -58,10 +98,15 @@ export class Aori {
   public tokens: TokenInfo[] = [];
   public apiBaseUrl: string = AORI_API;
   private apiKey?: string;
+  private requestDefaults: Omit<RequestOptions, 'signal'>;
+  private fees?: FeeStrategy;
+  private transactionMonitor?: TransactionMonitorOptions;
+  private swapStore?: SwapStore;
 
   // WebSocket
   public wsBaseUrl: string = AORI_WS_API;
-  private ws: WebSocket | null = null;
+  private subscriptions: SubscriptionManager;
+  private connection: AoriSubscription | null = null;
 
   /**
    * Creates a new Aori instance
@@ -71,6 +116,11 @@ export class Aori {
    * @param wsBaseUrl The base URL of the WebSocket API
    * @param apiKey Optional API key for authentication
    * @param tokens Optional list of tokens
+   * @param requestDefaults Default request options (e.g. retry policy, transport) applied to every API call
+   * @param websocketOptions Default reconnect and heartbeat configuration for WebSocket connections
+   * @param fees Default fee strategy of transactions sent by this instance
+   * @param transactionMonitor Default replacement settings of stuck transactions sent by this instance
+   * @param swapStore Store persisting swaps created by this instance
    */
   private constructor(
     chains: Record<string, ChainInfo>,
@@ -78,7 +128,12 @@ export class Aori {
     apiBaseUrl: string = AORI_API,
     wsBaseUrl: string = AORI_WS_API,
     apiKey?: string,
-    tokens: TokenInfo[] = []
+    tokens: TokenInfo[] = [],
+    requestDefaults: Omit<RequestOptions, 'signal'> = {},
+    websocketOptions: WebSocketOptions = {},
+    fees?: FeeStrategy,
+    transactionMonitor?: TransactionMonitorOptions,
+    swapStore?: SwapStore
   ) {
     this.apiBaseUrl = apiBaseUrl;
     this.wsBaseUrl = wsBaseUrl.replace(/^http/, 'ws');
@@ -86,6 +141,15 @@ export class Aori {
     this.chains = chains;
     this.domain = domain;
     this.tokens = tokens;
+    this.requestDefaults = requestDefaults;
+    this.fees = fees;
+    this.transactionMonitor = transactionMonitor;
+    this.swapStore = swapStore;
+    this.subscriptions = new SubscriptionManager(
+      filter => this.buildStreamUrl(filter),
+      websocketOptions,
+      (filter, since, options) => getMissedEvents(filter, since, this.apiBaseUrl, options, this.apiKey, this.withRequestDefaults({}))
+    );
   }
 
   /**
@@ -137,6 +201,54 @@ export class Aori {
    * })
    * 
    * @example
+   * // Using options object - Retry transient API failures with exponential backoff
+   * const aori = await Aori.create({
+   *   apiKey: 'your-api-key',
+   *   retry: { maxAttempts: 4, baseDelay: 500 }
+   * })
+   *
+   * @example
+   * // Using options object - Custom fetch implementation and request interceptors
+   * const aori = await Aori.create({
+   *   transport: {
+   *     fetch: undiciFetch,
+   *     interceptors: [
+   *       async (request, next) => {
+   *         request.headers['x-request-id'] = crypto.randomUUID();
+   *         return await next(request);
+   *       }
+   *     ]
+   *   }
+   * })
+   *
+   * @example
+   * // Using options object - WebSocket reconnect strategy and heartbeat
+   * const aori = await Aori.create({
+   *   websocket: {
+   *     reconnect: { maxAttempts: 20, initialDelay: 500, maxDelay: 15000 },
+   *     heartbeat: { interval: 15000 }
+   *   }
+   * })
+   *
+   * @example
+   * // Using options object - EIP-1559 fees at the 60th percentile, with a larger gas buffer on base
+   * const aori = await Aori.create({
+   *   fees: { priorityFeePercentile: 60, chains: { base: { gasBufferPercent: 50 } } }
+   * })
+   *
+   * @example
+   * // Using options object - Speed up deposits and cancellations still pending after 2 minutes
+   * const aori = await Aori.create({
+   *   transactionMonitor: { timeout: 120000, action: 'speedUp', feeBumpPercent: 20 }
+   * })
+   *
+   * @example
+   * // Using options object - Persist swaps in localStorage so they can be resumed after a reload
+   * const aori = await Aori.create({
+   *   swapStore: createLocalStorageSwapStore()
+   * })
+   *
+   * @example
    * // Using options object - Pre-defined chains and domain
    * const aori = await Aori.create({
    *   chains: customChains,
@@ -184,17 +296,22 @@ export class Aori {
       };
     }
 
+    const requestDefaults: Omit<RequestOptions, 'signal'> = {
+      retry: resolvedOptions.retry,
+      transport: resolvedOptions.transport
+    };
+
     // Use provided chains or fetch from API
     // Use provided domain or fetch from API
     const [resolvedChains, resolvedDomain] = await Promise.all([
-      resolvedOptions.chains ? Promise.resolve(resolvedOptions.chains) : fetchAllChains(resolvedOptions.apiBaseUrl ?? AORI_API, resolvedOptions.apiKey),
-      resolvedOptions.domain ? Promise.resolve(resolvedOptions.domain) : getDomain(resolvedOptions.apiBaseUrl ?? AORI_API, resolvedOptions.apiKey)
+      resolvedOptions.chains ? Promise.resolve(resolvedOptions.chains) : fetchAllChains(resolvedOptions.apiBaseUrl ?? AORI_API, resolvedOptions.apiKey, requestDefaults),
+      resolvedOptions.domain ? Promise.resolve(resolvedOptions.domain) : getDomain(resolvedOptions.apiBaseUrl ?? AORI_API, resolvedOptions.apiKey, requestDefaults)
     ]);
 
     // Conditionally fetch all tokens
     let tokens: TokenInfo[] = [];
     if (resolvedOptions.loadTokens === true) {
-      tokens = await fetchAllTokens(resolvedOptions.apiBaseUrl ?? AORI_API, resolvedOptions.apiKey);
+      tokens = await fetchAllTokens(resolvedOptions.apiBaseUrl ?? AORI_API, resolvedOptions.apiKey, requestDefaults);
     }
 
     return new Aori(
@@ -203,7 +320,12 @@ export class Aori {
       resolvedOptions.apiBaseUrl ?? AORI_API, 
       resolvedOptions.wsBaseUrl ?? AORI_WS_API, 
       resolvedOptions.apiKey, 
-      tokens
+      tokens,
+      requestDefaults,
+      resolvedOptions.websocket,
+      resolvedOptions.fees,
+      resolvedOptions.transactionMonitor,
+      resolvedOptions.swapStore
     );
   }
 
@@ -251,8 +373,8 @@ export class Aori {
    * @param options Optional parameters including AbortSignal
    * @returns A promise that resolves when tokens are loaded
    */
-  public async loadTokens(chain?: string | number, options: { signal?: AbortSignal } = {}): Promise<void> {
-    this.tokens = await fetchAllTokens(this.apiBaseUrl, this.apiKey, { signal: options.signal, chain });
+  public async loadTokens(chain?: string | number, options: RequestOptions = {}): Promise<void> {
+    this.tokens = await fetchAllTokens(this.apiBaseUrl, this.apiKey, { ...this.withRequestDefaults(options), chain });
   }
 
   /**
@@ -282,29 +404,35 @@ export class Aori {
    * @param options Optional parameters including AbortSignal
    * @returns An array of tokens for the specified chain
    */
-  public async fetchTokens(chain: string | number, options: { signal?: AbortSignal } = {}): Promise<TokenInfo[]> {
-    return await getTokens(chain, this.apiBaseUrl, this.apiKey, options);
+  public async fetchTokens(chain: string | number, options: RequestOptions = {}): Promise<TokenInfo[]> {
+    return await getTokens(chain, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options));
   }
 
   /**
    * Signs an order using EIP-712 typed data format
    * @param quoteResponse The quote response containing order details
-   * @param signer The wallet client that can sign typed data
+   * @param signer The wallet client that can sign typed data, or a DigestSigner
    * @param userAddress The address of the user signing the order
+   * @param options Optional parameters including AbortSignal, and whether to verify the quote hashes before signing
    * @returns The signature and orderHash
    */
-  public async signReadableOrder(quoteResponse: QuoteResponse, signer: TypedDataSigner, userAddress: string) {
+  public async signReadableOrder(
+    quoteResponse: QuoteResponse,
+    signer: TypedDataSigner | DigestSigner,
+    userAddress: string,
+    options: RequestOptions & SigningOptions = {}
+  ) {
     // Get the specific chain info from our cached chains
     const inputChain = this.chains[quoteResponse.inputChain.toLowerCase()];
     const outputChain = this.chains[quoteResponse.outputChain.toLowerCase()];
     
     // Validate that we have the required chain information
     if (!inputChain) {
-      throw new Error(`Input chain '${quoteResponse.inputChain}' not found in cached chains. Available chains: ${Object.keys(this.chains).join(', ')}`);
+      throw new AoriValidationError(`Input chain '${quoteResponse.inputChain}' not found in cached chains. Available chains: ${Object.keys(this.chains).join(', ')}`, { field: 'inputChain' });
     }
     
     if (!outputChain) {
-      throw new Error(`Output chain '${quoteResponse.outputChain}' not found in cached chains. Available chains: ${Object.keys(this.chains).join(', ')}`);
+      throw new AoriValidationError(`Output chain '${quoteResponse.outputChain}' not found in cached chains. Available chains: ${Object.keys(this.chains).join(', ')}`, { field: 'outputChain' });
     }
     
     return await signReadableOrder(
@@ -315,109 +443,213 @@ export class Aori {
       this.apiKey,
       inputChain,
       outputChain,
-      this.domain ?? undefined
+      this.domain ?? undefined,
+      this.withRequestDefaults(options)
     );
   }
 
   /**
-   * Connect to the Aori WebSocket server
+   * Connect to the Aori WebSocket server. Dropped connections are re-established automatically
+   * according to the reconnect strategy, and any connection previously opened with connect() is closed.
+   * Use subscribe() to watch several filters at once.
    * @param filter The filter to subscribe to
+   * @param callbacks Callbacks for events, connection state changes and errors
+   * @param options Optional reconnect and heartbeat configuration, overriding the instance defaults
    * @returns Promise that resolves when connection is established
    */
-  public connect(filter: SubscriptionParams = {}, callbacks: WebSocketCallbacks = {}): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        // Add /stream path to the WebSocket URL
-        const wsUrl = new URL('/stream', this.wsBaseUrl);
-
-        // Add API key to URL if provided
-        if (this.apiKey) {
-          wsUrl.searchParams.append('key', this.apiKey);
-        }
-
-        // Add filter to URL if provided
-        for (const [key, value] of Object.entries(filter)) {
-          if (value) {
-            wsUrl.searchParams.append(key, value);
-          }
-        }
-
-        this.ws = new WebSocket(wsUrl.toString());
-
-        this.ws.onopen = () => {
-          callbacks.onConnect?.();
-          resolve();
-        };
-
-        this.ws.onmessage = (event) => {
-          try {
-            const wsEvent: WSEvent = JSON.parse(event.data);
-            callbacks.onMessage?.(wsEvent);
-          } catch (error) {
-            console.error('Failed to parse WebSocket message:', error);
-          }
-        };
-
-        this.ws.onclose = (event) => {
-          callbacks.onDisconnect?.(event);
-        };
-
-        this.ws.onerror = (error) => {
-          callbacks.onError?.(error);
-          reject(error);
-        };
-
-      } catch (error) {
-        reject(error);
-      }
-    });
+  public connect(
+    filter: SubscriptionParams = {},
+    callbacks: WebSocketCallbacks = {},
+    options?: WebSocketOptions
+  ): Promise<void> {
+    this.connection?.unsubscribe();
+    this.connection = this.subscriptions.subscribe(filter, callbacks, options);
+    return this.connection.ready;
+  }
+
+  /**
+   * Subscribe to WebSocket events matching a filter. Each subscription has its own callbacks and can be
+   * unsubscribed independently; subscriptions with the same filter share a single connection.
+   * @param filter The filter to subscribe to
+   * @param callbacks Callbacks for events, connection state changes and errors
+   * @param options Optional connection options overriding the instance defaults, e.g. `{ backfill: true }`.
+   * Subscriptions with their own options get a dedicated connection.
+   * @returns The subscription handle. Await `subscription.ready` to wait for the connection.
+   *
+   * @example
+   * const byOfferer = aori.subscribe({ offerer }, { onMessage: (event) => console.log('offerer', event) });
+   * const byChain = aori.subscribe({ inputChain: 'base' }, { onMessage: (event) => console.log('base', event) });
+   * await Promise.all([byOfferer.ready, byChain.ready]);
+   *
+   * // Later
+   * byChain.unsubscribe();
+   */
+  public subscribe(
+    filter: SubscriptionParams = {},
+    callbacks: WebSocketCallbacks = {},
+    options?: WebSocketOptions
+  ): AoriSubscription {
+    return this.subscriptions.subscribe(filter, callbacks, options);
+  }
+
+  /**
+   * Streams WebSocket events matching a filter as an async iterator. The stream opens its own subscription,
+   * which is closed when the loop exits, the signal is aborted, or the connection is permanently lost.
+   * @param filter The filter to subscribe to
+   * @param options Abort signal and buffering configuration
+   * @returns An async iterator of events that throws when the connection drops, unless failOnDisconnect is false
+   *
+   * @example
+   * const controller = new AbortController();
+   * for await (const event of aori.stream({ offerer }, { signal: controller.signal, bufferSize: 100 })) {
+   *   if (event.eventType === WSEventType.Completed) {
+   *     await settle(event.order);
+   *   }
+   * }
+   */
+  public stream(filter: SubscriptionParams = {}, options: StreamOptions = {}): AoriEventStream {
+    return new AoriEventStream(callbacks => this.subscriptions.subscribe(filter, callbacks), options);
+  }
+
+  /**
+   * Returns all active WebSocket subscriptions, including the one opened with connect()
+   */
+  public getSubscriptions(): AoriSubscription[] {
+    return this.subscriptions.getSubscriptions();
   }
 
   /**
-   * Disconnect from the WebSocket server
+   * Disconnect from the WebSocket server, closing all subscriptions and connections
    */
   public disconnect(): void {
-    if (this.ws) {
-      // Remove event listeners to prevent memory leaks
-      this.ws.onopen = null;
-      this.ws.onmessage = null;
-      this.ws.onclose = null;
-      this.ws.onerror = null;
-      
-      // Close connection if still open
-      if (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING) {
-        this.ws.close();
-      }
-      
-      this.ws = null;
-    }
+    this.connection = null;
+    this.subscriptions.closeAll();
   }
 
   /**
-   * Check if the WebSocket is currently connected
+   * Check if the WebSocket opened with connect() is currently connected
    */
   public isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.connection?.getState() === 'open';
+  }
+
+  /**
+   * Returns the state of the WebSocket opened with connect()
+   * @returns 'connecting', 'open', 'reconnecting' or 'closed'
+   */
+  public getConnectionState(): WebSocketConnectionState {
+    return this.connection?.getState() ?? 'closed';
+  }
+
+  /**
+   * Builds the WebSocket stream URL for a filter
+   * @param filter The filter to subscribe to
+   * @returns The WebSocket URL including API key and filter parameters
+   */
+  private buildStreamUrl(filter: SubscriptionParams): string {
+    // Add /stream path to the WebSocket URL
+    const wsUrl = new URL('/stream', this.wsBaseUrl);
+
+    // Add API key to URL if provided
+    if (this.apiKey) {
+      wsUrl.searchParams.append('key', this.apiKey);
+    }
+
+    // Add filter to URL if provided
+    for (const [key, value] of Object.entries(filter)) {
+      if (value) {
+        wsUrl.searchParams.append(key, value);
+      }
+    }
+
+    return wsUrl.toString();
   }
 
   /**
    * Requests a quote for a swap
-   * @param request The quote request
+   * @param request The quote request with an exact input or output amount, optionally with a minimum output or maximum slippage
    * @param options Optional parameters including AbortSignal
    * @returns The quote response
+   * @throws AoriSlippageError if the quoted output is below the minimum output
+   * @throws AoriError if no exact-input quote reaches an exact output within the tolerance
    */
-  public async getQuote(request: QuoteRequest, options: { signal?: AbortSignal } = {}): Promise<QuoteResponse> {
-    return await getQuote(request, this.apiBaseUrl, this.apiKey, options);
+  public async getQuote(request: QuoteRequest, options: RequestOptions = {}): Promise<QuoteResponse> {
+    return await getQuote(request, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options));
   }
 
   /**
    * Signs an order using the signing hash from a quote response
    * @param quoteResponse The quote response containing the signing hash
-   * @param signer The signer object containing the private key
+   * @param signer A DigestSigner (local key, KMS, HSM, hardware wallet) or a raw private key signer
+   * @param signingOptions With verifyHashes, the signing hash and order hash are verified against the order
+   * using the cached chains and domain
    * @returns The signature string
    */
-  public async signOrder(quoteResponse: QuoteResponse, signer: SignerType) {
-    return await signOrder(quoteResponse, signer);
+  public async signOrder(quoteResponse: QuoteResponse, signer: SignerType, signingOptions: SigningOptions = {}) {
+    const typedDataParams = isNativeSwap(quoteResponse) ? undefined : this.getTypedDataParams(quoteResponse);
+    return await signOrder(quoteResponse, signer, typedDataParams, signingOptions);
+  }
+
+  /**
+   * Recomputes the order hash and EIP-712 digest of a quote from the cached chains and domain
+   * and checks them against the orderHash and signingHash returned by the API
+   * @param quoteResponse The quote response to verify
+   * @returns The locally computed hashes
+   * @throws AoriValidationError if a hash doesn't match the order
+   */
+  public verifyQuoteHashes(quoteResponse: QuoteResponse): { orderHash: string, signingHash?: string } {
+    return verifyQuoteHashes(quoteResponse, this.getTypedDataParams(quoteResponse));
+  }
+
+  /**
+   * Recovers the address that signed an order, using the cached chains and domain
+   * @param quoteResponse The quote response containing order details
+   * @param signature The order signature
+   * @returns The recovered signer address
+   */
+  public recoverOrderSigner(quoteResponse: QuoteResponse, signature: string): string {
+    return recoverOrderSigner(quoteResponse, signature, this.getTypedDataParams(quoteResponse));
+  }
+
+  /**
+   * Verifies that an order signature was made by the order's offerer, using the cached chains and domain.
+   * Falls back to EIP-1271 for smart contract wallets when an executor is provided.
+   * @param quoteResponse The quote response containing order details
+   * @param signature The order signature
+   * @param txExecutor Optional executor to check the signature with the offerer contract (EIP-1271)
+   * @returns True if the offerer signed the order
+   */
+  public async verifyOrderSignature(
+    quoteResponse: QuoteResponse,
+    signature: string,
+    txExecutor?: Pick<ContractTxExecutor, 'call'>
+  ): Promise<boolean> {
+    return await verifyOrderSignature(quoteResponse, signature, this.getTypedDataParams(quoteResponse), txExecutor);
+  }
+
+  private getTypedDataParams(quoteResponse: QuoteResponse): OrderTypedDataParams {
+    const inputChain = this.chains[quoteResponse.inputChain.toLowerCase()];
+    const outputChain = this.chains[quoteResponse.outputChain.toLowerCase()];
+
+    if (!inputChain) {
+      throw new AoriValidationError(`Input chain '${quoteResponse.inputChain}' not found in cached chains. Available chains: ${Object.keys(this.chains).join(', ')}`, { field: 'inputChain' });
+    }
+
+    if (!outputChain) {
+      throw new AoriValidationError(`Output chain '${quoteResponse.outputChain}' not found in cached chains. Available chains: ${Object.keys(this.chains).join(', ')}`, { field: 'outputChain' });
+    }
+
+    if (!this.domain) {
+      throw new AoriValidationError("Domain info is required to verify the signing hash", { field: 'domain' });
+    }
+
+    return {
+      srcEid: inputChain.eid,
+      dstEid: outputChain.eid,
+      chainId: inputChain.chainId,
+      verifyingContract: inputChain.address as `0x${string}`,
+      domainInfo: this.domain
+    };
   }
 
   /**
@@ -427,8 +659,8 @@ export class Aori {
    * @returns The swap response
    
    */
-  public async submitSwap(request: SwapRequest, options: { signal?: AbortSignal } = {}) {
-    return await submitSwap(request, this.apiBaseUrl, this.apiKey, options);
+  public async submitSwap(request: SwapRequest, options: RequestOptions = {}) {
+    return await submitSwap(request, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options));
   }
 
   /**
@@ -437,19 +669,57 @@ export class Aori {
    * @param options Optional parameters including AbortSignal
    * @returns The order status
    */
-  public async getOrderStatus(orderHash: string, options: { signal?: AbortSignal } = {}) {
-    return await getOrderStatus(orderHash, this.apiBaseUrl, this.apiKey, options);
+  public async getOrderStatus(orderHash: string, options: RequestOptions = {}) {
+    return await getOrderStatus(orderHash, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options));
   }
 
   /**
-   * Polls the order status until it's completed, failed, or times out
+   * Polls the order status until it's completed, failed or cancelled, or times out. With `detectExpiry`,
+   * polling also ends when the order is past its endTime while pending. Terminal states and backoff are
+   * configurable in the options.
    * @param orderHash The hash of the order to poll
    * @param options Polling options and callbacks
    * @param abortOptions Optional parameters including AbortSignal
    * @returns The final order status
    */
-  public async pollOrderStatus(orderHash: string, options: PollOrderStatusOptions = {}, abortOptions: { signal?: AbortSignal } = {}) {
-    return await pollOrderStatus(orderHash, this.apiBaseUrl, options, this.apiKey, abortOptions);
+  // eslint-disable-next-line no-dupe-class-members
+  public async pollOrderStatus(
+    orderHash: string,
+    options: ExpiringPollOrderStatusOptions,
+    abortOptions?: RequestOptions
+  ): Promise<OrderStatus | ExpiredOrderStatus>
+  // eslint-disable-next-line no-dupe-class-members
+  public async pollOrderStatus(orderHash: string, options?: PollOrderStatusOptions, abortOptions?: RequestOptions): Promise<OrderStatus>
+
+  // eslint-disable-next-line no-dupe-class-members
+  public async pollOrderStatus(
+    orderHash: string,
+    options: PollOrderStatusOptions | ExpiringPollOrderStatusOptions = {},
+    abortOptions: RequestOptions = {}
+  ): Promise<OrderStatus | ExpiredOrderStatus> {
+    return await pollOrderStatus(orderHash, this.apiBaseUrl, options as ExpiringPollOrderStatusOptions, this.apiKey, this.withRequestDefaults(abortOptions));
+  }
+
+  /**
+   * Waits until an order reaches a status. WebSocket events for the order trigger immediate status checks,
+   * and the status is polled with exponential backoff in case the socket is unavailable.
+   * @param orderHash The hash of the order to wait for
+   * @param options The status to wait for ('received' or 'completed'), deadline and polling intervals
+   * @param abortOptions Optional parameters including AbortSignal
+   * @returns The first terminal status: the awaited status, 'failed' or 'cancelled'
+   * @throws AoriTimeoutError if the order's endTime (or the given deadline) passes first
+   *
+   * @example
+   * const status = await aori.waitForOrder(orderHash, { until: 'received' }, { signal });
+   * if (status.status === 'received') {
+   *   console.log('Deposit confirmed:', status.txUrl);
+   * }
+   */
+  public async waitForOrder(orderHash: string, options: WaitForOrderOptions = {}, abortOptions: RequestOptions = {}) {
+    return await waitForOrder(orderHash, this.apiBaseUrl, {
+      subscribe: (filter, callbacks) => this.subscriptions.subscribe(filter, callbacks),
+      ...options
+    }, this.apiKey, this.withRequestDefaults(abortOptions));
   }
 
   /**
@@ -458,8 +728,8 @@ export class Aori {
    * @param options Optional parameters including AbortSignal
    * @returns The order details
    */
-  public async getOrderDetails(orderHash: string, options: { signal?: AbortSignal } = {}) {
-    return await getOrderDetails(orderHash, this.apiBaseUrl, this.apiKey, options);
+  public async getOrderDetails(orderHash: string, options: RequestOptions = {}) {
+    return await getOrderDetails(orderHash, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options));
   }
 
   /**
@@ -468,8 +738,8 @@ export class Aori {
    * @param options Optional parameters including AbortSignal
    * @returns The contract-compliant order with EIDs resolved from cached chains
    */
-  public async getOrder(orderHash: string, options: { signal?: AbortSignal } = {}): Promise<Order> {
-    return await getOrder(orderHash, this.chains, this.apiBaseUrl, this.apiKey, options);
+  public async getOrder(orderHash: string, options: RequestOptions = {}): Promise<Order> {
+    return await getOrder(orderHash, this.chains, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options));
   }
 
   /**
@@ -478,8 +748,8 @@ export class Aori {
    * @param options Optional parameters including AbortSignal
    * @returns The query results
    */
-  public async queryOrders(params: QueryOrdersParams, options: { signal?: AbortSignal } = {}) {
-    return await queryOrders(this.apiBaseUrl, params, this.apiKey, options);
+  public async queryOrders(params: QueryOrdersParams, options: RequestOptions = {}) {
+    return await queryOrders(this.apiBaseUrl, params, this.apiKey, this.withRequestDefaults(options));
   }
 
   /**
@@ -488,13 +758,14 @@ export class Aori {
    * @param txExecutor Transaction executor for blockchain operations with optional RPC call capability
    * @param options Optional parameters including AbortSignal
    * @returns The cancel order response
+   * @throws AoriChainMismatchError if the executor is on the wrong chain and can't be switched
    */
   public async cancelOrder(
     orderHash: string, 
     txExecutor: CancelTxExecutor, 
-    options: { signal?: AbortSignal } = {}
+    options: RequestOptions = {}
   ): Promise<CancelOrderResponse> {
-    return await cancelOrder(orderHash, undefined, txExecutor, this.apiBaseUrl, this.apiKey, options);
+    return await cancelOrder(orderHash, undefined, txExecutor, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options), this.chains, this.fees, this.transactionMonitor);
   }
 
   /**
@@ -503,8 +774,8 @@ export class Aori {
    * @param options Optional parameters including AbortSignal
    * @returns The cancel transaction data
    */
-  public async getCancelTx(orderHash: string, options: { signal?: AbortSignal } = {}): Promise<CancelTx> {
-    return await getCancelTx(orderHash, this.apiBaseUrl, this.apiKey, options);
+  public async getCancelTx(orderHash: string, options: RequestOptions = {}): Promise<CancelTx> {
+    return await getCancelTx(orderHash, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options));
   }
 
   /**
@@ -514,8 +785,17 @@ export class Aori {
    * @param options Optional parameters including AbortSignal
    * @returns Promise<boolean> True if the order can be cancelled, false otherwise
    */
-  public async canCancel(orderHash: string, options: { signal?: AbortSignal } = {}): Promise<boolean> {
-    return await canCancel(orderHash, undefined, this.apiBaseUrl, this.apiKey, options);
+  public async canCancel(orderHash: string, options: RequestOptions = {}): Promise<boolean> {
+    return await canCancel(orderHash, undefined, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options));
+  }
+
+  /**
+   * Merges per-call request options with the instance defaults (e.g. retry policy, transport)
+   * @param options The per-call request options
+   * @returns The request options to pass to the API functions
+   */
+  private withRequestDefaults(options: RequestOptions): RequestOptions {
+    return { ...this.requestDefaults, ...options };
   }
 
   //////////////////////////////////////////////////////////
@@ -554,13 +834,27 @@ export class Aori {
    * @param txExecutor The wallet/provider that can execute transactions
    * @param gasLimit Optional gas limit override
    * @returns Transaction response with hash and success status
+   * @throws AoriChainMismatchError if the executor is on the wrong chain and can't be switched
    */
   public async executeNativeSwap(
     nativeResponse: NativeSwapResponse,
     txExecutor: TxExecutor,
     gasLimit?: string
   ): Promise<TransactionResponse> {
-    return await executeNativeSwap(nativeResponse, txExecutor, gasLimit);
+    return await executeNativeSwap(nativeResponse, txExecutor, gasLimit, this.getChain(nativeResponse.inputChain)?.chainId, this.fees, this.transactionMonitor);
+  }
+
+  /**
+   * Executes a native token deposit from a smart account as a UserOperation or Safe transaction
+   * @param nativeResponse The native swap response containing transaction data
+   * @param account The smart account executor
+   * @returns Transaction response with the hash of the including transaction and the operation hash
+   */
+  public async executeSmartAccountDeposit(
+    nativeResponse: NativeSwapResponse,
+    account: SmartAccountExecutor
+  ): Promise<TransactionResponse> {
+    return await executeSmartAccountDeposit(nativeResponse, account);
   }
 
   /**
@@ -581,25 +875,182 @@ export class Aori {
    * @param quote The quote response from a previous getQuote call
    * @param config Configuration object containing the appropriate parameters for each swap type
    * @param options Optional parameters including AbortSignal
-   * @returns TransactionResponse for native tokens (after execution) or SwapResponse for ERC20 tokens
+   * @param executeOptions Whether failures are thrown or returned, and a callback notified of each step
+   * @returns The submitted order with its native deposit transaction, the approve transaction if the allowance is
+   * insufficient and the approval mode is 'return', or the failure if throwOnError is false
+   * @throws AoriSwapError if the swap fails, unless throwOnError is false
+   *
+   * @example
+   * const result = await aori.executeSwap(quote, config, {}, { throwOnError: false });
+   * if (result.outcome === 'failed') {
+   *   console.error(`Swap failed while ${result.error.step}:`, result.error.message);
+   * }
    */
   public async executeSwap(
     quote: QuoteResponse,
     config: SwapConfig,
-    options: { signal?: AbortSignal } = {}
-  ): Promise<TransactionResponse | SwapResponse> {
-    return await executeSwap(quote, config, this.apiBaseUrl, this.apiKey, options);
+    options: RequestOptions = {},
+    executeOptions: ExecuteSwapOptions = {}
+  ): Promise<SwapExecutionResult> {
+    return await executeSwap(quote, this.withSwapDefaults(quote, config), this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options), {
+      chains: this.chains,
+      domain: this.domain ?? undefined,
+      ...executeOptions
+    });
+  }
+
+  /**
+   * Creates a swap that moves through explicit states from the quote to the completed order,
+   * reporting every state change as a progress event. Call execute() on the swap to start it.
+   * @param quote The quote response from a previous getQuote call
+   * @param config Configuration object containing the appropriate parameters for each swap type
+   * @param swapOptions Progress callback, the state to track the order until, and polling configuration
+   * @param options Optional parameters including AbortSignal
+   * @returns The swap, in the quoted state
+   *
+   * @example
+   * const swap = aori.createSwap(quote, { type: 'native', txExecutor: wallet }, {
+   *   onProgress: (event) => setStatus(event.state)
+   * });
+   * const { state, depositTxHash, error } = await swap.execute();
+   */
+  public createSwap(
+    quote: QuoteResponse,
+    config: SwapConfig,
+    swapOptions: SwapOptions = {},
+    options: RequestOptions = {}
+  ): AoriSwap {
+    return new AoriSwap(
+      quote,
+      this.withSwapDefaults(quote, config),
+      this.withSwapOptionDefaults(swapOptions),
+      this.apiBaseUrl,
+      this.apiKey,
+      this.withRequestDefaults(options)
+    );
+  }
+
+  /**
+   * Resumes the swaps persisted to the swap store, e.g. after a restart or page reload. Each swap continues
+   * where it was stopped: orders that were never submitted are submitted, native orders whose deposit was
+   * never sent are deposited, and all other orders are tracked.
+   * @param config Configuration of the swaps, or a function returning the configuration of each swap
+   * @param swapOptions Progress callback, the state to track the orders until, and polling configuration
+   * @param options Optional parameters including AbortSignal
+   * @returns The resumed swaps, already executing
+   * @throws AoriValidationError if no swap store is configured
+   *
+   * @example
+   * const swaps = await aori.resumeSwaps({ type: 'native', txExecutor: wallet }, {
+   *   onProgress: (event) => console.log(event.orderHash, event.state)
+   * });
+   * const snapshots = await Promise.all(swaps.map(swap => swap.execute()));
+   */
+  public async resumeSwaps(
+    config: SwapConfig | ((snapshot: SwapSnapshot) => SwapConfig),
+    swapOptions: SwapOptions = {},
+    options: RequestOptions = {}
+  ): Promise<AoriSwap[]> {
+    const { store, ...rest } = this.withSwapOptionDefaults(swapOptions);
+    if (!store) {
+      throw new AoriValidationError("No swap store configured: pass swapStore to Aori.create or store to resumeSwaps", { field: 'store' });
+    }
+
+    return await resumeSwaps(
+      store,
+      (snapshot) => this.withSwapDefaults(snapshot.quote, typeof config === 'function' ? config(snapshot) : config),
+      rest,
+      this.apiBaseUrl,
+      this.apiKey,
+      this.withRequestDefaults(options)
+    );
+  }
+
+  /**
+   * Fills in the WebSocket subscriptions and the swap store of swap options
+   */
+  private withSwapOptionDefaults(swapOptions: SwapOptions): SwapOptions {
+    return {
+      subscribe: (filter, callbacks) => this.subscriptions.subscribe(filter, callbacks),
+      store: this.swapStore,
+      ...swapOptions
+    };
+  }
+
+  /**
+   * Fills in the cached spender, fee strategy and transaction monitor of a swap config
+   */
+  private withSwapDefaults(quote: QuoteResponse, config: SwapConfig): SwapConfig {
+    // Approve the cached Aori contract address unless a spender is given
+    if (config.type === 'erc20' && config.approval && !config.approval.spender) {
+      const spender = this.getChain(quote.inputChain)?.address;
+      config = { ...config, approval: { ...config.approval, spender } };
+    }
+    if (config.type === 'erc20' && config.permit && !config.permit.spender) {
+      const spender = this.getChain(quote.inputChain)?.address;
+      config = { ...config, permit: { ...config.permit, spender } };
+    }
+
+    // Apply the instance fee strategy and transaction monitor unless the config has its own
+    if (config.type === 'native' && !config.fees) {
+      config = { ...config, fees: this.fees };
+    }
+    if (config.type === 'native' && !config.monitor) {
+      config = { ...config, monitor: this.transactionMonitor };
+    }
+    if (config.type === 'erc20' && config.approval && !config.approval.fees) {
+      config = { ...config, approval: { ...config.approval, fees: this.fees } };
+    }
+
+    return config;
+  }
+
+  /**
+   * Checks whether the offerer of a quote has approved the Aori contract for the input amount
+   * @param quote The quote response for an ERC20 swap
+   * @param txExecutor An executor that can perform read-only contract calls
+   * @param options Optional parameters including AbortSignal
+   * @returns The allowance check, including the approve transaction if the allowance is insufficient
+   */
+  public async checkAllowance(
+    quote: QuoteResponse,
+    txExecutor: Pick<ContractTxExecutor, 'call'>,
+    options: RequestOptions = {}
+  ): Promise<AllowanceCheck> {
+    const spender = this.getChain(quote.inputChain)?.address;
+    return await checkAllowance(quote, txExecutor, spender, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options));
+  }
+
+  /**
+   * Signs a permit allowing the Aori contract to pull the input tokens of a quote without an approve transaction
+   * @param quote The quote response for an ERC20 swap
+   * @param signer The wallet client that can sign typed data, or a DigestSigner
+   * @param userAddress The address of the user signing the permit
+   * @param config The permit type and an executor to read the token state
+   * @param options Optional parameters including AbortSignal
+   * @returns The signed permit to attach to the swap request
+   */
+  public async signPermit(
+    quote: QuoteResponse,
+    signer: TypedDataSigner | DigestSigner,
+    userAddress: string,
+    config: PermitConfig,
+    options: RequestOptions = {}
+  ): Promise<PermitSignature> {
+    return await signPermit(quote, signer, userAddress, config, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options), this.getChain(quote.inputChain));
   }
 
   /**
    * Converts a QuoteResponse, SwapResponse, or OrderDetails to a contract-compliant Order
    * @param order The quote response, swap response, or order details to convert
+   * @param options Optional parameters including AbortSignal
    * @returns The contract-compliant order struct with EIDs resolved from cached chains
    */
   public async parseOrder(
-    order: QuoteResponse | SwapResponse | OrderDetails
+    order: QuoteResponse | SwapResponse | OrderDetails,
+    options: RequestOptions = {}
   ): Promise<Order> {
-    return await parseOrder(order, this.chains, this.apiBaseUrl, this.apiKey);
+    return await parseOrder(order, this.chains, this.apiBaseUrl, this.apiKey, this.withRequestDefaults(options));
   }
  
 }
@@ -0,0 +1,228 @@
+import { SwapExecutionStep, SwapResponse, TransactionResponse } from './types';
+
+////////////////////////////////////////////////////////////////*/
+//                         BASE ERROR
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Base class for all errors thrown by the Aori SDK
+ */
+export class AoriError extends Error {
+  /** The underlying error, if this error wraps another one */
+  public cause?: unknown;
+
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message);
+    this.name = new.target.name;
+    if (options.cause !== undefined) {
+      this.cause = options.cause;
+    }
+  }
+}
+
+////////////////////////////////////////////////////////////////*/
+//                         API ERRORS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Thrown when the Aori API responds with a non-2xx status
+ */
+export class AoriApiError extends AoriError {
+  /** HTTP status code of the response */
+  public readonly status: number;
+  /** Error code reported by the API, if any */
+  public readonly code?: string;
+  /** Parsed JSON body of the response, or the raw text if it is not JSON */
+  public readonly body: unknown;
+  /** The endpoint that failed, e.g. "POST /quote" */
+  public readonly endpoint: string;
+  /** Request id reported by the API, if any */
+  public readonly requestId?: string;
+
+  constructor(
+    message: string,
+    { status, code, body, endpoint, requestId, cause }: {
+      status: number;
+      code?: string;
+      body: unknown;
+      endpoint: string;
+      requestId?: string;
+      cause?: unknown;
+    }
+  ) {
+    super(message, { cause });
+    this.status = status;
+    this.code = code;
+    this.body = body;
+    this.endpoint = endpoint;
+    this.requestId = requestId;
+  }
+
+  /**
+   * Creates an API error from a failed response and its body text
+   * @param response The failed response
+   * @param text The response body text
+   * @param endpoint The endpoint that was called, e.g. "POST /quote"
+   * @returns The API error with status, code, parsed body and request id
+   */
+  public static fromResponse(response: Response, text: string, endpoint: string): AoriApiError {
+    let body: unknown = text;
+    try {
+      body = text ? JSON.parse(text) : text;
+    } catch (error) {
+      // Keep the raw text for non-JSON bodies
+    }
+
+    const fields = typeof body === 'object' && body !== null ? body as Record<string, unknown> : {};
+    const serverMessage = typeof fields.message === 'string' ? fields.message
+      : typeof fields.error === 'string' ? fields.error
+        : typeof body === 'string' && body ? body
+          : undefined;
+    const code = typeof fields.code === 'string' ? fields.code
+      : typeof fields.errorCode === 'string' ? fields.errorCode
+        : undefined;
+    const requestId = response.headers.get('x-request-id')
+      ?? (typeof fields.requestId === 'string' ? fields.requestId : undefined);
+
+    return new AoriApiError(
+      serverMessage ?? `${endpoint} failed with status ${response.status}`,
+      { status: response.status, code, body, endpoint, requestId }
+    );
+  }
+}
+
+/**
+ * Thrown when a request to the Aori API fails before a response is received
+ */
+export class AoriNetworkError extends AoriError {
+  /** The endpoint that failed, e.g. "GET /chains" */
+  public readonly endpoint: string;
+
+  constructor(message: string, { endpoint, cause }: { endpoint: string; cause?: unknown }) {
+    super(message, { cause });
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * Thrown when a request or operation exceeds its time limit
+ */
+export class AoriTimeoutError extends AoriError {
+  /** The time limit in milliseconds, if known */
+  public readonly timeout?: number;
+
+  constructor(message: string, { timeout, cause }: { timeout?: number; cause?: unknown } = {}) {
+    super(message, { cause });
+    this.timeout = timeout;
+  }
+}
+
+////////////////////////////////////////////////////////////////*/
+//                      VALIDATION ERRORS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Thrown when input or API data fails client-side validation
+ */
+export class AoriValidationError extends AoriError {
+  /** The field that failed validation, if applicable */
+  public readonly field?: string;
+
+  constructor(message: string, { field, cause }: { field?: string; cause?: unknown } = {}) {
+    super(message, { cause });
+    this.field = field;
+  }
+}
+
+////////////////////////////////////////////////////////////////*/
+//                         QUOTE ERRORS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Thrown when a quote's output is below the minimum output or the allowed slippage
+ */
+export class AoriSlippageError extends AoriError {
+  /** The quoted output amount */
+  public readonly outputAmount: string;
+  /** The minimum output amount the quote had to reach */
+  public readonly minOutputAmount: string;
+  /** The reference output amount, if slippage was measured against one */
+  public readonly referenceOutputAmount?: string;
+  /** Shortfall of the quoted output below the reference output, in basis points */
+  public readonly slippageBps?: number;
+
+  constructor(
+    message: string,
+    { outputAmount, minOutputAmount, referenceOutputAmount, slippageBps, cause }: {
+      outputAmount: string;
+      minOutputAmount: string;
+      referenceOutputAmount?: string;
+      slippageBps?: number;
+      cause?: unknown;
+    }
+  ) {
+    super(message, { cause });
+    this.outputAmount = outputAmount;
+    this.minOutputAmount = minOutputAmount;
+    this.referenceOutputAmount = referenceOutputAmount;
+    this.slippageBps = slippageBps;
+  }
+}
+
+////////////////////////////////////////////////////////////////*/
+//                         CHAIN ERRORS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Thrown when a transaction would be sent by an executor connected to the wrong chain
+ */
+export class AoriChainMismatchError extends AoriError {
+  /** The chain the transaction must be sent on */
+  public readonly expectedChainId: number;
+  /** The chain the executor is connected to */
+  public readonly actualChainId: number;
+
+  constructor(
+    message: string,
+    { expectedChainId, actualChainId, cause }: { expectedChainId: number; actualChainId: number; cause?: unknown }
+  ) {
+    super(message, { cause });
+    this.expectedChainId = expectedChainId;
+    this.actualChainId = actualChainId;
+  }
+}
+
+////////////////////////////////////////////////////////////////*/
+//                         SWAP ERRORS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Thrown or returned by executeSwap when a swap fails. The cause is the error of the failed step.
+ */
+export class AoriSwapError extends AoriError {
+  /** The step in which the swap failed */
+  public readonly step: SwapExecutionStep;
+  /** The hash of the order */
+  public readonly orderHash: string;
+  /** The API response, if the order was submitted before the failure */
+  public readonly swap?: SwapResponse;
+  /** The native deposit transaction, if it was sent */
+  public readonly depositTx?: TransactionResponse;
+
+  constructor(
+    message: string,
+    { step, orderHash, swap, depositTx, cause }: {
+      step: SwapExecutionStep;
+      orderHash: string;
+      swap?: SwapResponse;
+      depositTx?: TransactionResponse;
+      cause?: unknown;
+    }
+  ) {
+    super(message, { cause });
+    this.step = step;
+    this.orderHash = orderHash;
+    this.swap = swap;
+    this.depositTx = depositTx;
+  }
+}
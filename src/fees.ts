@@ -0,0 +1,163 @@
+import { AoriValidationError } from './errors';
+import { ChainFeeStrategy, FeeStrategy, TransactionRequest, TxExecutor } from './types';
+import {
+  DEFAULT_BASE_FEE_MULTIPLIER,
+  DEFAULT_FEE_HISTORY_BLOCKS,
+  DEFAULT_GAS_BUFFER_PERCENT
+} from './constants';
+
+/**
+ * Resolves the fee strategy of a chain, applying its per-chain overrides
+ * @param strategy The fee strategy
+ * @param chain The chain key of the transaction
+ * @returns The fee strategy for the chain
+ */
+export function resolveFeeStrategy(strategy: FeeStrategy = {}, chain?: string): ChainFeeStrategy {
+  const { chains, ...defaults } = strategy;
+  const overrides = chain ? chains?.[chain.toLowerCase()] : undefined;
+
+  return { ...defaults, ...overrides };
+}
+
+////////////////////////////////////////////////////////////////*/
+//                          GAS LIMITS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Estimates the gas limit of a transaction, adding the buffer of the fee strategy
+ * @param request The transaction request
+ * @param txExecutor The executor used to estimate gas
+ * @param strategy The fee strategy for the chain
+ * @param fallbackGasLimit Gas limit used when estimation fails and the strategy has none
+ * @returns The gas limit, or undefined if the executor can't estimate gas
+ */
+export async function estimateGasLimit(
+  request: TransactionRequest,
+  txExecutor: Pick<TxExecutor, 'estimateGas'>,
+  strategy: ChainFeeStrategy = {},
+  fallbackGasLimit?: string
+): Promise<string | undefined> {
+  if (!txExecutor.estimateGas) {
+    return undefined;
+  }
+
+  const { gasBufferPercent = DEFAULT_GAS_BUFFER_PERCENT } = strategy;
+  if (!Number.isInteger(gasBufferPercent) || gasBufferPercent < 0) {
+    throw new AoriValidationError("gasBufferPercent must be a non-negative integer", { field: 'gasBufferPercent' });
+  }
+
+  try {
+    const estimatedGas = await txExecutor.estimateGas(request);
+    return (estimatedGas * BigInt(100 + gasBufferPercent) / BigInt(100)).toString();
+  } catch (error) {
+    return strategy.fallbackGasLimit ?? fallbackGasLimit;
+  }
+}
+
+////////////////////////////////////////////////////////////////*/
+//                        EIP-1559 FEES
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Computes the EIP-1559 fees of a transaction from the fee strategy. Fixed fees are used as is,
+ * a priority fee percentile is read from the fee history of recent blocks, and a missing maxFeePerGas
+ * is derived from the next base fee. Fees the strategy doesn't determine are left to the executor.
+ * @param txExecutor The executor used to read the fee history
+ * @param strategy The fee strategy for the chain
+ * @returns The fees to set on the transaction request
+ */
+export async function estimateFees(
+  txExecutor: Pick<TxExecutor, 'getFeeHistory'>,
+  strategy: ChainFeeStrategy = {}
+): Promise<Pick<TransactionRequest, 'maxFeePerGas' | 'maxPriorityFeePerGas'>> {
+  const {
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    priorityFeePercentile,
+    feeHistoryBlocks = DEFAULT_FEE_HISTORY_BLOCKS,
+    baseFeeMultiplier = DEFAULT_BASE_FEE_MULTIPLIER
+  } = strategy;
+
+  if (priorityFeePercentile !== undefined && (priorityFeePercentile < 0 || priorityFeePercentile > 100)) {
+    throw new AoriValidationError("priorityFeePercentile must be between 0 and 100", { field: 'priorityFeePercentile' });
+  }
+  if (baseFeeMultiplier < 1) {
+    throw new AoriValidationError("baseFeeMultiplier must be at least 1", { field: 'baseFeeMultiplier' });
+  }
+
+  const usePercentile = priorityFeePercentile !== undefined && maxPriorityFeePerGas === undefined;
+  // The base fee is only needed to derive maxFeePerGas from a known priority fee
+  const needsHistory = usePercentile || (maxFeePerGas === undefined && maxPriorityFeePerGas !== undefined);
+
+  if (!needsHistory) {
+    return withoutUndefined({ maxFeePerGas, maxPriorityFeePerGas });
+  }
+
+  if (!txExecutor.getFeeHistory) {
+    if (usePercentile) {
+      throw new AoriValidationError("Percentile-based priority fees require an executor that implements getFeeHistory", { field: 'getFeeHistory' });
+    }
+    return withoutUndefined({ maxFeePerGas, maxPriorityFeePerGas });
+  }
+
+  const history = await txExecutor.getFeeHistory(feeHistoryBlocks, usePercentile ? [priorityFeePercentile] : []);
+
+  let priorityFee: bigint;
+  if (usePercentile) {
+    const rewards = (history.reward ?? []).map(reward => reward[0]).filter(reward => reward !== undefined);
+    if (rewards.length === 0) {
+      throw new AoriValidationError("Fee history returned no priority fees", { field: 'getFeeHistory' });
+    }
+    priorityFee = rewards.reduce((sum, reward) => sum + BigInt(reward), BigInt(0)) / BigInt(rewards.length);
+  } else {
+    priorityFee = BigInt(maxPriorityFeePerGas!);
+  }
+
+  let maxFee: bigint;
+  if (maxFeePerGas !== undefined) {
+    maxFee = BigInt(maxFeePerGas);
+    // A priority fee above the max fee is rejected by nodes
+    if (priorityFee > maxFee) {
+      priorityFee = maxFee;
+    }
+  } else {
+    const nextBaseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0);
+    maxFee = nextBaseFee * BigInt(Math.round(baseFeeMultiplier * 100)) / BigInt(100) + priorityFee;
+  }
+
+  return {
+    maxFeePerGas: maxFee.toString(),
+    maxPriorityFeePerGas: priorityFee.toString()
+  };
+}
+
+/**
+ * Applies a fee strategy to a transaction request: estimates the gas limit unless one is set, and sets EIP-1559 fees
+ * @param request The transaction request
+ * @param txExecutor The executor that will send the transaction
+ * @param strategy The fee strategy, with optional per-chain overrides
+ * @param chain The chain key of the transaction, used to pick per-chain overrides
+ * @param fallbackGasLimit Gas limit used when estimation fails and the strategy has none
+ * @returns A new transaction request with the gas limit and fees set
+ */
+export async function applyFeeStrategy(
+  request: TransactionRequest,
+  txExecutor: Pick<TxExecutor, 'estimateGas' | 'getFeeHistory'>,
+  strategy?: FeeStrategy,
+  chain?: string,
+  fallbackGasLimit?: string
+): Promise<TransactionRequest> {
+  const chainStrategy = resolveFeeStrategy(strategy, chain);
+
+  const gasLimit = request.gasLimit || await estimateGasLimit(request, txExecutor, chainStrategy, fallbackGasLimit);
+  const fees = await estimateFees(txExecutor, chainStrategy);
+
+  return withoutUndefined({ ...request, gasLimit, ...fees });
+}
+
+/**
+ * Drops undefined fields, so unset fees aren't passed to the executor
+ */
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
@@ -1,6 +1,11 @@
 import { ethers } from 'ethers';
-import { AORI_API, NATIVE_TOKEN_ADDRESS } from './constants';
-import { ChainInfo, DomainInfo, TokenInfo, QuoteRequest, QuoteResponse, ERC20QuoteResponse, NativeQuoteResponse, SignerType, SwapRequest, SwapResponse, TypedDataSigner, OrderStatus, PollOrderStatusOptions, QueryOrdersParams, QueryOrdersResponse, OrderDetails, TransactionRequest, TransactionResponse, NativeSwapResponse, ERC20SwapResponse, SwapConfig, TxExecutor, Order, CancelOrderResponse, CancelTxExecutor, CancelTx } from './types';
+import { AORI_API, DEFAULT_APPROVE_GAS_LIMIT, DEFAULT_CANCEL_GAS_LIMIT, DEFAULT_DEPOSIT_GAS_LIMIT, DEFAULT_EXACT_OUTPUT_MAX_ITERATIONS, DEFAULT_EXACT_OUTPUT_TOLERANCE_BPS, NATIVE_TOKEN_ADDRESS, PERMIT2_ADDRESS } from './constants';
+import { http, buildHeaders, isAbortError, isTransientError, withErrorContext } from './http';
+import { AoriApiError, AoriChainMismatchError, AoriError, AoriSlippageError, AoriSwapError, AoriTimeoutError, AoriValidationError } from './errors';
+import { isDigestSigner, toDigestSigner } from './signers';
+import { applyFeeStrategy } from './fees';
+import { sendMonitoredTransaction } from './monitor';
+import { ChainInfo, DomainInfo, TokenInfo, QuoteRequest, QuoteRequestBase, ExpiredOrderStatus, ExpiringPollOrderStatusOptions, ExactOutputQuoteRequest, QuoteResponse, ERC20QuoteResponse, NativeQuoteResponse, SignerType, SwapRequest, SwapResponse, TypedDataSigner, OrderStatus, PollOrderStatusOptions, QueryOrdersParams, QueryOrdersResponse, OrderDetails, TransactionRequest, TransactionResponse, NativeSwapResponse, ERC20SwapResponse, SwapConfig, TxExecutor, Order, CancelOrderResponse, CancelTxExecutor, CancelTx, RequestOptions, SubscriptionParams, BackfillOptions, WSEvent, WSEventType, WaitForOrderOptions, ContractTxExecutor, AllowanceCheck, ApprovalRequiredResponse, PermitConfig, PermitSignature, PermitTypedDataParams, OrderTypedDataParams, SigningOptions, SignTypedDataParams, SmartAccountExecutor, DigestSigner, TypedDataHashes, FeeStrategy, TransactionMonitorOptions, SwapStep, SwapExecutionStep, SwapExecutionResult, ExecuteSwapOptions, SlippageProtection } from './types';
 
 ////////////////////////////////////////////////////////////////*/
 //                      NATIVE TOKEN UTILITIES
@@ -66,51 +71,70 @@ export function isERC20SwapResponse(response: SwapResponse): response is ERC20Sw
  * @param nativeResponse The native swap response containing transaction data
  * @param txExecutor The wallet/provider that can execute transactions
  * @param gasLimit Optional gas limit override
- * @returns Transaction response with hash and success status
+ * @param chainId Optional chain id of the input chain. If provided, the executor's chain is validated before sending.
+ * @param fees Optional gas buffer and EIP-1559 fee settings
+ * @param monitor Optional deadline after which a pending deposit is sped up or cancelled
+ * @param onSent Optional callback receiving the deposit transaction hash once it is sent, before it is mined.
+ * A returned promise is awaited before waiting for the receipt
+ * @returns Transaction response with the hash of the mined transaction and success status
+ * @throws AoriChainMismatchError if the executor is on the wrong chain and can't be switched. A failed deposit is returned with success false instead
  */
 export async function executeNativeSwap(
   nativeResponse: NativeSwapResponse,
   txExecutor: TxExecutor,
-  gasLimit?: string
+  gasLimit?: string,
+  chainId?: number,
+  fees?: FeeStrategy,
+  monitor?: TransactionMonitorOptions,
+  onSent?: (txHash: string) => void | Promise<void>
 ): Promise<TransactionResponse> {
   try {
     // Validate the native response
     validateNativeSwapResponse(nativeResponse);
 
-    const transactionRequest: TransactionRequest = {
-      to: nativeResponse.to,
-      data: nativeResponse.data,
-      value: nativeResponse.value,
-      gasLimit
-    };
-
-    // Estimate gas if not provided and estimateGas is available
-    if (!gasLimit && txExecutor.estimateGas) {
-      try {
-        const estimatedGas = await txExecutor.estimateGas(transactionRequest);
-        // Add 20% buffer to estimated gas
-        // Add 20% buffer to estimated gas
-        const bufferMultiplier = BigInt(120); // 120% = original + 20% buffer
-        const baseMultiplier = BigInt(100);
-        transactionRequest.gasLimit = (estimatedGas * bufferMultiplier / baseMultiplier).toString();
-      } catch (error) {
-        // If gas estimation fails, use a default
-        transactionRequest.gasLimit = "200000";
-      }
+    if (chainId !== undefined) {
+      await ensureChain(txExecutor, chainId);
     }
 
-    // Execute the transaction
-    const tx = await txExecutor.sendTransaction(transactionRequest);
+    // Estimate gas if not provided and set the fees of the strategy
+    const transactionRequest = await applyFeeStrategy(
+      {
+        to: nativeResponse.to,
+        data: nativeResponse.data,
+        value: nativeResponse.value,
+        gasLimit
+      },
+      txExecutor,
+      fees,
+      nativeResponse.inputChain,
+      DEFAULT_DEPOSIT_GAS_LIMIT
+    );
 
-    // Wait for transaction confirmation
-    await tx.wait();
+    // Execute the transaction and wait for confirmation, replacing it if it gets stuck
+    const tx = await sendMonitoredTransaction(transactionRequest, txExecutor, monitor, onSent);
+    const originalTxHash = tx.hash !== tx.originalHash ? tx.originalHash : undefined;
+
+    if (tx.cancelled) {
+      return {
+        success: false,
+        txHash: tx.hash,
+        originalTxHash,
+        error: "Deposit transaction was replaced with a cancellation"
+      };
+    }
 
     return {
       success: true,
-      txHash: tx.hash
+      txHash: tx.hash,
+      ...(originalTxHash && { originalTxHash })
     };
 
   } catch (error) {
+    // Sending from the wrong chain is a setup problem the caller has to handle
+    if (error instanceof AoriChainMismatchError) {
+      throw error;
+    }
+
     return {
       success: false,
       txHash: "",
@@ -125,35 +149,35 @@ export async function executeNativeSwap(
  */
 export function validateNativeSwapResponse(response: NativeSwapResponse): void {
   if (!response.to) {
-    throw new Error("Native deposit response missing 'to' field");
+    throw new AoriValidationError("Native deposit response missing 'to' field", { field: 'to' });
   }
 
   if (!response.data) {
-    throw new Error("Native deposit response missing 'data' field");
+    throw new AoriValidationError("Native deposit response missing 'data' field", { field: 'data' });
   }
 
   if (!response.value) {
-    throw new Error("Native deposit response missing 'value' field");
+    throw new AoriValidationError("Native deposit response missing 'value' field", { field: 'value' });
   }
 
   // Validate that 'to' is a valid Ethereum address
   if (!ethers.isAddress(response.to)) {
-    throw new Error(`Invalid contract address: ${response.to}`);
+    throw new AoriValidationError(`Invalid contract address: ${response.to}`, { field: 'to' });
   }
 
   // Validate that 'data' is valid hex
   if (!response.data.startsWith('0x')) {
-    throw new Error("Transaction data must be valid hex string starting with '0x'");
+    throw new AoriValidationError("Transaction data must be valid hex string starting with '0x'", { field: 'data' });
   }
 
   // Validate that 'value' matches inputAmount for native tokens
   if (response.value !== response.inputAmount) {
-    throw new Error("Transaction value must match input amount for native token deposits");
+    throw new AoriValidationError("Transaction value must match input amount for native token deposits", { field: 'value' });
   }
 
   // Validate that input token is native token
   if (!isNativeToken(response.inputToken)) {
-    throw new Error("Native deposit response must have native token as input token");
+    throw new AoriValidationError("Native deposit response must have native token as input token", { field: 'inputToken' });
   }
 }
 
@@ -173,7 +197,7 @@ export function constructNativeSwapTransaction(
     to: nativeResponse.to,
     data: nativeResponse.data,
     value: nativeResponse.value,
-    gasLimit: gasLimit || "200000" // Default gas limit
+    gasLimit: gasLimit || DEFAULT_DEPOSIT_GAS_LIMIT
   };
 }
 
@@ -187,7 +211,7 @@ export function validateContractAddress(
   trustedAddresses?: string[]
 ): void {
   if (!ethers.isAddress(contractAddress)) {
-    throw new Error(`Invalid contract address: ${contractAddress}`);
+    throw new AoriValidationError(`Invalid contract address: ${contractAddress}`);
   }
 
   // If trusted addresses are provided, validate against them
@@ -197,7 +221,7 @@ export function validateContractAddress(
     );
 
     if (!isValidAddress) {
-      throw new Error(
+      throw new AoriValidationError(
         `Contract address ${contractAddress} is not in the list of trusted addresses: ${trustedAddresses.join(', ')}`
       );
     }
@@ -244,7 +268,7 @@ export function validateDepositNativeCalldata(data: string): boolean {
 export async function fetchAllChains(
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
+  { signal, retry, transport }: RequestOptions = {},
 ): Promise<Record<string, ChainInfo>> {
   try {
 
@@ -253,6 +277,8 @@ export async function fetchAllChains(
       url: new URL('chains', baseUrl),
       headers: buildHeaders(apiKey),
       signal,
+      retry,
+      transport,
     })
 
     // Convert array to object with chainKey as key
@@ -265,7 +291,7 @@ export async function fetchAllChains(
 
     return chainsObject;
   } catch (error) {
-    throw new Error(`Failed to fetch chains: ${error}`);
+    throw withErrorContext(error, 'Failed to fetch chains');
   }
 }
 
@@ -280,7 +306,7 @@ export async function getChain(
   chain: string | number,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
+  { signal, retry, transport }: RequestOptions = {},
 ): Promise<ChainInfo> {
   try {
 
@@ -288,7 +314,9 @@ export async function getChain(
       method: 'GET',
       url: new URL('chains', baseUrl),
       headers: buildHeaders(apiKey),
-      signal
+      signal,
+      retry,
+      transport,
     })
     const chainsArray = response.data;
 
@@ -307,12 +335,12 @@ export async function getChain(
     }
 
     if (!targetChain) {
-      throw new Error(`Chain not found for identifier: ${chain}`);
+      throw new AoriValidationError(`Chain not found for identifier: ${chain}`);
     }
 
     return targetChain;
   } catch (error) {
-    throw new Error(`Failed to fetch chain information: ${error}`);
+    throw withErrorContext(error, 'Failed to fetch chain information');
   }
 }
 
@@ -327,7 +355,7 @@ export async function getAddress(
   chain: string | number,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
+  { signal, retry, transport }: RequestOptions = {},
 ): Promise<string> {
   try {
 
@@ -335,7 +363,9 @@ export async function getAddress(
       method: 'GET',
       url: new URL('chains', baseUrl),
       headers: buildHeaders(apiKey),
-      signal
+      signal,
+      retry,
+      transport,
     });
     const chainsArray = response.data;
 
@@ -354,12 +384,12 @@ export async function getAddress(
     }
 
     if (!targetChain) {
-      throw new Error(`Chain not found for identifier: ${chain}`);
+      throw new AoriValidationError(`Chain not found for identifier: ${chain}`);
     }
 
     return targetChain.address;
   } catch (error) {
-    throw new Error(`Failed to fetch chain address: ${error}`);
+    throw withErrorContext(error, 'Failed to fetch chain address');
   }
 }
 
@@ -374,14 +404,16 @@ export async function getChainByEid(
   eid: number,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
+  { signal, retry, transport }: RequestOptions = {},
 ): Promise<ChainInfo> {
   try {
     const response = await http({
       method: 'GET',
       url: new URL('chains', baseUrl),
       headers: buildHeaders(apiKey),
-      signal
+      signal,
+      retry,
+      transport,
     });
     const chainsArray = response.data;
 
@@ -390,13 +422,65 @@ export async function getChainByEid(
     );
 
     if (!targetChain) {
-      throw new Error(`Chain not found for EID: ${eid}`);
+      throw new AoriValidationError(`Chain not found for EID: ${eid}`);
     }
 
     return targetChain;
   } catch (error) {
-    throw new Error(`Failed to fetch chain information: ${error}`);
+    throw withErrorContext(error, 'Failed to fetch chain information');
+  }
+}
+
+//////////////////////////////////////////////////////////////*/
+//                      CHAIN VALIDATION
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Makes sure an executor sends transactions on the expected chain, switching chains if the executor supports it.
+ * Executors without getChainId can't be checked and are trusted.
+ * @param txExecutor The executor about to send a transaction
+ * @param expectedChainId The chain the transaction must be sent on
+ * @throws AoriChainMismatchError if the executor is on another chain and can't be switched
+ */
+export async function ensureChain(
+  txExecutor: Pick<TxExecutor, 'getChainId' | 'switchChain'>,
+  expectedChainId: number
+): Promise<void> {
+  if (!txExecutor.getChainId) {
+    return;
+  }
+
+  const actualChainId = Number(await txExecutor.getChainId());
+  if (actualChainId === expectedChainId) {
+    return;
+  }
+
+  if (txExecutor.switchChain) {
+    try {
+      await txExecutor.switchChain(expectedChainId);
+    } catch (error) {
+      throw new AoriChainMismatchError(
+        `Failed to switch from chain ${actualChainId} to chain ${expectedChainId}: ${error instanceof Error ? error.message : String(error)}`,
+        { expectedChainId, actualChainId, cause: error }
+      );
+    }
+
+    // Wallets can ignore or reject the request without throwing, so check again
+    const switchedChainId = Number(await txExecutor.getChainId());
+    if (switchedChainId === expectedChainId) {
+      return;
+    }
+
+    throw new AoriChainMismatchError(
+      `Executor is still on chain ${switchedChainId} after switching to chain ${expectedChainId}`,
+      { expectedChainId, actualChainId: switchedChainId }
+    );
   }
+
+  throw new AoriChainMismatchError(
+    `Executor is on chain ${actualChainId} but the transaction must be sent on chain ${expectedChainId}`,
+    { expectedChainId, actualChainId }
+  );
 }
 
 //////////////////////////////////////////////////////////////*/
@@ -412,7 +496,7 @@ export async function getChainByEid(
 export async function getDomain(
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
+  { signal, retry, transport }: RequestOptions = {},
 ): Promise<DomainInfo> {
   try {
     const response = await http({
@@ -420,11 +504,13 @@ export async function getDomain(
       url: new URL('domain', baseUrl),
       headers: buildHeaders(apiKey),
       signal,
+      retry,
+      transport,
     });
 
     return response.data;
   } catch (error) {
-    throw new Error(`Failed to fetch domain information: ${error}`);
+    throw withErrorContext(error, 'Failed to fetch domain information');
   }
 }
 
@@ -442,7 +528,7 @@ export async function getDomain(
 export async function fetchAllTokens(
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal, chain }: { signal?: AbortSignal; chain?: string | number } = {},
+  { signal, retry, transport, chain }: RequestOptions & { chain?: string | number } = {},
 ): Promise<TokenInfo[]> {
   try {
     const url = new URL('tokens', baseUrl);
@@ -461,11 +547,13 @@ export async function fetchAllTokens(
       url,
       headers: buildHeaders(apiKey),
       signal,
+      retry,
+      transport,
     });
 
     return response.data;
   } catch (error) {
-    throw new Error(`Failed to fetch tokens: ${error}`);
+    throw withErrorContext(error, 'Failed to fetch tokens');
   }
 }
 
@@ -480,36 +568,291 @@ export async function getTokens(
   chain: string | number,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
+  { signal, retry, transport }: RequestOptions = {},
 ): Promise<TokenInfo[]> {
-  return await fetchAllTokens(baseUrl, apiKey, { signal, chain });
+  return await fetchAllTokens(baseUrl, apiKey, { signal, retry, transport, chain });
 }
 
 //////////////////////////////////////////////////////////////*/
 //                         GET A QUOTE
 //////////////////////////////////////////////////////////////*/
 
+/**
+ * Requests a quote. A minimum output or maximum slippage in the request is enforced client-side,
+ * since the API doesn't accept one.
+ *
+ * Requests with an outputAmount instead of an inputAmount quote the input needed for that output.
+ * If the API can't quote exact outputs, exact-input quotes are searched for one whose output is at
+ * most `exactOutput.toleranceBps` above the requested output.
+ * @param request The quote request
+ * @param baseUrl The base URL of the API
+ * @param apiKey Optional API key for authentication
+ * @returns The quote
+ * @throws AoriSlippageError if the quoted output is below the minimum output
+ * @throws AoriValidationError if the reverse pair can't be quoted and no exactOutput.initialInputAmount is given
+ * @throws AoriError if the exact-output search doesn't converge
+ */
 export async function getQuote(
   request: QuoteRequest,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
+  requestOptions: RequestOptions = {},
+): Promise<QuoteResponse> {
+  const { minOutputAmount, maxSlippageBps, referenceOutputAmount, ...quoteRequest } = request;
+  const slippage = { minOutputAmount, maxSlippageBps, referenceOutputAmount };
+  // Reject invalid settings before requesting a quote
+  getMinOutputAmount(slippage);
+
+  const quote = quoteRequest.outputAmount !== undefined
+    ? await getExactOutputQuote(quoteRequest, baseUrl, apiKey, requestOptions)
+    : await requestQuote(quoteRequest, baseUrl, apiKey, requestOptions);
+
+  validateQuoteOutput(quote, slippage);
+  return quote;
+}
+
+async function requestQuote(
+  request: Omit<QuoteRequestBase, keyof SlippageProtection> & { inputAmount?: string | number | bigint; outputAmount?: string | number | bigint },
+  baseUrl: string,
+  apiKey: string | undefined,
+  { signal, retry, transport }: RequestOptions,
 ): Promise<QuoteResponse> {
+  const { inputAmount, outputAmount, ...quoteRequest } = request;
+
   try {
     const response = await http({
       method: 'POST',
       url: new URL('quote', baseUrl),
       headers: buildHeaders(apiKey),
       signal,
+      retry,
+      transport,
+      idempotent: true, // Quotes have no side effects
       data: {
-        ...request,
-        inputAmount: request.inputAmount.toString(), // Convert any number type to string
+        ...quoteRequest,
+        // Convert any number type to string
+        inputAmount: inputAmount?.toString(),
+        outputAmount: outputAmount?.toString(),
       }
     });
 
     return response.data;
   } catch (error) {
-    throw new Error(`Quote request failed: ${error}`);
+    throw withErrorContext(error, 'Quote request failed');
+  }
+}
+
+async function getExactOutputQuote(
+  request: Omit<ExactOutputQuoteRequest, keyof SlippageProtection>,
+  baseUrl: string,
+  apiKey: string | undefined,
+  requestOptions: RequestOptions,
+): Promise<QuoteResponse> {
+  const { exactOutput = {}, outputAmount, ...quoteRequest } = request;
+  const {
+    toleranceBps = DEFAULT_EXACT_OUTPUT_TOLERANCE_BPS,
+    maxIterations = DEFAULT_EXACT_OUTPUT_MAX_ITERATIONS,
+    initialInputAmount,
+    strategy = 'auto'
+  } = exactOutput;
+
+  if (!Number.isInteger(toleranceBps) || toleranceBps < 0) {
+    throw new AoriValidationError("toleranceBps must be a non-negative integer", { field: 'toleranceBps' });
+  }
+  if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+    throw new AoriValidationError("maxIterations must be a positive integer", { field: 'maxIterations' });
+  }
+  const target = parseAmount(outputAmount, 'outputAmount');
+  if (target === BigInt(0)) {
+    throw new AoriValidationError("outputAmount must be greater than zero", { field: 'outputAmount' });
+  }
+  const initialInput = initialInputAmount !== undefined ? parseAmount(initialInputAmount, 'initialInputAmount') : undefined;
+  if (initialInput === BigInt(0)) {
+    throw new AoriValidationError("initialInputAmount must be greater than zero", { field: 'initialInputAmount' });
+  }
+  const maxOutput = target + target * BigInt(toleranceBps) / BigInt(10000);
+
+  if (strategy === 'auto') {
+    try {
+      const quote = await requestQuote({ ...quoteRequest, outputAmount: target }, baseUrl, apiKey, requestOptions);
+      // An API without exact-output support may quote something else instead of rejecting the request
+      const output = BigInt(quote.outputAmount);
+      if (output >= target && output <= maxOutput) {
+        return quote;
+      }
+    } catch (error) {
+      // Requests without an inputAmount are rejected as invalid by an API without exact-output support
+      if (!(error instanceof AoriApiError) || ![400, 404, 422].includes(error.status)) {
+        throw error;
+      }
+    }
+  }
+
+  let input = initialInput ?? await estimateInputAmount(quoteRequest, target, baseUrl, apiKey, requestOptions);
+
+  // Scale the input by the ratio of the wanted to the quoted output, which converges in a few quotes
+  // for near-constant prices. Inputs quoted below or above the window bound the search.
+  const aim = (target + maxOutput) / BigInt(2);
+  let low = BigInt(0);
+  let high: bigint | undefined;
+  let quotes = 0;
+  let rejection: AoriApiError | undefined;
+  while (quotes < maxIterations) {
+    let output = BigInt(0);
+    try {
+      const quote = await requestQuote({ ...quoteRequest, inputAmount: input }, baseUrl, apiKey, requestOptions);
+      output = BigInt(quote.outputAmount);
+      if (output >= target && output <= maxOutput) {
+        return quote;
+      }
+    } catch (error) {
+      // Inputs below the pair's minimum are rejected instead of quoted, so they bound the search from below
+      if (!(error instanceof AoriApiError) || ![400, 404, 422].includes(error.status)) {
+        throw error;
+      }
+      rejection = error;
+    }
+    quotes++;
+
+    if (output < target) {
+      low = input > low ? input : low;
+    } else {
+      high = high === undefined || input < high ? input : high;
+    }
+
+    let next = output > BigInt(0) ? (input * aim + output - BigInt(1)) / output : input * BigInt(2);
+    if (next <= low || (high !== undefined && next >= high)) {
+      // The price estimate left the bounds, so bisect them instead
+      next = high !== undefined ? (low + high) / BigInt(2) : low * BigInt(2);
+    }
+    if (next <= low || (high !== undefined && next >= high)) {
+      // Adjacent bounds: no input quotes an output within the window
+      break;
+    }
+    input = next;
+  }
+
+  throw new AoriError(
+    `No quote within ${toleranceBps} bps above the output amount ${target} after ${quotes} exact-input quotes`,
+    { cause: rejection }
+  );
+}
+
+/**
+ * Estimates the input needed for an output by quoting the output amount in the opposite direction.
+ * The estimate is in the input token's units, which can differ from the output token's by many decimals.
+ * @throws AoriValidationError if the reverse pair can't be quoted, as no estimate in the input token's units is left
+ */
+async function estimateInputAmount(
+  request: Omit<QuoteRequestBase, keyof SlippageProtection>,
+  outputAmount: bigint,
+  baseUrl: string,
+  apiKey: string | undefined,
+  requestOptions: RequestOptions,
+): Promise<bigint> {
+  const { inputToken, outputToken, inputChain, outputChain } = request;
+
+  let cause: AoriApiError | undefined;
+  try {
+    const quote = await requestQuote(
+      { ...request, inputToken: outputToken, outputToken: inputToken, inputChain: outputChain, outputChain: inputChain, inputAmount: outputAmount },
+      baseUrl,
+      apiKey,
+      requestOptions
+    );
+    const estimate = BigInt(quote.outputAmount);
+    if (estimate > BigInt(0)) {
+      return estimate;
+    }
+  } catch (error) {
+    if (!(error instanceof AoriApiError) || ![400, 404, 422].includes(error.status)) {
+      throw error;
+    }
+    cause = error;
+  }
+
+  // The output amount is in the output token's units, so it can't stand in for the input
+  throw new AoriValidationError(
+    "The reverse pair can't be quoted to estimate the input amount, pass exactOutput.initialInputAmount instead",
+    { field: 'initialInputAmount', cause }
+  );
+}
+
+/**
+ * Returns the minimum output a quote must reach: the higher of minOutputAmount and
+ * the reference output less the maximum slippage
+ * @param slippage The minimum output, or the maximum slippage from a reference output
+ * @returns The minimum output amount, or undefined if there is none
+ */
+export function getMinOutputAmount({ minOutputAmount, maxSlippageBps, referenceOutputAmount }: SlippageProtection): bigint | undefined {
+  if (maxSlippageBps !== undefined && (!Number.isInteger(maxSlippageBps) || maxSlippageBps < 0 || maxSlippageBps > 10000)) {
+    throw new AoriValidationError("maxSlippageBps must be an integer between 0 and 10000", { field: 'maxSlippageBps' });
+  }
+  if (maxSlippageBps !== undefined && referenceOutputAmount === undefined) {
+    throw new AoriValidationError("maxSlippageBps requires a referenceOutputAmount to measure slippage against", { field: 'referenceOutputAmount' });
+  }
+  if (referenceOutputAmount !== undefined && maxSlippageBps === undefined) {
+    throw new AoriValidationError("referenceOutputAmount requires maxSlippageBps", { field: 'maxSlippageBps' });
+  }
+
+  let minimum: bigint | undefined;
+  if (minOutputAmount !== undefined) {
+    minimum = parseAmount(minOutputAmount, 'minOutputAmount');
+  }
+  if (referenceOutputAmount !== undefined && maxSlippageBps !== undefined) {
+    const reference = parseAmount(referenceOutputAmount, 'referenceOutputAmount');
+    const fromReference = reference * BigInt(10000 - maxSlippageBps) / BigInt(10000);
+    minimum = minimum === undefined || fromReference > minimum ? fromReference : minimum;
+  }
+
+  return minimum;
+}
+
+/**
+ * Checks that a quote's output reaches the minimum output
+ * @param quote The quote to check
+ * @param slippage The minimum output, or the maximum slippage from a reference output
+ * @throws AoriSlippageError if the quoted output is below the minimum output
+ */
+export function validateQuoteOutput(quote: QuoteResponse, slippage: SlippageProtection): void {
+  const minimum = getMinOutputAmount(slippage);
+  if (minimum === undefined) {
+    return;
+  }
+
+  const output = parseAmount(quote.outputAmount, 'outputAmount');
+  if (output >= minimum) {
+    return;
+  }
+
+  const reference = slippage.referenceOutputAmount !== undefined
+    ? parseAmount(slippage.referenceOutputAmount, 'referenceOutputAmount')
+    : undefined;
+  const slippageBps = reference !== undefined && output < reference
+    ? Number((reference - output) * BigInt(10000) / reference)
+    : undefined;
+
+  throw new AoriSlippageError(
+    `Quoted output ${output} is below the minimum output ${minimum}` +
+      (slippageBps !== undefined ? ` (${slippageBps} bps below the reference output ${reference})` : ''),
+    {
+      outputAmount: output.toString(),
+      minOutputAmount: minimum.toString(),
+      referenceOutputAmount: reference?.toString(),
+      slippageBps
+    }
+  );
+}
+
+function parseAmount(amount: string | number | bigint, field: string): bigint {
+  try {
+    const value = BigInt(amount);
+    if (value < BigInt(0)) {
+      throw new RangeError('negative amount');
+    }
+    return value;
+  } catch (error) {
+    throw new AoriValidationError(`${field} must be a non-negative integer amount in base units`, { field, cause: error });
   }
 }
 
@@ -521,12 +864,17 @@ export async function getQuote(
 /**
  * Signs an order using the signing hash from a quote response
  * @param quoteResponse The quote response containing the signing hash
- * @param signer The signer object containing the private key
+ * @param signer A DigestSigner (local key, KMS, HSM, hardware wallet) or a raw private key signer
+ * @param typedDataParams Optional chain and domain parameters. Required for hardware wallet signers
+ * and for verifying the hashes.
+ * @param signingOptions With verifyHashes, the signing hash and order hash are verified against the order before signing
  * @returns The signature string
  */
 export async function signOrder(
   quoteResponse: QuoteResponse,
-  signer: SignerType
+  signer: SignerType,
+  typedDataParams?: OrderTypedDataParams,
+  { verifyHashes = false }: SigningOptions = {}
 ): Promise<string> {
   // Check if this is a native swap (no signing hash)
   if (isNativeSwap(quoteResponse)) {
@@ -535,30 +883,28 @@ export async function signOrder(
 
   // At this point, we know it's an ERC20 swap with signingHash
   if (!isERC20QuoteResponse(quoteResponse)) {
-    throw new Error("Signing hash is required for ERC20 swaps");
+    throw new AoriValidationError("Signing hash is required for ERC20 swaps", { field: 'signingHash' });
   }
 
-  // Create signing key directly from private key
-  const signingKey = new ethers.SigningKey(signer.privateKey);
+  // Refuse to sign a hash that doesn't match the order
+  if (verifyHashes) {
+    if (!typedDataParams) {
+      throw new AoriValidationError("Verifying the quote hashes requires the typed data parameters", { field: 'typedDataParams' });
+    }
+    verifyQuoteHashes(quoteResponse, typedDataParams);
+  }
 
-  // Remove '0x' prefix if present and convert to Uint8Array
+  // Remove '0x' prefix if present
   const signingHashHex = quoteResponse.signingHash.startsWith('0x')
     ? quoteResponse.signingHash
     : '0x' + quoteResponse.signingHash;
 
-  // Get bytes from the hash
-  const signingHashBytes = ethers.getBytes(signingHashHex);
+  // Signers that can't sign raw digests, like hardware wallets, need the typed data hashes
+  const typedData = typedDataParams
+    ? hashTypedData(createTypedData(quoteResponse, typedDataParams))
+    : undefined;
 
-  const signedHash = signingKey.sign(signingHashBytes);
-
-  // Format signature
-  const formattedSignature = ethers.concat([
-    signedHash.r,
-    signedHash.s,
-    `0x${signedHash.v.toString(16).padStart(2, '0')}`
-  ]);
-
-  return formattedSignature;
+  return await toDigestSigner(signer).signDigest(signingHashHex, typedData);
 }
 
 //////////////////////////////////////////////////////////////*/
@@ -566,7 +912,7 @@ export async function signOrder(
 //////////////////////////////////////////////////////////////*/
 export function createTypedData(
   quoteResponse: QuoteResponse,
-  { srcEid, dstEid, chainId, verifyingContract, domainInfo }: { srcEid: number, dstEid: number, chainId: number, verifyingContract: `0x${string}`, domainInfo: DomainInfo }
+  { srcEid, dstEid, chainId, verifyingContract, domainInfo }: OrderTypedDataParams
 ) {
   // Define the types for EIP-712 typed data
   const types = {
@@ -628,6 +974,236 @@ export function createTypedData(
   } as const
 }
 
+/**
+ * Computes the EIP-712 hashes of typed data built by createTypedData or createPermitTypedData
+ * @param typedData The typed data, including its EIP712Domain type
+ * @returns The digest, domain separator and struct hash
+ */
+export function hashTypedData(typedData: {
+  domain: Record<string, unknown>,
+  types: Record<string, readonly { name: string, type: string }[] | undefined>,
+  primaryType: string,
+  message: Record<string, unknown>
+}): TypedDataHashes {
+  const { EIP712Domain = [], ...types } = typedData.types;
+
+  // Only the fields listed in the EIP712Domain type are part of the domain separator
+  const domainFields = new Set<string>(EIP712Domain.map(field => field.name));
+  const domain = Object.fromEntries(
+    Object.entries(typedData.domain).filter(([name]) => domainFields.has(name))
+  );
+
+  const mutableTypes = Object.fromEntries(
+    Object.entries(types).map(([name, fields]) => [name, [...(fields ?? [])]])
+  );
+  const encoder = ethers.TypedDataEncoder.from(mutableTypes);
+
+  return {
+    digest: ethers.TypedDataEncoder.hash(domain, mutableTypes, typedData.message),
+    domainSeparator: ethers.TypedDataEncoder.hashDomain(domain),
+    structHash: encoder.hashStruct(typedData.primaryType, typedData.message)
+  };
+}
+
+/**
+ * Signs typed data with a wallet client, or hashes it for a DigestSigner
+ */
+async function signTypedDataWith(
+  signer: TypedDataSigner | DigestSigner,
+  account: string,
+  typedData: Parameters<typeof hashTypedData>[0]
+): Promise<string> {
+  if (isDigestSigner(signer)) {
+    const hashes = hashTypedData(typedData);
+    return await signer.signDigest(hashes.digest, hashes);
+  }
+
+  // Types are only undefined on the members of a union of typed data that don't declare them
+  return await signer.signTypedData({ account, ...typedData, types: typedData.types as SignTypedDataParams['types'] });
+}
+
+//////////////////////////////////////////////////////////////*/
+//                     VERIFY ORDER HASHES
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Computes the order hash the Aori contract uses to identify an order
+ * @param order The contract-compliant order
+ * @returns The keccak256 hash of the packed order fields
+ */
+export function computeOrderHash(order: Order): string {
+  return ethers.solidityPackedKeccak256(
+    ['uint128', 'uint128', 'address', 'address', 'uint32', 'uint32', 'uint32', 'uint32', 'address', 'address'],
+    [
+      order.inputAmount,
+      order.outputAmount,
+      order.inputToken,
+      order.outputToken,
+      order.startTime,
+      order.endTime,
+      order.srcEid,
+      order.dstEid,
+      order.offerer,
+      order.recipient
+    ]
+  );
+}
+
+/**
+ * Computes the EIP-712 digest of an order, as returned in the signingHash of a quote
+ * @param quoteResponse The quote response containing order details
+ * @param params The chain and domain parameters of the typed data
+ * @returns The EIP-712 digest
+ */
+export function computeSigningHash(
+  quoteResponse: QuoteResponse,
+  params: OrderTypedDataParams
+): string {
+  return hashTypedData(createTypedData(quoteResponse, params)).digest;
+}
+
+/**
+ * Recomputes the order hash and EIP-712 digest of a quote locally and checks them against the
+ * orderHash and signingHash returned by the API, so a wrong hash is never signed
+ * @param quoteResponse The quote response to verify
+ * @param params The chain and domain parameters of the typed data
+ * @returns The locally computed hashes. signingHash is only included for ERC20 quotes.
+ * @throws AoriValidationError if a hash doesn't match the order
+ */
+export function verifyQuoteHashes(
+  quoteResponse: QuoteResponse,
+  params: OrderTypedDataParams
+): { orderHash: string, signingHash?: string } {
+  const orderHash = computeOrderHash({
+    inputAmount: quoteResponse.inputAmount,
+    outputAmount: quoteResponse.outputAmount,
+    inputToken: quoteResponse.inputToken,
+    outputToken: quoteResponse.outputToken,
+    startTime: Number(quoteResponse.startTime),
+    endTime: Number(quoteResponse.endTime),
+    srcEid: params.srcEid,
+    dstEid: params.dstEid,
+    offerer: quoteResponse.offerer,
+    recipient: quoteResponse.recipient
+  });
+
+  if (orderHash.toLowerCase() !== quoteResponse.orderHash.toLowerCase()) {
+    throw new AoriValidationError(
+      `Order hash mismatch: expected ${orderHash} but the quote contains ${quoteResponse.orderHash}`,
+      { field: 'orderHash' }
+    );
+  }
+
+  if (!isERC20QuoteResponse(quoteResponse)) {
+    return { orderHash };
+  }
+
+  const signingHash = computeSigningHash(quoteResponse, params);
+  const quotedSigningHash = quoteResponse.signingHash.startsWith('0x')
+    ? quoteResponse.signingHash
+    : '0x' + quoteResponse.signingHash;
+
+  if (signingHash.toLowerCase() !== quotedSigningHash.toLowerCase()) {
+    throw new AoriValidationError(
+      `Signing hash mismatch: expected ${signingHash} but the quote contains ${quoteResponse.signingHash}`,
+      { field: 'signingHash' }
+    );
+  }
+
+  return { orderHash, signingHash };
+}
+
+//////////////////////////////////////////////////////////////*/
+//                     VERIFY SIGNATURES
+//////////////////////////////////////////////////////////////*/
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
+const EIP1271_INTERFACE = new ethers.Interface([
+  'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'
+]);
+
+/**
+ * Recovers the address that signed an order. Works for signatures from both signOrder and signReadableOrder,
+ * which sign the same EIP-712 digest.
+ * @param quoteResponse The quote response containing order details
+ * @param signature The order signature
+ * @param params The chain and domain parameters of the typed data
+ * @returns The recovered signer address
+ */
+export function recoverOrderSigner(
+  quoteResponse: QuoteResponse,
+  signature: string,
+  params: OrderTypedDataParams
+): string {
+  try {
+    return ethers.recoverAddress(computeSigningHash(quoteResponse, params), signature);
+  } catch (error) {
+    throw new AoriValidationError(
+      `Invalid order signature: ${error instanceof Error ? error.message : String(error)}`,
+      { field: 'signature' }
+    );
+  }
+}
+
+/**
+ * Checks a signature with a smart contract wallet's EIP-1271 isValidSignature
+ * @param contract The smart contract wallet address
+ * @param hash The signed digest
+ * @param signature The signature
+ * @param txExecutor An executor that can perform read-only contract calls
+ * @returns True if the contract accepts the signature
+ */
+export async function isValidSignature(
+  contract: string,
+  hash: string,
+  signature: string,
+  txExecutor: Pick<ContractTxExecutor, 'call'>
+): Promise<boolean> {
+  try {
+    const result = await txExecutor.call({
+      to: contract,
+      data: EIP1271_INTERFACE.encodeFunctionData('isValidSignature', [hash, signature])
+    });
+    const [magicValue] = EIP1271_INTERFACE.decodeFunctionResult('isValidSignature', result);
+    return magicValue.toLowerCase() === EIP1271_MAGIC_VALUE;
+  } catch {
+    // Contracts without EIP-1271 support, or that revert on invalid signatures, don't accept the signature
+    return false;
+  }
+}
+
+/**
+ * Verifies that an order signature was made by the order's offerer.
+ * Falls back to EIP-1271 for smart contract wallets when an executor is provided.
+ * @param quoteResponse The quote response containing order details
+ * @param signature The order signature
+ * @param params The chain and domain parameters of the typed data
+ * @param txExecutor Optional executor to check the signature with the offerer contract (EIP-1271)
+ * @returns True if the offerer signed the order
+ */
+export async function verifyOrderSignature(
+  quoteResponse: QuoteResponse,
+  signature: string,
+  params: OrderTypedDataParams,
+  txExecutor?: Pick<ContractTxExecutor, 'call'>
+): Promise<boolean> {
+  try {
+    if (recoverOrderSigner(quoteResponse, signature, params).toLowerCase() === quoteResponse.offerer.toLowerCase()) {
+      return true;
+    }
+  } catch {
+    // Contract wallet signatures are not necessarily ECDSA signatures
+  }
+
+  if (!txExecutor) {
+    return false;
+  }
+
+  return await isValidSignature(quoteResponse.offerer, computeSigningHash(quoteResponse, params), signature, txExecutor);
+}
+
 //////////////////////////////////////////////////////////////*/
 //                     SIGN READABLE ORDER
 //////////////////////////////////////////////////////////////*/
@@ -635,24 +1211,27 @@ export function createTypedData(
 /**
  * Signs an order using EIP-712 typed data format
  * @param quoteResponse The quote response containing order details
- * @param signer The wallet client that can sign typed data
+ * @param signer The wallet client that can sign typed data, or a DigestSigner
  * @param userAddress The address of the user signing the order
  * @param baseUrl The base URL of the API
  * @param apiKey Optional API key for authentication
  * @param inputChain Optional input chain info. If not provided, will fetch from API
  * @param outputChain Optional output chain info. If not provided, will fetch from API
  * @param domainInfo Optional domain info for EIP-712. If not provided, will fetch from API
+ * @param options Optional parameters including AbortSignal, used when fetching chain and domain info,
+ * and whether to verify the quote hashes before signing
  * @returns The signature and orderHash
  */
 export async function signReadableOrder(
   quoteResponse: QuoteResponse,
-  signer: TypedDataSigner,
+  signer: TypedDataSigner | DigestSigner,
   userAddress: string,
   baseUrl: string = AORI_API,
   apiKey?: string,
   inputChain?: ChainInfo,
   outputChain?: ChainInfo,
-  domainInfo?: DomainInfo
+  domainInfo?: DomainInfo,
+  { signal, retry, transport, verifyHashes = false }: RequestOptions & SigningOptions = {}
 ): Promise<{ orderHash: string, signature: string }> {
   // Check if this is a native swap (no signing hash)
   if (isNativeSwap(quoteResponse)) {
@@ -671,35 +1250,40 @@ export async function signReadableOrder(
     resolvedInputChainInfo = inputChain;
   } else {
     // fetch input chain from API
-    resolvedInputChainInfo = await getChain(quoteResponse.inputChain, baseUrl, apiKey);
+    resolvedInputChainInfo = await getChain(quoteResponse.inputChain, baseUrl, apiKey, { signal, retry, transport });
   }
 
   if (outputChain) {
     resolvedOutputChainInfo = outputChain;
   } else {
     // fetch output chain from API
-    resolvedOutputChainInfo = await getChain(quoteResponse.outputChain, baseUrl, apiKey);
+    resolvedOutputChainInfo = await getChain(quoteResponse.outputChain, baseUrl, apiKey, { signal, retry, transport });
   }
 
   if (domainInfo) {
     resolvedDomainInfo = domainInfo;
   } else {
     // fetch domain info from API
-    resolvedDomainInfo = await getDomain(baseUrl, apiKey);
+    resolvedDomainInfo = await getDomain(baseUrl, apiKey, { signal, retry, transport });
   }
 
-  const { domain, types, primaryType, message } = createTypedData(quoteResponse, {
+  const typedDataParams: OrderTypedDataParams = {
     srcEid: resolvedInputChainInfo.eid,
     dstEid: resolvedOutputChainInfo.eid,
     chainId: resolvedInputChainInfo.chainId,
     verifyingContract: resolvedInputChainInfo.address as `0x${string}`,
     domainInfo: resolvedDomainInfo
-  });
+  };
 
+  // The API submits the order under its orderHash, so make sure both hashes match what is signed
+  if (verifyHashes) {
+    verifyQuoteHashes(quoteResponse, typedDataParams);
+  }
+
+  const { domain, types, primaryType, message } = createTypedData(quoteResponse, typedDataParams);
 
   // Sign the typed data
-  const signature = await signer.signTypedData({
-    account: userAddress,
+  const signature = await signTypedDataWith(signer, userAddress, {
     domain,
     types,
     primaryType,
@@ -711,39 +1295,249 @@ export async function signReadableOrder(
     signature
   };
 }
-//////////////////////////////////////////////////////////////*/
-//                     SUBMIT A SWAP
+////////////////////////////////////////////////////////////////*/
+//                           PERMITS
 //////////////////////////////////////////////////////////////*/
 
-export async function submitSwap(
-  request: SwapRequest,
-  baseUrl: string = AORI_API,
-  apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
-): Promise<SwapResponse> {
-  try {
+const PERMIT_INTERFACE = new ethers.Interface([
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+  'function nonces(address owner) view returns (uint256)'
+]);
 
-    const response = await http({
-      method: 'POST',
-      url: new URL('swap', baseUrl),
-      headers: buildHeaders(apiKey),
-      signal,
-      data: {
-        orderHash: request.orderHash,
-        signature: request.signature,
-      }
-    });
+/**
+ * Builds the EIP-712 typed data of a permit for the input tokens of a quote
+ * @param quoteResponse The quote response for an ERC20 swap
+ * @param params The permit type, chain, spender, nonce and deadline
+ * @returns The typed data to sign
+ */
+export function createPermitTypedData(
+  quoteResponse: QuoteResponse,
+  params: PermitTypedDataParams
+) {
+  const value = BigInt(quoteResponse.inputAmount);
+  const nonce = BigInt(params.nonce);
+  const deadline = BigInt(params.deadline);
 
-    const data = response.data;
+  if (params.type === 'eip2612') {
+    return {
+      domain: {
+        name: params.tokenName,
+        version: params.tokenVersion,
+        chainId: BigInt(params.chainId),
+        verifyingContract: quoteResponse.inputToken as `0x${string}`
+      },
+      types: {
+        EIP712Domain: [
+          { name: "name", type: "string" },
+          { name: "version", type: "string" },
+          { name: "chainId", type: "uint256" },
+          { name: "verifyingContract", type: "address" }
+        ],
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" }
+        ]
+      },
+      primaryType: "Permit",
+      message: {
+        owner: quoteResponse.offerer,
+        spender: params.spender,
+        value,
+        nonce,
+        deadline
+      }
+    } as const;
+  }
 
-    // Check if this is a native deposit response (has to, data, value fields)
-    const isNativeResponse = data.to && data.data && data.value;
+  return {
+    domain: {
+      name: "Permit2",
+      chainId: BigInt(params.chainId),
+      verifyingContract: PERMIT2_ADDRESS as `0x${string}`
+    },
+    types: {
+      EIP712Domain: [
+        { name: "name", type: "string" },
+        { name: "chainId", type: "uint256" },
+        { name: "verifyingContract", type: "address" }
+      ],
+      PermitTransferFrom: [
+        { name: "permitted", type: "TokenPermissions" },
+        { name: "spender", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+      ],
+      TokenPermissions: [
+        { name: "token", type: "address" },
+        { name: "amount", type: "uint256" }
+      ]
+    },
+    primaryType: "PermitTransferFrom",
+    message: {
+      permitted: {
+        token: quoteResponse.inputToken,
+        amount: value
+      },
+      spender: params.spender,
+      nonce,
+      deadline
+    }
+  } as const;
+}
 
-    if (isNativeResponse) {
-      // Native deposit response
-      return {
-        orderHash: data.orderHash,
-        offerer: data.offerer,
+/**
+ * Signs a permit allowing the Aori contract to pull the input tokens of a quote without an approve transaction
+ * @param quoteResponse The quote response for an ERC20 swap
+ * @param signer The wallet client that can sign typed data, or a DigestSigner
+ * @param userAddress The address of the user signing the permit
+ * @param config The permit type and an executor to read the token state
+ * @param baseUrl The base URL of the API (used to look up the input chain)
+ * @param apiKey Optional API key for authentication
+ * @param options Optional parameters including AbortSignal
+ * @param inputChain Optional input chain info. If not provided, will fetch from API
+ * @returns The signed permit to attach to the swap request
+ */
+export async function signPermit(
+  quoteResponse: QuoteResponse,
+  signer: TypedDataSigner | DigestSigner,
+  userAddress: string,
+  config: PermitConfig,
+  baseUrl: string = AORI_API,
+  apiKey?: string,
+  { signal, retry, transport }: RequestOptions = {},
+  inputChain?: ChainInfo
+): Promise<PermitSignature> {
+  if (isNativeToken(quoteResponse.inputToken)) {
+    throw new AoriValidationError("Native tokens do not support permits", { field: 'inputToken' });
+  }
+
+  const chain = inputChain ?? await getChain(quoteResponse.inputChain, baseUrl, apiKey, { signal, retry, transport });
+  const spender = config.spender ?? chain.address;
+  const deadline = config.deadline ?? Number(quoteResponse.endTime);
+  const token = quoteResponse.inputToken;
+  const owner = quoteResponse.offerer;
+
+  if (config.type === 'eip2612') {
+    let tokenName: string;
+    let tokenVersion = "1";
+    let nonce: bigint;
+    try {
+      [tokenName] = PERMIT_INTERFACE.decodeFunctionResult('name', await config.txExecutor.call({
+        to: token,
+        data: PERMIT_INTERFACE.encodeFunctionData('name')
+      }));
+      [nonce] = PERMIT_INTERFACE.decodeFunctionResult('nonces', await config.txExecutor.call({
+        to: token,
+        data: PERMIT_INTERFACE.encodeFunctionData('nonces', [owner])
+      }));
+    } catch (error) {
+      throw new AoriValidationError(
+        `Token ${token} does not support EIP-2612 permits: ${error instanceof Error ? error.message : String(error)}`,
+        { field: 'permit' }
+      );
+    }
+
+    try {
+      [tokenVersion] = PERMIT_INTERFACE.decodeFunctionResult('version', await config.txExecutor.call({
+        to: token,
+        data: PERMIT_INTERFACE.encodeFunctionData('version')
+      }));
+    } catch {
+      // version() is optional, most permit tokens use "1"
+    }
+
+    const typedData = createPermitTypedData(quoteResponse, {
+      type: 'eip2612',
+      chainId: chain.chainId,
+      spender,
+      nonce,
+      deadline,
+      tokenName,
+      tokenVersion
+    });
+    const signature = await signTypedDataWith(signer, userAddress, typedData);
+
+    return {
+      type: 'eip2612',
+      token,
+      owner,
+      spender,
+      value: BigInt(quoteResponse.inputAmount).toString(),
+      nonce: nonce.toString(),
+      deadline,
+      signature
+    };
+  }
+
+  // Permit2 pulls the tokens itself, so it needs a regular allowance from the owner
+  const allowance = await getAllowance(token, owner, PERMIT2_ADDRESS, config.txExecutor);
+  if (allowance < BigInt(quoteResponse.inputAmount)) {
+    throw new AoriValidationError(`Token ${token} is not approved for Permit2`, { field: 'permit' });
+  }
+
+  // Signature transfers use unordered nonces, so a random one won't collide with earlier permits
+  const nonce = ethers.toBigInt(ethers.randomBytes(32));
+  const typedData = createPermitTypedData(quoteResponse, {
+    type: 'permit2',
+    chainId: chain.chainId,
+    spender,
+    nonce,
+    deadline
+  });
+  const signature = await signTypedDataWith(signer, userAddress, typedData);
+
+  return {
+    type: 'permit2',
+    token,
+    owner,
+    spender,
+    amount: BigInt(quoteResponse.inputAmount).toString(),
+    nonce: nonce.toString(),
+    deadline,
+    signature
+  };
+}
+
+//////////////////////////////////////////////////////////////*/
+//                     SUBMIT A SWAP
+//////////////////////////////////////////////////////////////*/
+
+export async function submitSwap(
+  request: SwapRequest,
+  baseUrl: string = AORI_API,
+  apiKey?: string,
+  { signal, retry, transport }: RequestOptions = {},
+): Promise<SwapResponse> {
+  try {
+
+    const response = await http({
+      method: 'POST',
+      url: new URL('swap', baseUrl),
+      headers: buildHeaders(apiKey),
+      signal,
+      retry,
+      transport,
+      data: {
+        orderHash: request.orderHash,
+        signature: request.signature,
+        ...(request.permit && { permit: request.permit }),
+      }
+    });
+
+    const data = response.data;
+
+    // Check if this is a native deposit response (has to, data, value fields)
+    const isNativeResponse = data.to && data.data && data.value;
+
+    if (isNativeResponse) {
+      // Native deposit response
+      return {
+        orderHash: data.orderHash,
+        offerer: data.offerer,
         recipient: data.recipient,
         inputToken: data.inputToken,
         outputToken: data.outputToken,
@@ -778,7 +1572,188 @@ export async function submitSwap(
       };
     }
   } catch (error) {
-    throw new Error(`Swap request failed: ${error}`);
+    throw withErrorContext(error, 'Swap request failed');
+  }
+}
+
+////////////////////////////////////////////////////////////////*/
+//                      TOKEN ALLOWANCE
+//////////////////////////////////////////////////////////////*/
+
+const ERC20_INTERFACE = new ethers.Interface([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+]);
+
+/**
+ * Reads the ERC20 allowance an owner has granted to a spender
+ * @param token The ERC20 token address
+ * @param owner The token owner
+ * @param spender The approved spender
+ * @param txExecutor An executor that can perform read-only contract calls
+ * @returns The allowance in token base units
+ */
+export async function getAllowance(
+  token: string,
+  owner: string,
+  spender: string,
+  txExecutor: Pick<ContractTxExecutor, 'call'>
+): Promise<bigint> {
+  try {
+    const result = await txExecutor.call({
+      to: token,
+      data: ERC20_INTERFACE.encodeFunctionData('allowance', [owner, spender])
+    });
+    const [allowance] = ERC20_INTERFACE.decodeFunctionResult('allowance', result);
+    return allowance;
+  } catch (error) {
+    throw withErrorContext(error, 'Failed to read token allowance');
+  }
+}
+
+/**
+ * Builds an ERC20 approve transaction
+ * @param token The ERC20 token address
+ * @param spender The address to approve
+ * @param amount The amount to approve in token base units
+ * @returns The approve transaction request
+ */
+export function buildApproveTransaction(
+  token: string,
+  spender: string,
+  amount: string | bigint
+): TransactionRequest {
+  return {
+    to: token,
+    data: ERC20_INTERFACE.encodeFunctionData('approve', [spender, BigInt(amount)]),
+    value: "0"
+  };
+}
+
+/**
+ * Checks whether the offerer of a quote has approved the Aori contract for the input amount
+ * @param quote The quote response for an ERC20 swap
+ * @param txExecutor An executor that can perform read-only contract calls
+ * @param spender Optional address to check. Defaults to the Aori contract on the input chain
+ * @param baseUrl The base URL of the API (used to look up the Aori contract)
+ * @param apiKey Optional API key for authentication
+ * @param options Optional parameters including AbortSignal
+ * @returns The allowance check, including the approve transaction if the allowance is insufficient
+ */
+export async function checkAllowance(
+  quote: QuoteResponse,
+  txExecutor: Pick<ContractTxExecutor, 'call'>,
+  spender?: string,
+  baseUrl: string = AORI_API,
+  apiKey?: string,
+  { signal, retry, transport }: RequestOptions = {}
+): Promise<AllowanceCheck> {
+  if (isNativeToken(quote.inputToken)) {
+    throw new AoriValidationError("Native tokens do not require an allowance", { field: 'inputToken' });
+  }
+
+  const resolvedSpender = spender ?? (await getChain(quote.inputChain, baseUrl, apiKey, { signal, retry, transport })).address;
+  const allowance = await getAllowance(quote.inputToken, quote.offerer, resolvedSpender, txExecutor);
+  const required = BigInt(quote.inputAmount);
+  const sufficient = allowance >= required;
+
+  return {
+    token: quote.inputToken,
+    owner: quote.offerer,
+    spender: resolvedSpender,
+    allowance: allowance.toString(),
+    required: required.toString(),
+    sufficient,
+    ...(!sufficient && { approveTx: buildApproveTransaction(quote.inputToken, resolvedSpender, required) })
+  };
+}
+
+/**
+ * Checks if an executeSwap result is an approval request rather than a submitted swap
+ * @param result The result of executeSwap
+ * @returns True if the allowance was insufficient and the approve transaction was returned
+ */
+export function isApprovalRequired(result: unknown): result is ApprovalRequiredResponse {
+  return typeof result === 'object' && result !== null && (result as ApprovalRequiredResponse).approvalRequired === true;
+}
+
+/**
+ * Sends an approve transaction and waits for it to be mined
+ */
+async function sendApproval(
+  approveTx: TransactionRequest,
+  txExecutor: TxExecutor,
+  gasLimit?: string,
+  fees?: FeeStrategy,
+  chain?: string
+): Promise<void> {
+  try {
+    // Approvals are cheap, so a fixed limit is a safe fallback when estimation fails
+    const transactionRequest = await applyFeeStrategy({ ...approveTx, gasLimit }, txExecutor, fees, chain, DEFAULT_APPROVE_GAS_LIMIT);
+
+    const tx = await txExecutor.sendTransaction(transactionRequest);
+    const receipt = await tx.wait();
+
+    // ethers throws on reverted transactions, but other clients report the status on the receipt
+    if (receipt?.status === 0 || receipt?.status === 'reverted') {
+      throw new AoriError(`Approve transaction ${tx.hash} reverted`);
+    }
+  } catch (error) {
+    throw withErrorContext(error, 'Token approval failed');
+  }
+}
+
+////////////////////////////////////////////////////////////////*/
+//                       SMART ACCOUNTS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Executes a native token deposit from a smart account as a UserOperation or Safe transaction
+ * @param nativeResponse The native swap response containing transaction data
+ * @param account The smart account executor
+ * @param onSent Optional callback receiving the operation hash once the operation is sent
+ * @returns Transaction response with the hash of the including transaction and the operation hash
+ */
+export async function executeSmartAccountDeposit(
+  nativeResponse: NativeSwapResponse,
+  account: SmartAccountExecutor,
+  onSent?: (operationHash: string) => void | Promise<void>
+): Promise<TransactionResponse> {
+  let operationHash: string | undefined;
+  try {
+    validateNativeSwapResponse(nativeResponse);
+
+    operationHash = await account.sendCalls([{
+      to: nativeResponse.to,
+      data: nativeResponse.data,
+      value: nativeResponse.value
+    }]);
+    await onSent?.(operationHash);
+
+    // The operation hash only identifies the operation; the deposit happens in the transaction that includes it
+    const receipt = await account.waitForOperation(operationHash);
+
+    if (!receipt.success) {
+      return {
+        success: false,
+        txHash: receipt.transactionHash,
+        operationHash,
+        error: `Operation ${operationHash} reverted in transaction ${receipt.transactionHash}`
+      };
+    }
+
+    return {
+      success: true,
+      txHash: receipt.transactionHash,
+      operationHash
+    };
+  } catch (error) {
+    return {
+      success: false,
+      txHash: "",
+      ...(operationHash && { operationHash }),
+      error: error instanceof Error ? error.message : String(error)
+    };
   }
 }
 
@@ -793,94 +1768,255 @@ export async function submitSwap(
  * @param baseUrl The base URL of the API
  * @param apiKey Optional API key for authentication
  * @param options Optional parameters including AbortSignal
- * @returns TransactionResponse for native tokens (after execution) or SwapResponse for ERC20 tokens
+ * @param executeOptions Whether failures are thrown or returned, and a callback notified when the swap enters
+ * the approval, signing, submission and deposit steps
+ * @returns The submitted order with its native deposit transaction, the approve transaction if the allowance is
+ * insufficient and the approval mode is 'return', or the failure if throwOnError is false
+ * @throws AoriSwapError if the swap fails, unless throwOnError is false
  */
 export async function executeSwap(
   quote: QuoteResponse,
   config: SwapConfig,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {}
-): Promise<TransactionResponse | SwapResponse> {
+  { signal, retry, transport }: RequestOptions = {},
+  { throwOnError = true, onStep, chains, domain, verifyHashes }: ExecuteSwapOptions = {}
+): Promise<SwapExecutionResult> {
+  const { orderHash } = quote;
+  // Cached chains save fetching them for every swap
+  const resolveChain = async (chain: string) =>
+    chains?.[chain.toLowerCase()] ?? await getChain(chain, baseUrl, apiKey, { signal, retry, transport });
+  const signOrderWith = async (signer: TypedDataSigner | DigestSigner, userAddress: string) =>
+    await signReadableOrder(
+      quote,
+      signer,
+      userAddress,
+      baseUrl,
+      apiKey,
+      chains?.[quote.inputChain.toLowerCase()],
+      chains?.[quote.outputChain.toLowerCase()],
+      domain,
+      { signal, retry, transport, verifyHashes }
+    );
+  // Progress of the swap, reported with failures
+  let step: SwapExecutionStep = 'validating';
+  let swapResponse: SwapResponse | undefined;
+  let depositTx: TransactionResponse | undefined;
+
+  const enter = async (next: SwapStep) => {
+    step = next.step === 'submitted' ? 'submitting' : next.step;
+    await onStep?.(next);
+  };
+
   try {
+    // Reject quotes whose output is too low before anything is signed or sent
+    if (config.slippage) {
+      validateQuoteOutput(quote, config.slippage);
+    }
+
+    // Smart account flow: signing and deposits go through the account
+    if (config.type === 'smartAccount') {
+      if (quote.offerer.toLowerCase() !== config.account.address.toLowerCase()) {
+        throw new AoriValidationError("Smart account address does not match the quote offerer", { field: 'offerer' });
+      }
+
+      // Check the account's chain before signing, so a wrong chain doesn't leave an order without a deposit
+      if (config.account.getChainId) {
+        await ensureChain(config.account, (await resolveChain(quote.inputChain)).chainId);
+      }
+
+      // Native deposits need no signature, ERC20 orders are signed for EIP-1271 validation
+      let signature = "";
+      if (!isNativeToken(quote.inputToken)) {
+        await enter({ step: 'signing' });
+        ({ signature } = await signOrderWith(config.account, config.account.address));
+      }
+
+      step = 'submitting';
+      const response = await submitSwap(
+        {
+          orderHash: quote.orderHash,
+          signature
+        },
+        baseUrl,
+        apiKey,
+        { signal, retry, transport }
+      );
+      swapResponse = response;
+
+      await enter({ step: 'submitted', swap: response });
+
+      if (isNativeToken(quote.inputToken)) {
+        if (!isNativeSwapResponse(response)) {
+          throw new AoriValidationError("Expected native deposit response but received standard ERC20 response");
+        }
+
+        // The depositing step is entered once the operation is sent, so a stored swap never claims an unsent deposit
+        step = 'depositing';
+        depositTx = await executeSmartAccountDeposit(response, config.account, async (txHash) => await enter({ step: 'depositing', swap: response, txHash }));
+        return submittedDeposit(depositTx);
+      }
+
+      if (!isERC20SwapResponse(response)) {
+        throw new AoriValidationError("Unexpected native token response for ERC20 swap request");
+      }
+
+      return { outcome: 'submitted', orderHash, swap: response };
+    }
+
     // Native token flow (no signature required)
     if (config.type === 'native') {
       // Validate that the input token is actually native
       if (!isNativeToken(quote.inputToken)) {
-        throw new Error("Native swap config provided but input token is not native token");
+        throw new AoriValidationError("Native swap config provided but input token is not native token", { field: 'inputToken' });
       }
 
       // Validate it's a native swap
       if (!isNativeSwap(quote)) {
-        throw new Error("Quote response indicates ERC20 swap, not native token");
+        throw new AoriValidationError("Quote response indicates ERC20 swap, not native token");
+      }
+
+      // Check the executor's chain before submitting, so a wrong chain doesn't leave an order without a deposit
+      const chainId = config.txExecutor.getChainId
+        ? (await resolveChain(quote.inputChain)).chainId
+        : undefined;
+      if (chainId !== undefined) {
+        await ensureChain(config.txExecutor, chainId);
       }
 
       // Submit swap with empty signature (native swaps don't require signatures)
-      const swapResponse = await submitSwap(
+      step = 'submitting';
+      const response = await submitSwap(
         {
           orderHash: quote.orderHash,
           signature: "" // Empty signature for native swaps
         },
         baseUrl,
         apiKey,
-        { signal }
+        { signal, retry, transport }
       );
+      swapResponse = response;
 
       // Validate response type
-      if (!isNativeSwapResponse(swapResponse)) {
-        throw new Error("Expected native deposit response but received standard ERC20 response");
+      if (!isNativeSwapResponse(response)) {
+        throw new AoriValidationError("Expected native deposit response but received standard ERC20 response");
       }
-
-      // Execute the native deposit transaction
-      return await executeNativeSwap(swapResponse, config.txExecutor, config.gasLimit);
+      await enter({ step: 'submitted', swap: response });
+
+      // Execute the native deposit transaction. The depositing step is entered once it is sent, with its hash.
+      step = 'depositing';
+      depositTx = await executeNativeSwap(
+        response,
+        config.txExecutor,
+        config.gasLimit,
+        chainId,
+        config.fees,
+        config.monitor,
+        async (txHash) => await enter({ step: 'depositing', swap: response, txHash })
+      );
+      return submittedDeposit(depositTx);
 
     } else {
       // ERC20 token flow
       // Validate that the input token is not native
       if (isNativeToken(quote.inputToken)) {
-        throw new Error("ERC20 swap config provided but input token is native token");
+        throw new AoriValidationError("ERC20 swap config provided but input token is native token", { field: 'inputToken' });
       }
 
+      if (config.approval && config.permit) {
+        throw new AoriValidationError("Provide either an approval or a permit config, not both", { field: 'permit' });
+      }
+
+      // Make sure the Aori contract can pull the input tokens before signing the order
+      if (config.approval) {
+        const { txExecutor, mode = 'execute', amount = 'exact', spender, gasLimit, fees } = config.approval;
+        if (txExecutor.getChainId) {
+          const { chainId } = await resolveChain(quote.inputChain);
+          await ensureChain(txExecutor, chainId);
+        }
+
+        const allowance = await checkAllowance(quote, txExecutor, spender, baseUrl, apiKey, { signal, retry, transport });
+
+        if (!allowance.sufficient) {
+          const approveTx = buildApproveTransaction(
+            allowance.token,
+            allowance.spender,
+            amount === 'max' ? ethers.MaxUint256 : allowance.required
+          );
+
+          if (mode === 'return') {
+            return { outcome: 'approvalRequired', approvalRequired: true, orderHash, allowance, approveTx };
+          }
+
+          await enter({ step: 'approving', allowance });
+          await sendApproval(approveTx, txExecutor, gasLimit, fees, quote.inputChain);
+        }
+      }
+
+      // Sign a permit instead of approving on-chain
+      await enter({ step: 'signing' });
+      const permit = config.permit
+        ? await signPermit(quote, config.signer, config.userAddress, config.permit, baseUrl, apiKey, { signal, retry, transport }, chains?.[quote.inputChain.toLowerCase()])
+        : undefined;
+
       // Sign the order using EIP-712 typed data
-      const { signature } = await signReadableOrder(
-        quote,
-        config.signer,
-        config.userAddress,
-        baseUrl,
-        apiKey
-      );
+      const { signature } = await signOrderWith(config.signer, config.userAddress);
 
       // Submit the swap request
-      const swapResponse = await submitSwap(
+      step = 'submitting';
+      const response = await submitSwap(
         {
           orderHash: quote.orderHash,
-          signature
+          signature,
+          ...(permit && { permit })
         },
         baseUrl,
         apiKey,
-        { signal }
+        { signal, retry, transport }
       );
+      swapResponse = response;
 
       // Validate response type
-      if (!isERC20SwapResponse(swapResponse)) {
-        throw new Error("Unexpected native token response for ERC20 swap request");
+      if (!isERC20SwapResponse(response)) {
+        throw new AoriValidationError("Unexpected native token response for ERC20 swap request");
       }
+      await enter({ step: 'submitted', swap: response });
 
-      return swapResponse;
+      return { outcome: 'submitted', orderHash, swap: response };
     }
 
   } catch (error) {
-    // For native tokens, return a TransactionResponse format for consistency
-    if (config.type === 'native') {
-      return {
-        success: false,
-        txHash: "",
-        error: error instanceof Error ? error.message : String(error)
-      };
+    // Let caller-initiated aborts propagate untouched
+    if (throwOnError && isAbortError(error)) {
+      throw error;
     }
 
-    // For ERC20 tokens, re-throw the error
-    throw error;
+    const swapError = new AoriSwapError(error instanceof Error ? error.message : String(error), {
+      step,
+      orderHash,
+      swap: swapResponse,
+      depositTx,
+      cause: error
+    });
+    if (throwOnError) {
+      throw swapError;
+    }
+
+    return {
+      outcome: 'failed',
+      orderHash,
+      ...(swapResponse && { swap: swapResponse }),
+      ...(depositTx && { depositTx }),
+      error: swapError
+    };
+  }
+
+  // Deposits report failures in the transaction response
+  function submittedDeposit(transaction: TransactionResponse): SwapExecutionResult {
+    if (!transaction.success) {
+      throw new AoriError(transaction.error ?? "Deposit transaction failed");
+    }
+    return { outcome: 'submitted', orderHash, swap: swapResponse!, depositTx: transaction };
   }
 }
 
@@ -894,6 +2030,7 @@ export async function executeSwap(
  * @param chains Optional chains object (if not provided, will fetch from API)
  * @param baseUrl The base URL of the API (for fetching chains if not cached)
  * @param apiKey Optional API key for authentication
+ * @param options Optional parameters including AbortSignal, used when fetching chains
  * @returns The contract-compliant order struct
  * 
  * @example
@@ -911,7 +2048,8 @@ export async function parseOrder(
   order: QuoteResponse | SwapResponse | OrderDetails,
   chains?: Record<string, ChainInfo>,
   baseUrl: string = AORI_API,
-  apiKey?: string
+  apiKey?: string,
+  { signal, retry, transport }: RequestOptions = {}
 ): Promise<Order> {
   let inputChain: ChainInfo;
   let outputChain: ChainInfo;
@@ -922,20 +2060,20 @@ export async function parseOrder(
     outputChain = chains[order.outputChain.toLowerCase()];
 
     if (!inputChain) {
-      throw new Error(`Input chain '${order.inputChain}' not found in provided chains`);
+      throw new AoriValidationError(`Input chain '${order.inputChain}' not found in provided chains`, { field: 'inputChain' });
     }
     if (!outputChain) {
-      throw new Error(`Output chain '${order.outputChain}' not found in provided chains`);
+      throw new AoriValidationError(`Output chain '${order.outputChain}' not found in provided chains`, { field: 'outputChain' });
     }
   } else {
     // Fetch chains from API (stateless usage)
     try {
       [inputChain, outputChain] = await Promise.all([
-        getChain(order.inputChain, baseUrl, apiKey),
-        getChain(order.outputChain, baseUrl, apiKey)
+        getChain(order.inputChain, baseUrl, apiKey, { signal, retry, transport }),
+        getChain(order.outputChain, baseUrl, apiKey, { signal, retry, transport })
       ]);
     } catch (error) {
-      throw new Error(`Failed to fetch chain information: ${error}`);
+      throw withErrorContext(error, 'Failed to fetch chain information');
     }
   }
 
@@ -968,45 +2106,73 @@ export async function getOrderStatus(
   orderHash: string,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
+  { signal, retry, transport }: RequestOptions = {},
 ): Promise<OrderStatus> {
   try {
     const response = await http({
       method: 'GET',
       url: new URL(`data/status/${orderHash}`, baseUrl),
       headers: buildHeaders(apiKey),
-      signal
+      signal,
+      retry,
+      transport,
     });
     return response.data;
   } catch (error) {
-    throw new Error(`Failed to fetch order status: ${error}`);
+    throw withErrorContext(error, 'Failed to fetch order status');
   }
 }
 
 /**
- * Polls the order status until it's completed, failed, or times out
+ * Polls the order status until it reaches a terminal state, or times out.
+ * By default polling ends when the order is completed, failed or cancelled. With `detectExpiry`,
+ * it also ends with an 'expired' status when the order's endTime passes while it is still pending.
  * @param orderHash The hash of the order to poll
  * @param baseUrl The base URL of the API
  * @param options Polling options and callbacks
  * @param apiKey Optional API key for authentication
  * @returns A promise that resolves with the final order status
  */
+export async function pollOrderStatus(
+  orderHash: string,
+  baseUrl: string | undefined,
+  options: ExpiringPollOrderStatusOptions,
+  apiKey?: string,
+  requestOptions?: RequestOptions,
+): Promise<OrderStatus | ExpiredOrderStatus>;
+// eslint-disable-next-line no-redeclare
+export async function pollOrderStatus(
+  orderHash: string,
+  baseUrl?: string,
+  options?: PollOrderStatusOptions,
+  apiKey?: string,
+  requestOptions?: RequestOptions,
+): Promise<OrderStatus>;
+// eslint-disable-next-line no-redeclare
 export async function pollOrderStatus(
   orderHash: string,
   baseUrl: string = AORI_API,
-  options: PollOrderStatusOptions = {},
+  options: PollOrderStatusOptions | ExpiringPollOrderStatusOptions = {},
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
-): Promise<OrderStatus> {
+  { signal, retry, transport }: RequestOptions = {},
+): Promise<OrderStatus | ExpiredOrderStatus> {
   const {
     onStatusChange,
     onComplete,
     onError,
     interval = 500,
-    timeout = 60000
-  } = options;
+    timeout = 60000,
+    terminalStates = ['completed', 'failed', 'cancelled'],
+    backoffMultiplier = 1,
+    maxInterval = 10000
+  } = options as Omit<ExpiringPollOrderStatusOptions, 'detectExpiry'>;
+  const expiryOptions = 'detectExpiry' in options && options.detectExpiry ? options : undefined;
 
   let lastStatus: string | null = null;
+  let endTime = expiryOptions?.endTime;
+  // The order details are only requested when expiry is detected
+  let endTimeResolved = !expiryOptions || endTime !== undefined;
+  let delay = interval;
   const startTime = Date.now();
 
   return new Promise((resolve, reject) => {
@@ -1014,14 +2180,28 @@ export async function pollOrderStatus(
       try {
         // Check if we've exceeded the timeout
         if (Date.now() - startTime > timeout) {
-          const error = new Error('Order status polling timed out');
+          const error = new AoriTimeoutError('Order status polling timed out', { timeout });
           onError?.(error);
           reject(error);
           return;
         }
 
+        // Look up the endTime once, so expired orders are not polled until the timeout
+        if (!endTimeResolved) {
+          endTimeResolved = true;
+          try {
+            endTime = (await getOrderDetails(orderHash, baseUrl, apiKey, { signal, retry, transport })).endTime;
+          } catch (error) {
+            // Without details (e.g. not indexed yet) expiry cannot be detected, but polling still works
+          }
+        }
+
         // Use the getOrderStatus function with apiKey
-        const status = await getOrderStatus(orderHash, baseUrl, apiKey, { signal });
+        let status: OrderStatus | ExpiredOrderStatus = await getOrderStatus(orderHash, baseUrl, apiKey, { signal, retry, transport });
+
+        if (status.status === 'pending' && endTime !== undefined && Date.now() / 1000 > endTime) {
+          status = { status: 'expired', endTime, timestamp: endTime };
+        }
 
         // Notify if status has changed
         if (status.status !== lastStatus) {
@@ -1029,15 +2209,16 @@ export async function pollOrderStatus(
           onStatusChange?.(status);
         }
 
-        // Check for completed or failed status
-        if (status.status === 'completed' || status.status === 'failed') {
+        // Check for a terminal status. Expired orders stay pending, so polling them is pointless
+        if (terminalStates.includes(status.status) || status.status === 'expired') {
           onComplete?.(status);
           resolve(status);
           return;
         }
 
-        // Continue polling
-        setTimeout(checkStatus, interval);
+        // Continue polling, backing off if configured
+        setTimeout(checkStatus, delay);
+        delay = Math.min(delay * backoffMultiplier, Math.max(interval, maxInterval));
 
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
@@ -1051,6 +2232,196 @@ export async function pollOrderStatus(
   });
 }
 
+////////////////////////////////////////////////////////////////*/
+//                      WAIT FOR ORDER
+//////////////////////////////////////////////////////////////*/
+
+// Longest delay setTimeout supports
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Waits until an order reaches a status, racing WebSocket events against polling.
+ * Each WebSocket event for the order triggers an immediate status check, while polling with
+ * exponential backoff keeps making progress when the socket is unavailable. Network errors, timeouts
+ * and retryable API errors don't end the wait: the next poll tries again until the deadline.
+ * Resolves with the first terminal status: the awaited status, or 'failed' / 'cancelled'.
+ * @param orderHash The hash of the order to wait for
+ * @param baseUrl The base URL of the API
+ * @param options The status to wait for, deadline, polling intervals and WebSocket subscription
+ * @param apiKey Optional API key for authentication
+ * @returns A promise that resolves with the terminal order status
+ * @throws AoriTimeoutError if the deadline passes first
+ * @throws AoriApiError if a request fails with a status that isn't retried
+ */
+export async function waitForOrder(
+  orderHash: string,
+  baseUrl: string = AORI_API,
+  options: WaitForOrderOptions = {},
+  apiKey?: string,
+  { signal, retry, transport }: RequestOptions = {},
+): Promise<OrderStatus> {
+  const {
+    until = 'completed',
+    pollInterval = 1000,
+    maxPollInterval = 15000,
+    onStatusChange,
+    subscribe
+  } = options;
+
+  const requestOptions = { signal, retry, transport };
+  const terminalStatuses = until === 'received'
+    ? ['received', 'completed', 'failed', 'cancelled']
+    : ['completed', 'failed', 'cancelled'];
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let checking = false;
+    let recheck = false;
+    let lastStatus: string | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+    let subscription: { unsubscribe(): void } | undefined;
+    const startedAt = Date.now();
+
+    const settle = (finish: () => void) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(pollTimer);
+      clearTimeout(deadlineTimer);
+      subscription?.unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+      finish();
+    };
+
+    const onAbort = () => settle(() => reject(signal?.reason));
+
+    const check = async (): Promise<void> => {
+      // Coalesce checks triggered while a request is in flight into one follow-up check
+      if (checking) {
+        recheck = true;
+        return;
+      }
+
+      checking = true;
+      try {
+        const status = await getOrderStatus(orderHash, baseUrl, apiKey, requestOptions);
+        if (settled) {
+          return;
+        }
+
+        if (status.status !== lastStatus) {
+          lastStatus = status.status;
+          onStatusChange?.(status);
+        }
+
+        if (terminalStatuses.includes(status.status)) {
+          settle(() => resolve(status));
+        }
+      } catch (error) {
+        // Transient failures are retried by the next poll
+        if (!isTransientError(error, retry)) {
+          settle(() => reject(error));
+        }
+      } finally {
+        checking = false;
+        if (recheck && !settled) {
+          recheck = false;
+          await check();
+        }
+      }
+    };
+
+    // Looks up the order's endTime as the deadline, unless one was given
+    let needsDeadline = options.deadline === undefined;
+    const resolveDeadline = async () => {
+      try {
+        const { endTime } = await getOrderDetails(orderHash, baseUrl, apiKey, requestOptions);
+        needsDeadline = false;
+        if (!settled) {
+          armDeadline(endTime);
+        }
+      } catch (error) {
+        if (error instanceof AoriApiError && error.status === 404) {
+          // Orders that are not indexed yet have no details, so wait without a deadline
+          needsDeadline = false;
+        } else if (!isTransientError(error, retry)) {
+          settle(() => reject(error));
+        }
+        // Transient failures are retried by the next poll
+      }
+    };
+
+    const poll = (delay: number) => {
+      pollTimer = setTimeout(async () => {
+        if (needsDeadline) {
+          await resolveDeadline();
+        }
+        if (!settled) {
+          await check();
+        }
+        if (!settled) {
+          poll(Math.min(delay * 2, maxPollInterval));
+        }
+      }, delay);
+    };
+
+    const armDeadline = (deadline: number) => {
+      const remaining = deadline * 1000 - Date.now();
+      deadlineTimer = setTimeout(async () => {
+        if (Date.now() < deadline * 1000) {
+          armDeadline(deadline);
+          return;
+        }
+
+        // The order may have settled right before the deadline, so check once more before giving up
+        await check();
+        settle(() => reject(new AoriTimeoutError(
+          `Order ${orderHash} did not reach '${until}' before its deadline`,
+          { timeout: Math.max(0, deadline * 1000 - startedAt) }
+        )));
+      }, Math.min(Math.max(0, remaining), MAX_TIMER_DELAY));
+    };
+
+    const start = async () => {
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Subscribe first so no event is missed while the first status check is in flight
+      subscription = subscribe?.({ orderHash }, {
+        onMessage: (event) => {
+          if (event.order?.orderHash?.toLowerCase() === orderHash.toLowerCase()) {
+            void check();
+          }
+        },
+        // Events may have been missed while the socket was reconnecting
+        onConnect: () => void check()
+      });
+
+      if (options.deadline !== undefined) {
+        armDeadline(options.deadline);
+      } else {
+        await resolveDeadline();
+      }
+
+      if (settled) {
+        return;
+      }
+
+      await check();
+      if (!settled) {
+        poll(pollInterval);
+      }
+    };
+
+    void start();
+  });
+}
+
 ////////////////////////////////////////////////////////////////*/
 //                   GET ORDER DETAILS
 //////////////////////////////////////////////////////////////*/
@@ -1066,18 +2437,20 @@ export async function getOrderDetails(
   orderHash: string,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
+  { signal, retry, transport }: RequestOptions = {},
 ): Promise<OrderDetails> {
   try {
     const response = await http({
       method: 'GET',
       url: new URL(`data/details/${orderHash}`, baseUrl),
       headers: buildHeaders(apiKey),
-      signal
+      signal,
+      retry,
+      transport,
     });
     return response.data;
   } catch (error) {
-    throw new Error(`Failed to fetch order details: ${error}`);
+    throw withErrorContext(error, 'Failed to fetch order details');
   }
 }
 
@@ -1095,10 +2468,10 @@ export async function getOrder(
   chains?: Record<string, ChainInfo>,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {}
+  { signal, retry, transport }: RequestOptions = {}
 ): Promise<Order> {
-  const orderDetails = await getOrderDetails(orderHash, baseUrl, apiKey, { signal });
-  return await parseOrder(orderDetails, chains, baseUrl, apiKey);
+  const orderDetails = await getOrderDetails(orderHash, baseUrl, apiKey, { signal, retry, transport });
+  return await parseOrder(orderDetails, chains, baseUrl, apiKey, { signal, retry, transport });
 }
 
 ////////////////////////////////////////////////////////////////*/
@@ -1118,7 +2491,7 @@ export async function queryOrders(
   baseUrl: string,
   params: QueryOrdersParams,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {},
+  { signal, retry, transport }: RequestOptions = {},
 ): Promise<QueryOrdersResponse> {
   try {
 
@@ -1132,7 +2505,7 @@ export async function queryOrders(
           try {
             formattedValue = ethers.getAddress(value); // This checksums the address
           } catch (error) {
-            throw new Error(`Invalid address format for ${key}: ${value}`);
+            throw new AoriValidationError(`Invalid address format for ${key}: ${value}`, { field: key });
           }
         }
         // Lowercase chain names
@@ -1152,12 +2525,14 @@ export async function queryOrders(
       url,
       headers: buildHeaders(apiKey),
       signal,
+      retry,
+      transport,
     });
 
     return response.data;
   } catch (error) {
-    if (error instanceof HttpError) {
-      if (error.response.status === 404) {
+    if (error instanceof AoriApiError) {
+      if (error.status === 404) {
         // Return empty result with pagination
         return {
           orders: [],
@@ -1169,59 +2544,91 @@ export async function queryOrders(
           }
         };
       }
-      throw new Error(`API error: ${error.message}`);
     }
 
-    throw new Error(`Failed to query orders: ${String(error)}`);
+    throw withErrorContext(error, 'Failed to query orders');
   }
 }
 
-async function http<ResponseType = any>({
-  method,
-  url,
-  data,
-  signal,
-  headers,
-}: {
-  method: string;
-  url: URL;
-  data?: any;
-  signal?: AbortSignal;
-  headers?: HeadersInit;
-}) {
-  const response = await fetch(url, {
-    method,
-    body: data ? JSON.stringify(data) : undefined,
-    headers,
-    signal,
-  });
+////////////////////////////////////////////////////////////////*/
+//                        MISSED EVENTS
+//////////////////////////////////////////////////////////////*/
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new HttpError(text, response.status, response);
-  }
+/**
+ * Reconstructs the WebSocket events matching a filter that occurred since a point in time,
+ * e.g. to fill the gap left by a dropped WebSocket connection.
+ * Orders are found with queryOrders and their event history is read from the order details.
+ * @param filter The WebSocket subscription filter
+ * @param since Unix timestamp in seconds. Events at or after this time are returned
+ * @param baseUrl The base URL of the API
+ * @param options How far back to search for orders and how many to fetch
+ * @param apiKey Optional API key for authentication
+ * @returns The missed events, ordered by timestamp
+ */
+export async function getMissedEvents(
+  filter: SubscriptionParams,
+  since: number,
+  baseUrl: string = AORI_API,
+  options: BackfillOptions = {},
+  apiKey?: string,
+  { signal, retry, transport }: RequestOptions = {},
+): Promise<WSEvent[]> {
+  const {
+    lookback = 3600,
+    pageSize = 100,
+    maxPages = 10
+  } = options;
 
-  return {
-    status: response.status,
-    headers: response.headers,
-    data: await response.json() as ResponseType,
-  };
-}
+  const { eventType, ...orderFilter } = filter;
+  const events: WSEvent[] = [];
+
+  for (let page = 1; page <= maxPages; page++) {
+    // minTime filters by creation time, so orders created before the outage need the lookback window
+    const { orders, pagination } = await queryOrders(baseUrl, {
+      ...orderFilter,
+      minTime: Math.max(0, since - lookback),
+      page,
+      limit: pageSize
+    }, apiKey, { signal, retry, transport });
+
+    for (const order of orders) {
+      // The query result timestamp is the order's most recent event, so older orders have nothing to replay
+      if (order.timestamp < since) {
+        continue;
+      }
 
-function buildHeaders(apiKey?: string): HeadersInit {
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-  };
-  if (apiKey) {
-    headers['x-api-key'] = apiKey;
-  }
-  return headers;
-}
+      const details = await getOrderDetails(order.orderHash, baseUrl, apiKey, { signal, retry, transport });
+      for (const event of details.events) {
+        if (event.timestamp >= since && (!eventType || event.eventType === eventType)) {
+          events.push({
+            eventType: event.eventType as WSEventType,
+            timestamp: event.timestamp,
+            order: {
+              orderHash: details.orderHash,
+              offerer: details.offerer,
+              recipient: details.recipient,
+              inputToken: details.inputToken,
+              inputAmount: details.inputAmount,
+              inputChain: details.inputChain,
+              outputToken: details.outputToken,
+              outputAmount: details.outputAmount,
+              outputChain: details.outputChain,
+              startTime: details.startTime,
+              srcTx: details.srcTx ?? '',
+              dstTx: details.dstTx ?? '',
+              endTime: details.endTime
+            }
+          });
+        }
+      }
+    }
 
-class HttpError extends Error {
-  constructor(message: string, public status: number, public response: Response) {
-    super(message);
+    if (page >= pagination.totalPages) {
+      break;
+    }
   }
+
+  return events.sort((a, b) => a.timestamp - b.timestamp);
 }
 
 ////////////////////////////////////////////////////////////////*/
@@ -1243,11 +2650,11 @@ export async function canCancel(
   orderDetails?: OrderDetails,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {}
+  { signal, retry, transport }: RequestOptions = {}
 ): Promise<boolean> {
   try {
     // Use provided order details or fetch them if not provided
-    const resolvedOrderDetails = orderDetails || await getOrderDetails(orderHash, baseUrl, apiKey, { signal });
+    const resolvedOrderDetails = orderDetails || await getOrderDetails(orderHash, baseUrl, apiKey, { signal, retry, transport });
 
     if (!resolvedOrderDetails.events || !Array.isArray(resolvedOrderDetails.events)) {
       return false;
@@ -1295,27 +2702,23 @@ export async function getCancelTx(
   orderHash: string,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {}
+  { signal, retry, transport }: RequestOptions = {}
 ): Promise<CancelTx> {
-  try {
-    const response = await http({
-      method: 'POST',
-      url: new URL('cancel', baseUrl),
-      headers: buildHeaders(apiKey),
-      signal,
-      data: {
-        orderHash
-      }
-    });
-
-    return response.data;
-  } catch (error) {
-    // Preserve the original error details from the server
-    if (error instanceof HttpError) {
-      throw new Error(error.message);
+  // Errors are not wrapped so the original error details from the server are preserved
+  const response = await http({
+    method: 'POST',
+    url: new URL('cancel', baseUrl),
+    headers: buildHeaders(apiKey),
+    signal,
+    retry,
+    transport,
+    idempotent: true, // Only builds the cancel transaction, nothing is submitted
+    data: {
+      orderHash
     }
-    throw error instanceof Error ? error : new Error(String(error));
-  }
+  });
+
+  return response.data;
 }
 
 /**
@@ -1323,10 +2726,14 @@ export async function getCancelTx(
  * @param orderHash Optional order hash string to cancel
  * @param cancelTx Optional pre-fetched CancelTx object
  * @param txExecutor Transaction executor for blockchain operations
- * @param baseUrl The base URL of the API (only used if orderHash provided)
- * @param apiKey Optional API key for authentication (only used if orderHash provided)
+ * @param baseUrl The base URL of the API (used to fetch the cancel transaction and its chain)
+ * @param apiKey Optional API key for authentication
  * @param options Optional parameters including AbortSignal
+ * @param chains Optional chains mapping used to validate the executor's chain without an API call
+ * @param fees Optional gas buffer and EIP-1559 fee settings
+ * @param monitor Optional deadline after which a pending cancellation is sped up or replaced
  * @returns Transaction response with cancellation details
+ * @throws AoriChainMismatchError if the executor is on the wrong chain and can't be switched. A failed cancellation is returned with success false instead
  */
 export async function cancelOrder(
   orderHash: string | undefined,
@@ -1334,12 +2741,15 @@ export async function cancelOrder(
   txExecutor: CancelTxExecutor,
   baseUrl: string = AORI_API,
   apiKey?: string,
-  { signal }: { signal?: AbortSignal } = {}
+  { signal, retry, transport }: RequestOptions = {},
+  chains?: Record<string, ChainInfo>,
+  fees?: FeeStrategy,
+  monitor?: TransactionMonitorOptions
 ): Promise<CancelOrderResponse> {
   try {
     // Validate that at least one parameter is provided
     if (!orderHash && !cancelTx) {
-      throw new Error("No order provided: either orderHash or cancelTx must be specified");
+      throw new AoriValidationError("No order provided: either orderHash or cancelTx must be specified");
     }
 
     let cancelResponse: CancelTx;
@@ -1349,50 +2759,62 @@ export async function cancelOrder(
       cancelResponse = cancelTx;
     } else if (orderHash) {
       // Only orderHash provided, need to fetch cancel data
-      cancelResponse = await getCancelTx(orderHash, baseUrl, apiKey, { signal });
+      cancelResponse = await getCancelTx(orderHash, baseUrl, apiKey, { signal, retry, transport });
     } else {
       // This should never happen due to the earlier validation, but TypeScript doesn't know that
-      throw new Error("No order provided: either orderHash or cancelTx must be specified");
+      throw new AoriValidationError("No order provided: either orderHash or cancelTx must be specified");
     }
 
-    
-
-    // Construct transaction request
-    const transactionRequest: TransactionRequest = {
-      to: cancelResponse.to,
-      data: cancelResponse.data,
-      value: cancelResponse.value
-    };
-
-    // Estimate gas if available
-    if (txExecutor.estimateGas) {
-      try {
-        const estimatedGas = await txExecutor.estimateGas(transactionRequest);
-        // Add 20% buffer to estimated gas
-        const bufferMultiplier = BigInt(120); // 120% = original + 20% buffer
-        const baseMultiplier = BigInt(100);
-        transactionRequest.gasLimit = (estimatedGas * bufferMultiplier / baseMultiplier).toString();
-      } catch (error) {
-        // Conservative fallback gas limit
-        transactionRequest.gasLimit = "400000";
-      }
+    // The cancel transaction must be sent on the chain of the order
+    if (txExecutor.getChainId) {
+      const chain = chains?.[cancelResponse.chain.toLowerCase()]
+        ?? await getChain(cancelResponse.chain, baseUrl, apiKey, { signal, retry, transport });
+      await ensureChain(txExecutor, chain.chainId);
     }
 
-    // Execute transaction
-    const tx = await txExecutor.sendTransaction(transactionRequest);
-    await tx.wait();
+    // Construct the transaction request, estimating gas if available
+    const transactionRequest = await applyFeeStrategy(
+      {
+        to: cancelResponse.to,
+        data: cancelResponse.data,
+        value: cancelResponse.value
+      },
+      txExecutor,
+      fees,
+      cancelResponse.chain,
+      DEFAULT_CANCEL_GAS_LIMIT
+    );
+
+    // Execute transaction, replacing it if it gets stuck
+    const tx = await sendMonitoredTransaction(transactionRequest, txExecutor, monitor);
+    const originalTxHash = tx.hash !== tx.originalHash ? tx.originalHash : undefined;
 
     // Determine if this was cross-chain based on value (cross-chain has LayerZero fees)
     const isCrossChain = cancelResponse.value !== "0";
 
+    if (tx.cancelled) {
+      return {
+        success: false,
+        txHash: tx.hash,
+        originalTxHash,
+        isCrossChain,
+        error: "Cancel transaction was replaced with a self-send"
+      };
+    }
+
     return {
       success: true,
       txHash: tx.hash,
       isCrossChain,
-      ...(isCrossChain && { fee: cancelResponse.value })
+      ...(isCrossChain && { fee: cancelResponse.value }),
+      ...(originalTxHash && { originalTxHash })
     };
 
   } catch (error) {
+    if (error instanceof AoriChainMismatchError) {
+      throw error;
+    }
+
     return {
       success: false,
       txHash: "",
@@ -0,0 +1,285 @@
+import { AoriApiError, AoriError, AoriNetworkError, AoriTimeoutError } from './errors';
+import { HttpRequest, RetryOptions, TransportOptions } from './types';
+
+////////////////////////////////////////////////////////////////*/
+//                        RETRY DEFAULTS
+//////////////////////////////////////////////////////////////*/
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY = 250;
+const DEFAULT_MAX_DELAY = 10000;
+const DEFAULT_RETRY_STATUS = [408, 425, 429, 500, 502, 503, 504];
+
+////////////////////////////////////////////////////////////////*/
+//                        HTTP REQUESTS
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Sends a JSON request to the Aori API through the transport's interceptor chain,
+ * retrying transient failures according to the retry policy
+ * @param idempotent Whether the request can be replayed safely. Defaults to true for GET requests
+ * @returns The response status, headers and parsed JSON body
+ */
+export async function http<ResponseType = any>({
+  method,
+  url,
+  data,
+  signal,
+  headers,
+  retry,
+  transport,
+  idempotent = method === 'GET',
+}: {
+  method: string;
+  url: URL;
+  data?: any;
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  retry?: RetryOptions;
+  transport?: TransportOptions;
+  idempotent?: boolean;
+}) {
+  const dispatch = buildDispatcher(transport);
+  const endpoint = `${method} ${url.pathname}`;
+
+  // Without a retry policy every request is attempted exactly once
+  const maxAttempts = retry ? Math.max(1, retry.maxAttempts ?? DEFAULT_MAX_ATTEMPTS) : 1;
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+
+      try {
+        // Build a fresh request per attempt so interceptors never see another attempt's mutations
+        response = await dispatch({
+          method,
+          url: new URL(url),
+          headers: { ...headers },
+          body: data ? JSON.stringify(data) : undefined,
+          signal,
+        });
+      } catch (error) {
+        // Never retry aborted requests, and only replay non-idempotent requests when explicitly allowed
+        const canRetry = retry
+          && attempt < maxAttempts
+          && !signal?.aborted
+          && (retry.retryOnNetworkError ?? true)
+          && (idempotent || retry.retryNonIdempotent === true);
+
+        if (!canRetry) {
+          throw error;
+        }
+
+        const delay = backoffDelay(attempt, retry);
+        retry.onRetry?.({ attempt, delay, method, url: url.toString(), error });
+        await sleep(delay, signal);
+        continue;
+      }
+
+      if (!response.ok) {
+        const text = await response.text();
+
+        if (retry && attempt < maxAttempts && shouldRetryStatus(response.status, idempotent, retry)) {
+          const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+          const maxDelay = retry.maxDelay ?? DEFAULT_MAX_DELAY;
+          const delay = retryAfter !== undefined
+            ? Math.min(retryAfter, maxDelay)
+            : backoffDelay(attempt, retry);
+
+          retry.onRetry?.({ attempt, delay, method, url: url.toString(), status: response.status });
+          await sleep(delay, signal);
+          continue;
+        }
+
+        throw AoriApiError.fromResponse(response, text, endpoint);
+      }
+
+      return {
+        status: response.status,
+        headers: response.headers,
+        data: await response.json() as ResponseType,
+      };
+    }
+  } catch (error) {
+    throw normalizeRequestError(error, endpoint, signal);
+  }
+}
+
+/**
+ * Converts an error thrown while sending a request into a typed SDK error.
+ * Requests aborted by the caller are rethrown unchanged so `AbortError` handling keeps working.
+ */
+function normalizeRequestError(error: unknown, endpoint: string, signal?: AbortSignal): unknown {
+  if (error instanceof AoriError) {
+    return error;
+  }
+
+  if (signal?.aborted) {
+    // AbortSignal.timeout() aborts with a TimeoutError DOMException, possibly from another realm
+    const reason = signal.reason;
+    if (errorName(reason) === 'TimeoutError') {
+      return new AoriTimeoutError(`${endpoint} timed out: ${errorMessage(reason)}`, { cause: reason });
+    }
+    return error;
+  }
+
+  return new AoriNetworkError(`${endpoint} request failed: ${errorMessage(error)}`, { endpoint, cause: error });
+}
+
+/**
+ * Adds context to an error thrown by an API function while preserving its type
+ * @param error The caught error
+ * @param context Description of the failed operation, e.g. "Quote request failed"
+ * @returns The error to rethrow
+ */
+export function withErrorContext(error: unknown, context: string): unknown {
+  // Let caller-initiated aborts propagate untouched
+  if (isAbortError(error)) {
+    return error;
+  }
+
+  if (error instanceof AoriError) {
+    error.message = `${context}: ${error.message}`;
+    return error;
+  }
+
+  return new AoriError(`${context}: ${errorMessage(error)}`, { cause: error });
+}
+
+/**
+ * Checks if an error is an abort initiated by the caller
+ */
+export function isAbortError(error: unknown): boolean {
+  return errorName(error) === 'AbortError';
+}
+
+function errorName(error: unknown): string | undefined {
+  const name = typeof error === 'object' && error !== null ? (error as { name?: unknown }).name : undefined;
+  return typeof name === 'string' ? name : undefined;
+}
+
+function errorMessage(error: unknown): string {
+  const message = typeof error === 'object' && error !== null ? (error as { message?: unknown }).message : undefined;
+  return typeof message === 'string' ? message : String(error);
+}
+
+/**
+ * Composes the transport's interceptors around its fetch implementation
+ * @returns A function that sends a request through the full chain
+ */
+function buildDispatcher(transport?: TransportOptions): (request: HttpRequest) => Promise<Response> {
+  // Resolve the global fetch lazily so it can be replaced (e.g. mocked) after module load
+  const fetchImpl = transport?.fetch ?? globalThis.fetch;
+
+  const send = (request: HttpRequest) => fetchImpl(request.url, {
+    method: request.method,
+    body: request.body,
+    headers: request.headers,
+    signal: request.signal,
+  });
+
+  return (transport?.interceptors ?? []).reduceRight<(request: HttpRequest) => Promise<Response>>(
+    (next, interceptor) => (request) => interceptor(request, next),
+    send
+  );
+}
+
+export function buildHeaders(apiKey?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (apiKey) {
+    headers['x-api-key'] = apiKey;
+  }
+  return headers;
+}
+
+////////////////////////////////////////////////////////////////*/
+//                        RETRY UTILITIES
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Checks if an error is a transient failure that may succeed when the request is sent again:
+ * a network error, a timeout, or an API error with a status the retry policy retries
+ * @param error The error to check
+ * @param retry The retry policy whose statuses are considered transient
+ */
+export function isTransientError(error: unknown, retry: RetryOptions = {}): boolean {
+  if (error instanceof AoriNetworkError || error instanceof AoriTimeoutError) {
+    return true;
+  }
+
+  return error instanceof AoriApiError && (retry.retryOnStatus ?? DEFAULT_RETRY_STATUS).includes(error.status);
+}
+
+/**
+ * Determines if a failed response should be retried.
+ * Non-idempotent requests (e.g. POST /swap) are only replayed on 429, where the server
+ * has rejected the request without processing it, unless retryNonIdempotent is set.
+ */
+function shouldRetryStatus(status: number, idempotent: boolean, retry: RetryOptions): boolean {
+  const retryOnStatus = retry.retryOnStatus ?? DEFAULT_RETRY_STATUS;
+
+  if (!retryOnStatus.includes(status)) {
+    return false;
+  }
+
+  return idempotent || status === 429 || retry.retryNonIdempotent === true;
+}
+
+/**
+ * Computes the exponential backoff delay for an attempt, with full jitter by default
+ */
+function backoffDelay(attempt: number, retry: RetryOptions): number {
+  const baseDelay = retry.baseDelay ?? DEFAULT_BASE_DELAY;
+  const maxDelay = retry.maxDelay ?? DEFAULT_MAX_DELAY;
+  const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+
+  return retry.jitter === false ? delay : Math.round(Math.random() * delay);
+}
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Waits for the given delay, rejecting early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
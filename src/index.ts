@@ -2,3 +2,14 @@ export * from './types';
 export * from './constants';
 export * from './core';
 export * from './helpers';
+export * from './errors';
+export * from './websocket';
+export * from './subscriptions';
+export * from './stream';
+export * from './backfill';
+export * from './signers';
+export * from './adapters';
+export * from './fees';
+export * from './monitor';
+export * from './swap';
+export * from './storage';
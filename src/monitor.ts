@@ -0,0 +1,194 @@
+import { AoriTimeoutError, AoriValidationError } from './errors';
+import { withErrorContext } from './http';
+import { MonitoredTransaction, TransactionMonitorOptions, TransactionRequest, TxExecutor } from './types';
+import { DEFAULT_FEE_BUMP_PERCENT, DEFAULT_MAX_REPLACEMENTS, SELF_SEND_GAS_LIMIT } from './constants';
+
+interface MinedTransaction {
+  /** Index of the mined transaction in the order they were sent */
+  index: number;
+  receipt: unknown;
+}
+
+/**
+ * Sends a transaction and waits for it to be mined. With monitor options, a transaction still pending after
+ * the timeout is replaced with the same nonce: rebroadcast with bumped fees, or cancelled with a zero-value
+ * self-send. Whichever transaction is mined first is reported, so the final hash can differ from the original.
+ * @param request The transaction request
+ * @param txExecutor The executor sending the transaction
+ * @param monitor Optional deadline and replacement settings. Without them, the transaction is awaited indefinitely
+ * @param onSent Optional callback receiving the hash of the original transaction once it is sent. A returned promise
+ * is awaited before waiting for the transaction to be mined
+ * @returns The mined transaction
+ * @throws AoriTimeoutError if no transaction is mined after the last replacement
+ */
+export async function sendMonitoredTransaction(
+  request: TransactionRequest,
+  txExecutor: TxExecutor,
+  monitor?: TransactionMonitorOptions,
+  onSent?: (hash: string) => void | Promise<void>
+): Promise<MonitoredTransaction> {
+  if (!monitor) {
+    const tx = await txExecutor.sendTransaction(request);
+    await onSent?.(tx.hash);
+    const receipt = await tx.wait();
+    return { hash: tx.hash, originalHash: tx.hash, cancelled: false, receipt };
+  }
+
+  const {
+    timeout,
+    action = 'speedUp',
+    feeBumpPercent = DEFAULT_FEE_BUMP_PERCENT,
+    maxReplacements = DEFAULT_MAX_REPLACEMENTS,
+    onReplaced
+  } = monitor;
+  validateMonitor(request, txExecutor, monitor);
+
+  // Pin the nonce so replacements take the place of the original transaction
+  let current: TransactionRequest = { ...request, nonce: request.nonce ?? await txExecutor.getNonce!() };
+  const sent = [await txExecutor.sendTransaction(current)];
+  await onSent?.(sent[0].hash);
+  const waits = [waitForIndex(sent[0], 0)];
+
+  const result = ({ index, receipt }: MinedTransaction): MonitoredTransaction => ({
+    hash: sent[index].hash,
+    originalHash: sent[0].hash,
+    cancelled: action === 'cancel' && index > 0,
+    receipt
+  });
+
+  for (let attempt = 1; ; attempt++) {
+    const mined = await withDeadline(firstMined(waits), timeout);
+    if (mined) {
+      return result(mined);
+    }
+
+    const previousHash = sent[sent.length - 1].hash;
+    if (attempt > maxReplacements) {
+      throw new AoriTimeoutError(
+        `Transaction ${previousHash} was not mined after ${maxReplacements} replacements`,
+        { timeout }
+      );
+    }
+
+    current = await buildReplacement(current, txExecutor, action, feeBumpPercent);
+
+    let replacement: { hash: string; wait(): Promise<unknown> };
+    try {
+      replacement = await txExecutor.sendTransaction(current);
+    } catch (error) {
+      // The original may have been mined in the meantime, in which case the nonce is already used
+      const minedMeanwhile = await withDeadline(firstMined(waits), 0);
+      if (minedMeanwhile) {
+        return result(minedMeanwhile);
+      }
+      throw withErrorContext(error, `Failed to replace transaction ${previousHash}`);
+    }
+
+    sent.push(replacement);
+    waits.push(waitForIndex(replacement, sent.length - 1));
+    onReplaced?.({ previousHash, hash: replacement.hash, attempt, action });
+  }
+}
+
+/**
+ * Checks the executor can replace the transaction before anything is sent
+ */
+function validateMonitor(request: TransactionRequest, txExecutor: TxExecutor, monitor: TransactionMonitorOptions): void {
+  const { timeout, action = 'speedUp', feeBumpPercent = DEFAULT_FEE_BUMP_PERCENT } = monitor;
+
+  if (!(timeout > 0)) {
+    throw new AoriValidationError("Monitor timeout must be a positive number of milliseconds", { field: 'timeout' });
+  }
+  if (!Number.isInteger(feeBumpPercent) || feeBumpPercent < 10) {
+    throw new AoriValidationError("feeBumpPercent must be an integer of at least 10", { field: 'feeBumpPercent' });
+  }
+  if (request.nonce === undefined && !txExecutor.getNonce) {
+    throw new AoriValidationError("Replacing transactions requires an executor that implements getNonce", { field: 'getNonce' });
+  }
+  if (action === 'cancel' && !txExecutor.address) {
+    throw new AoriValidationError("Cancelling transactions requires an executor with an address", { field: 'address' });
+  }
+  if (!txExecutor.getFeeData && (request.maxFeePerGas === undefined || request.maxPriorityFeePerGas === undefined)) {
+    throw new AoriValidationError(
+      "Replacing transactions requires EIP-1559 fees: set a fee strategy or use an executor that implements getFeeData",
+      { field: 'getFeeData' }
+    );
+  }
+}
+
+/**
+ * Builds the replacement of a pending transaction with the same nonce and fees bumped above
+ * both the previous transaction and the current network fees
+ */
+async function buildReplacement(
+  previous: TransactionRequest,
+  txExecutor: TxExecutor,
+  action: 'speedUp' | 'cancel',
+  feeBumpPercent: number
+): Promise<TransactionRequest> {
+  let market: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | undefined;
+  if (txExecutor.getFeeData) {
+    try {
+      market = await txExecutor.getFeeData();
+    } catch (error) {
+      throw withErrorContext(error, 'Failed to fetch fee data');
+    }
+  }
+
+  const bump = (fee: string | bigint) => BigInt(fee) * BigInt(100 + feeBumpPercent) / BigInt(100);
+  const max = (a: bigint, b: bigint) => a > b ? a : b;
+  // Fees set by the wallet are unknown, so the network fees are bumped instead
+  const nextFee = (previousFee: string | undefined, marketFee: bigint = BigInt(0)) =>
+    max(bump(previousFee ?? marketFee), marketFee);
+
+  const maxPriorityFeePerGas = nextFee(previous.maxPriorityFeePerGas, market?.maxPriorityFeePerGas);
+  const maxFeePerGas = max(nextFee(previous.maxFeePerGas, market?.maxFeePerGas), maxPriorityFeePerGas);
+
+  const fees = {
+    nonce: previous.nonce,
+    maxFeePerGas: maxFeePerGas.toString(),
+    maxPriorityFeePerGas: maxPriorityFeePerGas.toString()
+  };
+
+  if (action === 'cancel') {
+    return { to: txExecutor.address!, data: '0x', value: '0', gasLimit: SELF_SEND_GAS_LIMIT, ...fees };
+  }
+  return { ...previous, ...fees };
+}
+
+function waitForIndex(tx: { wait(): Promise<unknown> }, index: number): Promise<MinedTransaction> {
+  return tx.wait().then(receipt => ({ index, receipt }));
+}
+
+/**
+ * Resolves with the first transaction that is mined. Waits of replaced transactions reject,
+ * so this only rejects once every transaction has failed.
+ */
+function firstMined(waits: Promise<MinedTransaction>[]): Promise<MinedTransaction> {
+  return new Promise((resolve, reject) => {
+    let rejected = 0;
+    for (const wait of waits) {
+      wait.then(resolve, error => {
+        if (++rejected === waits.length) {
+          reject(error);
+        }
+      });
+    }
+  });
+}
+
+/**
+ * Resolves with undefined if the promise doesn't settle within the timeout
+ */
+async function withDeadline<T>(promise: Promise<T>, timeout: number): Promise<T | undefined> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<undefined>(resolve => {
+    timer = setTimeout(() => resolve(undefined), timeout);
+  });
+
+  try {
+    return await Promise.race([promise, deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,257 @@
+import { ethers } from 'ethers';
+import { http, buildHeaders, withErrorContext } from './http';
+import { AoriError, AoriValidationError } from './errors';
+import { DigestSigner, HardwareWalletSignerOptions, HttpSignerOptions, KmsSignerOptions, SignerType } from './types';
+
+// Order of the secp256k1 curve, used to normalize signatures to low-s
+const SECP256K1_N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+
+/**
+ * Checks if a signer signs digests rather than holding a raw private key or signing typed data itself
+ * @param signer The signer to check
+ * @returns True if the signer implements DigestSigner
+ */
+export function isDigestSigner(signer: unknown): signer is DigestSigner {
+  return typeof signer === 'object'
+    && signer !== null
+    && typeof (signer as DigestSigner).signDigest === 'function'
+    && typeof (signer as DigestSigner).getAddress === 'function';
+}
+
+/**
+ * Resolves a SignerType to a DigestSigner, wrapping raw private keys in a local signer
+ * @param signer The signer or private key signer
+ * @returns The digest signer
+ */
+export function toDigestSigner(signer: SignerType): DigestSigner {
+  if (isDigestSigner(signer)) {
+    return signer;
+  }
+
+  if (typeof signer?.privateKey !== 'string') {
+    throw new AoriValidationError("Signer must implement signDigest or provide a privateKey", { field: 'signer' });
+  }
+
+  return createLocalSigner(signer.privateKey);
+}
+
+////////////////////////////////////////////////////////////////*/
+//                         LOCAL SIGNER
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Creates a signer from a private key held in memory
+ * @param privateKey The private key as a hex string
+ * @returns The digest signer
+ */
+export function createLocalSigner(privateKey: string): DigestSigner {
+  const signingKey = new ethers.SigningKey(privateKey);
+  const address = ethers.computeAddress(signingKey);
+
+  return {
+    getAddress: async () => address,
+    signDigest: async (digest) => signingKey.sign(digest).serialized
+  };
+}
+
+////////////////////////////////////////////////////////////////*/
+//                          KMS SIGNER
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Creates a signer backed by a KMS key. KMS services return DER-encoded signatures without a
+ * recovery id, so signatures are normalized to low-s and the recovery id is derived from the address.
+ * @param options The key address and the function signing with the remote key
+ * @returns The digest signer
+ */
+export function createKmsSigner({ address, sign }: KmsSignerOptions): DigestSigner {
+  const expected = ethers.getAddress(address);
+
+  return {
+    getAddress: async () => expected,
+    signDigest: async (digest) => {
+      let der: Uint8Array;
+      try {
+        der = ethers.getBytes(await sign(ethers.getBytes(digest)));
+      } catch (error) {
+        throw withErrorContext(error, 'KMS signing failed');
+      }
+
+      const { r, s } = decodeDerSignature(der);
+      return recoverableSignature(digest, r, s, expected);
+    }
+  };
+}
+
+/**
+ * Decodes a DER-encoded ECDSA signature: SEQUENCE { INTEGER r, INTEGER s }
+ */
+function decodeDerSignature(der: Uint8Array): { r: bigint, s: bigint } {
+  let offset = 0;
+
+  const readLength = (): number => {
+    const first = der[offset++];
+    if (first < 0x80) {
+      return first;
+    }
+    // Long form: the low bits give the number of length bytes
+    let length = 0;
+    for (let i = 0; i < (first & 0x7f); i++) {
+      length = (length << 8) | der[offset++];
+    }
+    return length;
+  };
+
+  const readInteger = (): bigint => {
+    if (der[offset++] !== 0x02) {
+      throw new AoriError('Invalid DER signature: expected an integer');
+    }
+    const length = readLength();
+    const value = ethers.toBigInt(der.subarray(offset, offset + length));
+    offset += length;
+    return value;
+  };
+
+  if (der[offset++] !== 0x30) {
+    throw new AoriError('Invalid DER signature: expected a sequence');
+  }
+  readLength();
+
+  const r = readInteger();
+  const s = readInteger();
+  return { r, s };
+}
+
+/**
+ * Builds a 65-byte low-s signature, picking the recovery id that recovers the expected address
+ */
+function recoverableSignature(digest: string, r: bigint, s: bigint, expected: string): string {
+  // Ethereum only accepts signatures in the lower half of the curve order
+  const lowS = s > SECP256K1_N / BigInt(2) ? SECP256K1_N - s : s;
+
+  for (const v of [27, 28]) {
+    const signature = ethers.Signature.from({
+      r: ethers.toBeHex(r, 32),
+      s: ethers.toBeHex(lowS, 32),
+      v
+    });
+    if (ethers.recoverAddress(digest, signature) === expected) {
+      return signature.serialized;
+    }
+  }
+
+  throw new AoriError(`Signature does not recover to the signer address ${expected}`);
+}
+
+////////////////////////////////////////////////////////////////*/
+//                          HTTP SIGNER
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Creates a signer backed by an HSM or signing service speaking the HTTP signer protocol
+ * @param options The service URL, and optionally the key address and request headers
+ * @returns The digest signer
+ */
+export function createHttpSigner({ url, address, headers = {}, requestOptions = {} }: HttpSignerOptions): DigestSigner {
+  const { signal, retry, transport } = requestOptions;
+  const baseUrl = url.endsWith('/') ? url : `${url}/`;
+  let resolvedAddress = address ? ethers.getAddress(address) : undefined;
+
+  const getAddress = async (): Promise<string> => {
+    if (!resolvedAddress) {
+      try {
+        const response = await http<{ address: string }>({
+          method: 'GET',
+          url: new URL('address', baseUrl),
+          headers,
+          signal,
+          retry,
+          transport
+        });
+        resolvedAddress = ethers.getAddress(response.data.address);
+      } catch (error) {
+        throw withErrorContext(error, 'Failed to fetch signer address');
+      }
+    }
+    return resolvedAddress;
+  };
+
+  return {
+    getAddress,
+    signDigest: async (digest, typedData) => {
+      const signerAddress = await getAddress();
+
+      let signature: string;
+      try {
+        const response = await http<{ signature: string }>({
+          method: 'POST',
+          url: new URL('sign', baseUrl),
+          headers: { ...buildHeaders(), ...headers },
+          data: { address: signerAddress, digest, ...(typedData && { typedData }) },
+          signal,
+          retry,
+          transport,
+          // Signing has no side effects, so a lost response can be retried
+          idempotent: true
+        });
+        signature = response.data.signature;
+      } catch (error) {
+        throw withErrorContext(error, 'Remote signing failed');
+      }
+
+      // Never hand out a signature from the service without checking whose it is
+      if (ethers.recoverAddress(digest, signature) !== signerAddress) {
+        throw new AoriError(`Signature does not recover to the signer address ${signerAddress}`);
+      }
+      return ethers.Signature.from(signature).serialized;
+    }
+  };
+}
+
+////////////////////////////////////////////////////////////////*/
+//                    HARDWARE WALLET SIGNER
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Creates a signer backed by a hardware wallet. Hardware wallets only sign typed data,
+ * so this signer can't sign digests computed without their EIP-712 hashes.
+ * @param options The account address and the function signing EIP-712 hashes on the device
+ * @returns The digest signer
+ */
+export function createHardwareWalletSigner({ address, signTypedDataHashes }: HardwareWalletSignerOptions): DigestSigner {
+  const expected = ethers.getAddress(address);
+
+  return {
+    getAddress: async () => expected,
+    signDigest: async (digest, typedData) => {
+      if (!typedData) {
+        throw new AoriValidationError("Hardware wallets can only sign EIP-712 typed data", { field: 'signer' });
+      }
+
+      let result: { v: number | string; r: string; s: string };
+      try {
+        result = await signTypedDataHashes(typedData.domainSeparator, typedData.structHash);
+      } catch (error) {
+        throw withErrorContext(error, 'Hardware wallet signing failed');
+      }
+
+      // Devices report r and s without a 0x prefix, and v as a number, decimal string or 0x-prefixed hex string
+      let v: number;
+      try {
+        v = Number(ethers.getBigInt(result.v, 'v'));
+      } catch (error) {
+        throw new AoriValidationError(`Invalid signature v from hardware wallet: ${result.v}`, { field: 'v', cause: error });
+      }
+      const signature = ethers.Signature.from({
+        r: ethers.toBeHex(BigInt(`0x${result.r.replace(/^0x/, '')}`), 32),
+        s: ethers.toBeHex(BigInt(`0x${result.s.replace(/^0x/, '')}`), 32),
+        v: v < 27 ? v + 27 : v
+      });
+
+      if (ethers.recoverAddress(digest, signature) !== expected) {
+        throw new AoriError(`Signature does not recover to the signer address ${expected}`);
+      }
+      return signature.serialized;
+    }
+  };
+}
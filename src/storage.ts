@@ -0,0 +1,166 @@
+import { AoriError } from './errors';
+import { DEFAULT_SWAP_STORE_PREFIX } from './constants';
+import { KeyValueStorage, SwapFileSystem, SwapSnapshot, SwapStore, WebStorage } from './types';
+
+////////////////////////////////////////////////////////////////*/
+//                         MEMORY STORE
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Creates a swap store that keeps swaps in memory. Swaps don't survive the process,
+ * but can be resumed after the executing swap object is lost.
+ * @returns The swap store
+ */
+export function createMemorySwapStore(): SwapStore {
+  const swaps = new Map<string, string>();
+
+  // Snapshots are serialized like in the persistent stores, so later changes to them aren't stored
+  return {
+    get: async (orderHash) => {
+      const value = swaps.get(orderHash);
+      return value === undefined ? undefined : JSON.parse(value);
+    },
+    set: async (snapshot) => {
+      swaps.set(snapshot.orderHash, JSON.stringify(snapshot));
+    },
+    delete: async (orderHash) => {
+      swaps.delete(orderHash);
+    },
+    list: async () => [...swaps.values()].map(value => JSON.parse(value))
+  };
+}
+
+////////////////////////////////////////////////////////////////*/
+//                          FILE STORE
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Creates a swap store that keeps all swaps in one JSON file
+ * @param path Path of the JSON file, created on the first write
+ * @param fileSystem File system functions, e.g. `fs.promises` in Node.js
+ * @returns The swap store
+ *
+ * @example
+ * import { promises as fs } from 'fs';
+ * const store = createFileSwapStore('./swaps.json', fs);
+ */
+export function createFileSwapStore(path: string, fileSystem: SwapFileSystem): SwapStore {
+  // Writes read the whole file, so they are queued to not overwrite each other
+  let queue: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const read = async (): Promise<Record<string, SwapSnapshot>> => {
+    let contents: string;
+    try {
+      contents = await fileSystem.readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string })?.code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+    return contents.trim() ? JSON.parse(contents) : {};
+  };
+
+  const update = (change: (swaps: Record<string, SwapSnapshot>) => void) => enqueue(async () => {
+    const swaps = await read();
+    change(swaps);
+    await fileSystem.writeFile(path, JSON.stringify(swaps, null, 2));
+  });
+
+  return {
+    get: (orderHash) => enqueue(async () => (await read())[orderHash]),
+    set: (snapshot) => update(swaps => {
+      swaps[snapshot.orderHash] = snapshot;
+    }),
+    delete: (orderHash) => update(swaps => {
+      delete swaps[orderHash];
+    }),
+    list: () => enqueue(async () => Object.values(await read()))
+  };
+}
+
+////////////////////////////////////////////////////////////////*/
+//                      LOCAL STORAGE STORE
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Creates a swap store backed by the Web Storage API, one key per swap
+ * @param storage The storage to use. Default: the global localStorage
+ * @param prefix Prefix of the storage keys. Default: "aori:swap:"
+ * @returns The swap store
+ */
+export function createLocalStorageSwapStore(storage?: WebStorage, prefix: string = DEFAULT_SWAP_STORE_PREFIX): SwapStore {
+  // Resolve the global lazily so the store can be created during server-side rendering
+  const resolveStorage = (): WebStorage => {
+    const resolved = storage ?? (globalThis as { localStorage?: WebStorage }).localStorage;
+    if (!resolved) {
+      throw new AoriError('No localStorage available. Pass a Web Storage implementation to createLocalStorageSwapStore');
+    }
+    return resolved;
+  };
+
+  return {
+    get: async (orderHash) => {
+      const value = resolveStorage().getItem(prefix + orderHash);
+      return value === null ? undefined : JSON.parse(value);
+    },
+    set: async (snapshot) => {
+      resolveStorage().setItem(prefix + snapshot.orderHash, JSON.stringify(snapshot));
+    },
+    delete: async (orderHash) => {
+      resolveStorage().removeItem(prefix + orderHash);
+    },
+    list: async () => {
+      const resolved = resolveStorage();
+      const snapshots: SwapSnapshot[] = [];
+      for (let index = 0; index < resolved.length; index++) {
+        const key = resolved.key(index);
+        const value = key?.startsWith(prefix) ? resolved.getItem(key) : null;
+        if (value !== null) {
+          snapshots.push(JSON.parse(value));
+        }
+      }
+      return snapshots;
+    }
+  };
+}
+
+////////////////////////////////////////////////////////////////*/
+//                       KEY-VALUE STORE
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Creates a swap store backed by asynchronous key-value storage, such as IndexedDB through idb-keyval
+ * @param storage The key-value storage
+ * @param prefix Prefix of the storage keys. Default: "aori:swap:"
+ * @returns The swap store
+ *
+ * @example
+ * import { get, set, del, keys } from 'idb-keyval';
+ * const store = createKeyValueSwapStore({ get, set, del, keys });
+ */
+export function createKeyValueSwapStore(storage: KeyValueStorage, prefix: string = DEFAULT_SWAP_STORE_PREFIX): SwapStore {
+  const parse = (value: unknown): SwapSnapshot | undefined =>
+    typeof value === 'string' ? JSON.parse(value) : undefined;
+
+  return {
+    get: async (orderHash) => parse(await storage.get(prefix + orderHash)),
+    set: async (snapshot) => {
+      await storage.set(prefix + snapshot.orderHash, JSON.stringify(snapshot));
+    },
+    delete: async (orderHash) => {
+      await storage.del(prefix + orderHash);
+    },
+    list: async () => {
+      const keys = (await storage.keys())
+        .filter((key): key is string => typeof key === 'string' && key.startsWith(prefix));
+      const snapshots = await Promise.all(keys.map(async key => parse(await storage.get(key))));
+      return snapshots.filter((snapshot): snapshot is SwapSnapshot => snapshot !== undefined);
+    }
+  };
+}
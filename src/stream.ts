@@ -0,0 +1,206 @@
+import { AoriError, AoriNetworkError } from './errors';
+import { AoriSubscription } from './subscriptions';
+import { StreamOptions, StreamOverflowStrategy, WebSocketCallbacks, WSEvent } from './types';
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+////////////////////////////////////////////////////////////////*/
+//                        EVENT STREAM
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Async iterator over the events of a WebSocket subscription.
+ * Events are buffered up to `bufferSize` while the consumer is busy, and the stream
+ * throws if the subscription's connection drops or the signal is aborted. With `failOnDisconnect: false`
+ * the stream continues after reconnects and only throws once the connection is permanently closed.
+ *
+ * @example
+ * for await (const event of aori.stream({ offerer }, { signal })) {
+ *   await handle(event);
+ * }
+ */
+export class AoriEventStream implements AsyncIterableIterator<WSEvent> {
+  private readonly subscription: AoriSubscription;
+  private readonly buffer: WSEvent[] = [];
+  private readonly bufferSize: number;
+  private readonly overflow: StreamOverflowStrategy;
+  private readonly signal?: AbortSignal;
+  private pending?: { resolve: (result: IteratorResult<WSEvent>) => void; reject: (error: unknown) => void };
+  private failure?: { error: unknown };
+  private done = false;
+
+  /**
+   * @param subscribe Creates the subscription feeding the stream with the given callbacks
+   * @param options Abort signal and buffering configuration
+   */
+  constructor(
+    subscribe: (callbacks: WebSocketCallbacks) => AoriSubscription,
+    { signal, bufferSize = DEFAULT_BUFFER_SIZE, overflow = 'error', failOnDisconnect = true }: StreamOptions = {}
+  ) {
+    this.bufferSize = Math.max(1, bufferSize);
+    this.overflow = overflow;
+    this.signal = signal;
+
+    this.subscription = subscribe({
+      onMessage: (event) => this.push(event),
+      onDisconnect: ({ code, reason }) => {
+        // Events sent while reconnecting are lost, so the consumer has to know about the gap
+        if (failOnDisconnect && this.subscription) {
+          this.fail(new AoriNetworkError(
+            `WebSocket connection closed (code ${code}${reason ? `: ${reason}` : ''})`,
+            { endpoint: 'WS /stream' }
+          ));
+        }
+      },
+      onStateChange: (state) => {
+        // A connection failing while subscribing is handled below, once the subscription exists
+        if (state === 'closed' && this.subscription) {
+          this.handleClosed();
+        }
+      },
+    });
+
+    // The connection may already have failed while subscribing
+    if (!this.subscription.isActive()) {
+      this.handleClosed();
+    }
+
+    if (signal?.aborted) {
+      this.abort();
+    } else {
+      signal?.addEventListener('abort', this.abort, { once: true });
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<WSEvent> {
+    return this;
+  }
+
+  /**
+   * Resolves with the next event, waiting for one to arrive if the buffer is empty
+   */
+  public next(): Promise<IteratorResult<WSEvent>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift()!, done: false });
+    }
+
+    if (this.failure) {
+      const { error } = this.failure;
+      this.failure = undefined;
+      this.done = true;
+      return Promise.reject(error);
+    }
+
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    if (this.pending) {
+      return Promise.reject(new AoriError('Concurrent next() calls are not supported by the event stream'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  /**
+   * Ends the stream and closes its subscription. Called automatically when a `for await` loop exits early.
+   */
+  public return(): Promise<IteratorResult<WSEvent>> {
+    this.buffer.length = 0;
+    this.failure = undefined;
+    this.finish();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  private push(event: WSEvent): void {
+    if (this.done || this.failure) {
+      return;
+    }
+
+    if (this.pending) {
+      const { resolve } = this.pending;
+      this.pending = undefined;
+      resolve({ value: event, done: false });
+      return;
+    }
+
+    if (this.buffer.length < this.bufferSize) {
+      this.buffer.push(event);
+      return;
+    }
+
+    switch (this.overflow) {
+      case 'drop-oldest':
+        this.buffer.shift();
+        this.buffer.push(event);
+        break;
+      case 'drop-newest':
+        break;
+      default:
+        this.fail(new AoriError(`Event stream buffer overflow: more than ${this.bufferSize} events are waiting to be consumed`));
+    }
+  }
+
+  /**
+   * Ends the stream once its subscription is closed, with an error unless it was closed by the caller
+   */
+  private handleClosed(): void {
+    const error = this.subscription.getCloseError();
+    if (error !== undefined) {
+      this.fail(error);
+    } else {
+      this.finish();
+    }
+  }
+
+  private readonly abort = (): void => {
+    // Aborting discards buffered events, matching how aborted requests behave
+    this.buffer.length = 0;
+    this.fail(this.signal?.reason);
+  };
+
+  /**
+   * Ends the stream with an error, delivered after any buffered events
+   */
+  private fail(error: unknown): void {
+    if (this.done || this.failure) {
+      return;
+    }
+
+    this.failure = { error };
+    this.detach();
+
+    if (this.pending) {
+      const { reject } = this.pending;
+      this.pending = undefined;
+      this.failure = undefined;
+      this.done = true;
+      reject(error);
+    }
+  }
+
+  /**
+   * Ends the stream normally, delivering any buffered events first
+   */
+  private finish(): void {
+    if (this.done || this.failure) {
+      return;
+    }
+
+    this.done = true;
+    this.detach();
+
+    if (this.pending) {
+      const { resolve } = this.pending;
+      this.pending = undefined;
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  private detach(): void {
+    this.signal?.removeEventListener('abort', this.abort);
+    this.subscription.unsubscribe();
+  }
+}
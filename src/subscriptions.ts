@@ -0,0 +1,273 @@
+import { AoriError } from './errors';
+import { AoriWebSocket } from './websocket';
+import { EventBackfill, MissedEventsFetcher } from './backfill';
+import { SubscriptionParams, WebSocketCallbacks, WebSocketConnectionState, WebSocketOptions } from './types';
+
+////////////////////////////////////////////////////////////////*/
+//                         SUBSCRIPTION
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Handle to a WebSocket subscription with its own filter and callbacks.
+ * Subscriptions with the same filter share a single connection.
+ */
+export class AoriSubscription {
+  /** Resolves once the subscription's connection is established */
+  public readonly ready: Promise<void>;
+  private resolveReady!: () => void;
+  private rejectReady!: (error: unknown) => void;
+  private active = true;
+  private closeError?: unknown;
+
+  /**
+   * @param id Unique id of the subscription within its Aori instance
+   * @param filter The filter the subscription was created with
+   * @param callbacks Callbacks for events, connection changes and errors
+   * @param connection The shared connection delivering events to this subscription
+   * @param detach Removes the subscription from its connection
+   */
+  constructor(
+    public readonly id: number,
+    public readonly filter: SubscriptionParams,
+    public readonly callbacks: WebSocketCallbacks,
+    private readonly connection: AoriWebSocket,
+    private readonly detach: (subscription: AoriSubscription) => void
+  ) {
+    this.ready = new Promise((resolve, reject) => {
+      this.resolveReady = resolve;
+      this.rejectReady = reject;
+    });
+    // Callers that never await `ready` should not see unhandled rejections
+    this.ready.catch(() => undefined);
+  }
+
+  /**
+   * Returns the state of the underlying connection, or 'closed' once unsubscribed
+   */
+  public getState(): WebSocketConnectionState {
+    return this.active ? this.connection.getState() : 'closed';
+  }
+
+  /**
+   * Returns the error that closed the subscription's connection, if it was not closed by unsubscribe()
+   */
+  public getCloseError(): unknown {
+    return this.closeError;
+  }
+
+  /**
+   * Returns true until unsubscribe() is called or the connection is permanently closed
+   */
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Stops delivering events to this subscription. The shared connection is closed
+   * once its last subscription is removed.
+   */
+  public unsubscribe(): void {
+    if (!this.active) {
+      return;
+    }
+
+    const previousState = this.connection.getState();
+    this.active = false;
+    this.detach(this);
+    this.rejectReady(new AoriError('Subscription was closed before the connection was established'));
+    if (previousState !== 'closed') {
+      this.callbacks.onStateChange?.('closed', previousState);
+    }
+  }
+
+  /** @internal Marks the subscription as connected */
+  public markReady(): void {
+    this.resolveReady();
+  }
+
+  /** @internal Marks the subscription as permanently closed by its connection */
+  public markClosed(error: unknown): void {
+    this.active = false;
+    this.closeError = error;
+    this.rejectReady(error);
+  }
+}
+
+////////////////////////////////////////////////////////////////*/
+//                     SUBSCRIPTION MANAGER
+//////////////////////////////////////////////////////////////*/
+
+interface ConnectionGroup {
+  connection: AoriWebSocket;
+  subscriptions: Set<AoriSubscription>;
+  backfill?: EventBackfill;
+}
+
+/**
+ * Creates subscriptions and pools their connections, sharing one connection per distinct filter
+ */
+export class SubscriptionManager {
+  private groups = new Map<string, ConnectionGroup>();
+  private nextId = 1;
+
+  /**
+   * @param buildUrl Builds the WebSocket URL for a filter
+   * @param options Default reconnect, heartbeat and backfill configuration for new connections
+   * @param fetchMissed Fetches events missed during an outage, required for backfilling
+   */
+  constructor(
+    private readonly buildUrl: (filter: SubscriptionParams) => string,
+    private readonly options: WebSocketOptions = {},
+    private readonly fetchMissed?: MissedEventsFetcher
+  ) {}
+
+  /**
+   * Creates a subscription, reusing an existing connection with the same filter if there is one
+   * @param filter The filter to subscribe to
+   * @param callbacks Callbacks for events, connection changes and errors
+   * @param options Connection options. Subscriptions with custom options get a dedicated connection.
+   * @returns The subscription handle
+   */
+  public subscribe(
+    filter: SubscriptionParams,
+    callbacks: WebSocketCallbacks = {},
+    options?: WebSocketOptions
+  ): AoriSubscription {
+    const id = this.nextId++;
+    const key = options ? `dedicated:${id}` : filterKey(filter);
+
+    let group = this.groups.get(key);
+    const isNewGroup = !group;
+
+    if (!group) {
+      group = this.createGroup(key, filter, { ...this.options, ...options });
+    }
+
+    const subscription = new AoriSubscription(id, filter, callbacks, group.connection, (sub) => this.remove(key, sub));
+    group.subscriptions.add(subscription);
+
+    if (isNewGroup) {
+      // Failures are reported to the subscriptions through onStateChange and `ready`
+      group.connection.connect().catch(() => undefined);
+    } else if (group.connection.getState() === 'open') {
+      // Joining a live connection: the subscription is connected immediately
+      subscription.markReady();
+      callbacks.onConnect?.();
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Returns all active subscriptions
+   */
+  public getSubscriptions(): AoriSubscription[] {
+    return [...this.groups.values()].flatMap(group => [...group.subscriptions]);
+  }
+
+  /**
+   * Returns the number of open or pending connections
+   */
+  public getConnectionCount(): number {
+    return this.groups.size;
+  }
+
+  /**
+   * Closes every subscription and connection
+   */
+  public closeAll(): void {
+    for (const subscription of this.getSubscriptions()) {
+      subscription.unsubscribe();
+    }
+  }
+
+  private createGroup(key: string, filter: SubscriptionParams, options: WebSocketOptions): ConnectionGroup {
+    const subscriptions = new Set<AoriSubscription>();
+    const each = (fn: (callbacks: WebSocketCallbacks, subscription: AoriSubscription) => void) => {
+      // Copy so callbacks can unsubscribe while iterating
+      for (const subscription of [...subscriptions]) {
+        fn(subscription.callbacks, subscription);
+      }
+    };
+
+    const backfill = options.backfill && this.fetchMissed
+      ? new EventBackfill(
+        filter,
+        options.backfill === true ? {} : options.backfill,
+        this.fetchMissed,
+        (event) => each(callbacks => callbacks.onMessage?.(event)),
+        (error) => each(callbacks => callbacks.onError?.(error))
+      )
+      : undefined;
+
+    const connection = new AoriWebSocket(this.buildUrl(filter), {
+      onMessage: (event) => backfill
+        ? backfill.handleMessage(event)
+        : each(callbacks => callbacks.onMessage?.(event)),
+      onConnect: () => {
+        each((callbacks, subscription) => {
+          subscription.markReady();
+          callbacks.onConnect?.();
+        });
+        backfill?.handleConnect();
+      },
+      onDisconnect: (event) => each(callbacks => callbacks.onDisconnect?.(event)),
+      onError: (error) => each(callbacks => callbacks.onError?.(error)),
+      onStateChange: (state, previousState) => {
+        // Close subscriptions first so callbacks can read the close error
+        if (state === 'closed') {
+          this.handleClosed(key, group);
+        }
+        each(callbacks => callbacks.onStateChange?.(state, previousState));
+      },
+      onReconnect: (attempt, delay) => each(callbacks => callbacks.onReconnect?.(attempt, delay)),
+    }, options);
+
+    const group = { connection, subscriptions, backfill };
+    this.groups.set(key, group);
+    return group;
+  }
+
+  /**
+   * Closes all subscriptions of a connection that gave up reconnecting
+   */
+  private handleClosed(key: string, group: ConnectionGroup): void {
+    // Connections closed by removing their last subscription are no longer registered
+    if (this.groups.get(key) !== group) {
+      return;
+    }
+
+    this.groups.delete(key);
+    group.backfill?.stop();
+    const error = group.connection.getCloseError() ?? new AoriError('WebSocket connection closed');
+    for (const subscription of group.subscriptions) {
+      subscription.markClosed(error);
+    }
+  }
+
+  private remove(key: string, subscription: AoriSubscription): void {
+    const group = this.groups.get(key);
+    if (!group) {
+      return;
+    }
+
+    group.subscriptions.delete(subscription);
+
+    if (group.subscriptions.size === 0) {
+      this.groups.delete(key);
+      group.backfill?.stop();
+      group.connection.close();
+    }
+  }
+}
+
+/**
+ * Builds a stable key for a filter, ignoring property order and empty values
+ */
+function filterKey(filter: SubscriptionParams): string {
+  return JSON.stringify(
+    Object.entries(filter)
+      .filter(([, value]) => value)
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
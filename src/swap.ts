@@ -0,0 +1,547 @@
+import { AoriApiError, AoriError, AoriTimeoutError, AoriValidationError } from './errors';
+import { withErrorContext } from './http';
+import {
+  cancelOrder,
+  executeNativeSwap,
+  executeSwap,
+  getChain,
+  getOrderStatus,
+  isNativeSwapResponse,
+  waitForOrder
+} from './helpers';
+import { AORI_API, DEFAULT_EXPIRY_GRACE_PERIOD } from './constants';
+import {
+  NativeSwapResponse,
+  OrderStatus,
+  QuoteResponse,
+  RequestOptions,
+  SwapConfig,
+  SwapOptions,
+  SwapProgressEvent,
+  SwapSnapshot,
+  SwapState,
+  SwapStep,
+  SwapStore,
+  TransactionResponse
+} from './types';
+
+// Distributes Omit over the members of the progress event union
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type SwapTransition = DistributiveOmit<SwapProgressEvent, 'orderHash' | 'previousState' | 'timestamp'>;
+
+// States a swap can move to from each state. Steps can be skipped, e.g. native swaps are never signed,
+// and resumed swaps whose submission wasn't stored go straight to the status of the order.
+const TRANSITIONS: Record<SwapState, SwapState[]> = {
+  quoted: ['approving', 'signing', 'submitted', 'received', 'completed', 'failed', 'cancelled', 'expired'],
+  approving: ['signing', 'received', 'completed', 'failed', 'cancelled', 'expired'],
+  signing: ['submitted', 'received', 'completed', 'failed', 'cancelled', 'expired'],
+  submitted: ['depositing', 'received', 'completed', 'failed', 'cancelled', 'expired'],
+  depositing: ['received', 'completed', 'failed', 'cancelled', 'expired'],
+  received: ['completed', 'failed', 'cancelled', 'expired'],
+  completed: [],
+  failed: [],
+  cancelled: [],
+  expired: []
+};
+
+////////////////////////////////////////////////////////////////*/
+//                        SWAP LIFECYCLE
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * A swap moving from a quote to a completed order through explicit states:
+ * quoted → approving → signing → submitted → depositing → received → completed,
+ * ending early in failed, cancelled or expired. Steps that don't apply are skipped,
+ * e.g. native swaps are never signed and ERC20 swaps have no deposit transaction.
+ * Every state change is reported as a typed progress event.
+ *
+ * @example
+ * const swap = aori.createSwap(quote, config, {
+ *   onProgress: (event) => console.log(event.state)
+ * });
+ * const { state, error } = await swap.execute();
+ */
+export class AoriSwap {
+  private snapshot: SwapSnapshot;
+  private readonly listeners = new Set<(event: SwapProgressEvent) => void>();
+  private execution?: Promise<SwapSnapshot>;
+  private resumed = false;
+  // Store writes are queued so snapshots are stored in order
+  private saving: Promise<void> = Promise.resolve();
+  private storeError?: unknown;
+  // Snapshot kept in the store when the swap fails while its order is still live
+  private resumable?: SwapSnapshot;
+
+  /**
+   * @param quote The quote to execute
+   * @param config Configuration of the swap, as for executeSwap
+   * @param options Progress callback, the state to track the order until, and polling configuration
+   * @param baseUrl The base URL of the API
+   * @param apiKey Optional API key for authentication
+   * @param requestOptions Optional parameters including AbortSignal
+   */
+  constructor(
+    quote: QuoteResponse,
+    private readonly config: SwapConfig,
+    private readonly options: SwapOptions = {},
+    private readonly baseUrl: string = AORI_API,
+    private readonly apiKey?: string,
+    private readonly requestOptions: RequestOptions = {}
+  ) {
+    this.snapshot = { state: 'quoted', quote, orderHash: quote.orderHash, updatedAt: Date.now() };
+    if (options.onProgress) {
+      this.listeners.add(options.onProgress);
+    }
+  }
+
+  /**
+   * Recreates a swap from a stored snapshot. Executing it continues where the snapshot left off.
+   * @param snapshot The stored snapshot
+   * @param config Configuration of the swap, as for executeSwap
+   * @param options Progress callback, the state to track the order until, and polling configuration
+   * @param baseUrl The base URL of the API
+   * @param apiKey Optional API key for authentication
+   * @param requestOptions Optional parameters including AbortSignal
+   * @returns The swap, in the state of the snapshot
+   */
+  public static fromSnapshot(
+    snapshot: SwapSnapshot,
+    config: SwapConfig,
+    options: SwapOptions = {},
+    baseUrl: string = AORI_API,
+    apiKey?: string,
+    requestOptions: RequestOptions = {}
+  ): AoriSwap {
+    const swap = new AoriSwap(snapshot.quote, config, options, baseUrl, apiKey, requestOptions);
+    swap.snapshot = { ...snapshot };
+    swap.resumed = true;
+    return swap;
+  }
+
+  /**
+   * Returns the current state of the swap
+   */
+  public getState(): SwapState {
+    return this.snapshot.state;
+  }
+
+  /**
+   * Returns a snapshot of the swap: its state, the order, the deposit transaction and the latest order status
+   */
+  public getSnapshot(): SwapSnapshot {
+    return { ...this.snapshot };
+  }
+
+  /**
+   * Returns true once the swap is completed, failed, cancelled or expired
+   */
+  public isFinished(): boolean {
+    return TRANSITIONS[this.snapshot.state].length === 0;
+  }
+
+  /**
+   * Adds a listener for progress events
+   * @param listener Called for every state the swap enters
+   * @returns A function removing the listener
+   */
+  public onProgress(listener: (event: SwapProgressEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Executes the swap and tracks the order until it is completed (or received, with `until: 'received'`).
+   * Failures don't reject: the swap ends in the failed state with the error in the snapshot.
+   * With a store, the swap is stored while it executes and removed from the store once execute resolves.
+   * Swaps failing after their order was submitted, e.g. on an API error while tracking it, stay stored as
+   * they were before the failure so resumeSwaps can continue them, unless the order itself failed.
+   * Calling execute again returns the same execution.
+   * @returns The final snapshot of the swap
+   * @throws AoriError if the swap could not be stored
+   */
+  public execute(): Promise<SwapSnapshot> {
+    if (!this.execution) {
+      this.execution = this.run();
+    }
+    return this.execution;
+  }
+
+  private async run(): Promise<SwapSnapshot> {
+    try {
+      if (this.resumed) {
+        await this.resume();
+      } else {
+        await this.start();
+      }
+    } catch (error) {
+      // Waiting for the order times out at its endTime
+      if (error instanceof AoriTimeoutError && this.hasExpired()) {
+        await this.expire();
+      } else {
+        this.fail(error);
+      }
+    }
+
+    await this.release();
+    return this.getSnapshot();
+  }
+
+  private async start(): Promise<void> {
+    const { quote } = this.snapshot;
+    this.emit({ state: 'quoted', quote }, null);
+    this.save();
+
+    if (this.hasExpired()) {
+      this.transition({ state: 'expired', endTime: quote.endTime });
+      return;
+    }
+
+    await this.submit();
+  }
+
+  private async submit(): Promise<void> {
+    const result = await executeSwap(
+      this.snapshot.quote,
+      this.config,
+      this.baseUrl,
+      this.apiKey,
+      this.requestOptions,
+      { throwOnError: false, onStep: async (step) => await this.handleStep(step) }
+    );
+
+    if (result.outcome === 'approvalRequired') {
+      throw new AoriError("Approval required: send the approve transaction and execute the swap again");
+    }
+    if (result.outcome === 'failed') {
+      throw result.error;
+    }
+    if (result.depositTx) {
+      this.handleDeposit(result.depositTx);
+    }
+
+    await this.track();
+  }
+
+  /**
+   * Continues a stored swap: orders that were never submitted are submitted, native orders
+   * that were submitted but not deposited are deposited, and all other orders are tracked.
+   */
+  private async resume(): Promise<void> {
+    if (this.isFinished()) {
+      return;
+    }
+
+    const { quote, swap, state, depositTxHash } = this.snapshot;
+
+    // The order may have been submitted right before the swap was stopped
+    if (!swap && !(await this.fetchStatus())) {
+      if (this.hasExpired()) {
+        this.transition({ state: 'expired', endTime: quote.endTime });
+        return;
+      }
+      await this.submit();
+      return;
+    }
+
+    // The depositing state is only stored with the sent deposit's hash, so a submitted native swap has no deposit
+    if (state === 'submitted' && swap && isNativeSwapResponse(swap) && !depositTxHash) {
+      const status = await this.fetchStatus();
+      // A deposit sent right before the swap stopped may not be stored or indexed yet
+      if (status?.status === 'pending' && !this.hasExpired() && !(await this.hasSentSinceDeposit())) {
+        await this.deposit(swap);
+      }
+    }
+
+    await this.track();
+  }
+
+  /**
+   * Sends the deposit of a submitted native order
+   */
+  private async deposit(swap: NativeSwapResponse): Promise<void> {
+    if (this.config.type !== 'native') {
+      throw new AoriValidationError("Depositing a native swap requires a native swap config", { field: 'type' });
+    }
+    const { txExecutor, gasLimit, fees, monitor } = this.config;
+
+    const chainId = txExecutor.getChainId
+      ? (await getChain(this.snapshot.quote.inputChain, this.baseUrl, this.apiKey, this.requestOptions)).chainId
+      : undefined;
+
+    await this.recordDepositNonce();
+    this.handleDeposit(await executeNativeSwap(
+      swap,
+      txExecutor,
+      gasLimit,
+      chainId,
+      fees,
+      monitor,
+      async (txHash) => await this.handleStep({ step: 'depositing', swap, txHash })
+    ));
+  }
+
+  /**
+   * Stores the pending nonce of the native executor before the deposit is sent
+   */
+  private async recordDepositNonce(): Promise<void> {
+    if (this.config.type !== 'native' || !this.config.txExecutor.getNonce) {
+      return;
+    }
+    this.snapshot.depositNonce = await this.config.txExecutor.getNonce();
+    this.save();
+    await this.saving;
+  }
+
+  /**
+   * Returns true if the native executor sent a transaction since the deposit nonce was stored,
+   * which may be a deposit whose hash was never stored
+   */
+  private async hasSentSinceDeposit(): Promise<boolean> {
+    const { depositNonce } = this.snapshot;
+    if (depositNonce === undefined || this.config.type !== 'native' || !this.config.txExecutor.getNonce) {
+      return false;
+    }
+    return await this.config.txExecutor.getNonce() > depositNonce;
+  }
+
+  private handleDeposit(result: TransactionResponse): void {
+    if (!result.success) {
+      throw new AoriError(result.error ?? "Deposit transaction failed");
+    }
+    this.snapshot.depositTxHash = result.txHash;
+    this.save();
+  }
+
+  /**
+   * Moves an expired swap to the expired state, or cancels it if its deposit was received
+   */
+  private async expire(): Promise<void> {
+    const { cancelOnExpiry } = this.options;
+    if (!cancelOnExpiry || this.snapshot.state !== 'received') {
+      this.transition({ state: 'expired', endTime: this.snapshot.quote.endTime });
+      return;
+    }
+
+    try {
+      // The order may have settled since tracking stopped, so it is only cancelled while still received
+      const status = await this.fetchStatus();
+      if (status?.status !== 'received') {
+        if (status) {
+          this.handleStatus(status);
+        }
+        this.transition({ state: 'expired', endTime: this.snapshot.quote.endTime });
+        return;
+      }
+
+      const result = await cancelOrder(this.snapshot.orderHash, undefined, cancelOnExpiry, this.baseUrl, this.apiKey, this.requestOptions);
+      if (!result.success) {
+        throw new AoriError(result.error ?? "Cancel transaction failed");
+      }
+      this.handleStatus({ status: 'cancelled', timestamp: Math.floor(Date.now() / 1000) });
+    } catch (error) {
+      this.fail(withErrorContext(error, 'Failed to cancel expired order'));
+    }
+  }
+
+  /**
+   * Returns the order status, or undefined if the order was never submitted
+   */
+  private async fetchStatus(): Promise<OrderStatus | undefined> {
+    try {
+      return await getOrderStatus(this.snapshot.orderHash, this.baseUrl, this.apiKey, this.requestOptions);
+    } catch (error) {
+      if (error instanceof AoriApiError && error.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Follows the order status until the awaited state or a terminal status
+   */
+  private async track(): Promise<void> {
+    const { until = 'completed', pollInterval, maxPollInterval, subscribe, expiryGracePeriod = DEFAULT_EXPIRY_GRACE_PERIOD } = this.options;
+
+    const status = await waitForOrder(
+      this.snapshot.orderHash,
+      this.baseUrl,
+      {
+        until,
+        // Fills can be indexed shortly after the endTime
+        deadline: this.snapshot.quote.endTime + expiryGracePeriod,
+        pollInterval,
+        maxPollInterval,
+        subscribe,
+        onStatusChange: (status) => this.handleStatus(status)
+      },
+      this.apiKey,
+      this.requestOptions
+    );
+
+    this.handleStatus(status);
+  }
+
+  private async handleStep(step: SwapStep): Promise<void> {
+    if (step.step === 'submitted') {
+      this.snapshot.swap = step.swap;
+    }
+    if (step.step === 'depositing') {
+      this.snapshot.depositTxHash = step.txHash;
+    }
+
+    const { step: state, ...details } = step;
+    this.transition({ state, ...details } as SwapTransition);
+
+    if (step.step === 'submitted' && isNativeSwapResponse(step.swap)) {
+      await this.recordDepositNonce();
+    }
+    // The deposit's receipt is only awaited once its hash is stored, so a resumed swap never deposits twice
+    if (step.step === 'depositing') {
+      await this.saving;
+    }
+  }
+
+  private handleStatus(status: OrderStatus): void {
+    this.snapshot.status = status;
+
+    switch (status.status) {
+      case 'received':
+      case 'completed':
+      case 'cancelled':
+        this.transition({ state: status.status, status } as SwapTransition);
+        break;
+      case 'failed':
+        this.transition({ state: 'failed', error: new AoriError(status.error) });
+        break;
+    }
+  }
+
+  /**
+   * Moves the swap to the failed state. An order that was submitted can still be deposited, filled or
+   * cancelled, so the snapshot before the failure is kept in the store.
+   */
+  private fail(error: unknown): void {
+    if (!this.isFinished() && this.snapshot.swap) {
+      this.resumable = this.getSnapshot();
+    }
+    this.transition({ state: 'failed', error });
+  }
+
+  /**
+   * Moves the swap to a new state and notifies listeners. Repeated and out-of-order transitions are ignored.
+   */
+  private transition(event: SwapTransition): void {
+    const previousState = this.snapshot.state;
+    if (!TRANSITIONS[previousState].includes(event.state)) {
+      return;
+    }
+
+    this.snapshot.state = event.state;
+    this.snapshot.updatedAt = Date.now();
+    if (event.state === 'failed') {
+      this.snapshot.error = event.error instanceof Error ? event.error.message : String(event.error);
+    }
+
+    this.save();
+    this.emit(event, previousState);
+  }
+
+  /**
+   * Queues a write of the current snapshot to the store
+   */
+  private save(): void {
+    const { store } = this.options;
+    if (!store) {
+      return;
+    }
+
+    const snapshot = this.getSnapshot();
+    this.saving = this.saving
+      .then(() => store.set(snapshot))
+      .catch(error => {
+        this.storeError ??= error;
+      });
+  }
+
+  /**
+   * Waits for queued writes and removes the swap from the store once it has stopped executing,
+   * or stores the snapshot to resume if the swap failed while its order was live
+   */
+  private async release(): Promise<void> {
+    const { store } = this.options;
+    if (!store) {
+      return;
+    }
+
+    try {
+      await this.saving;
+      if (this.storeError) {
+        throw this.storeError;
+      }
+      if (this.resumable) {
+        await store.set(this.resumable);
+      } else {
+        await store.delete(this.snapshot.orderHash);
+      }
+    } catch (error) {
+      throw withErrorContext(error, `Failed to store swap ${this.snapshot.orderHash}`);
+    }
+  }
+
+  private emit(event: SwapTransition, previousState: SwapState | null): void {
+    const progress = {
+      ...event,
+      orderHash: this.snapshot.orderHash,
+      previousState,
+      timestamp: this.snapshot.updatedAt
+    } as SwapProgressEvent;
+
+    for (const listener of this.listeners) {
+      listener(progress);
+    }
+  }
+
+  private hasExpired(): boolean {
+    return Date.now() / 1000 > this.snapshot.quote.endTime;
+  }
+}
+
+/**
+ * Resumes the swaps of a store, e.g. after a restart. Each swap continues where it was stopped:
+ * orders that were never submitted are submitted, native orders whose deposit was never sent are
+ * deposited, and all other orders are tracked. The swaps are executing when returned; await execute()
+ * on a swap for its final snapshot.
+ * @param store The store the swaps were persisted to
+ * @param config Configuration of the swaps, or a function returning the configuration of each swap
+ * @param options Progress callback, the state to track the orders until, and polling configuration
+ * @param baseUrl The base URL of the API
+ * @param apiKey Optional API key for authentication
+ * @param requestOptions Optional parameters including AbortSignal
+ * @returns The resumed swaps
+ */
+export async function resumeSwaps(
+  store: SwapStore,
+  config: SwapConfig | ((snapshot: SwapSnapshot) => SwapConfig),
+  options: SwapOptions = {},
+  baseUrl: string = AORI_API,
+  apiKey?: string,
+  requestOptions: RequestOptions = {}
+): Promise<AoriSwap[]> {
+  let snapshots: SwapSnapshot[];
+  try {
+    snapshots = await store.list();
+  } catch (error) {
+    throw withErrorContext(error, 'Failed to load swaps');
+  }
+
+  return snapshots.map(snapshot => {
+    const swapConfig = typeof config === 'function' ? config(snapshot) : config;
+    const swap = AoriSwap.fromSnapshot(snapshot, swapConfig, { ...options, store }, baseUrl, apiKey, requestOptions);
+    // Store failures reject the execution, which the caller may never await
+    swap.execute().catch(() => undefined);
+    return swap;
+  });
+}
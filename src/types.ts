@@ -1,19 +1,67 @@
+import type { AoriSwapError } from './errors';
+
 
 
 //========================================================
 //          Quote Request and Response Interfaces
 //========================================================
 
-export interface QuoteRequest {
+export interface QuoteRequestBase extends SlippageProtection {
     offerer: string;
     recipient: string;
     inputToken: string;
     outputToken: string;
-    inputAmount: string | number | bigint;
     inputChain: string;
     outputChain: string;
 }
 
+// Quotes the output for an exact input amount
+export interface ExactInputQuoteRequest extends QuoteRequestBase {
+    inputAmount: string | number | bigint;
+    outputAmount?: undefined;
+}
+
+// Quotes the input needed for an exact output amount
+export interface ExactOutputQuoteRequest extends QuoteRequestBase {
+    outputAmount: string | number | bigint;
+    inputAmount?: undefined;
+    /** How the quote is found when the API can't quote exact outputs */
+    exactOutput?: ExactOutputOptions;
+}
+
+export type QuoteRequest = ExactInputQuoteRequest | ExactOutputQuoteRequest;
+
+/**
+ * Exact-output quotes are requested from the API first. If it doesn't support them, the SDK searches
+ * exact-input quotes for the input whose output lands within the tolerance above the requested output.
+ */
+export interface ExactOutputOptions {
+    /** How far the quoted output may exceed the requested output, in basis points. Default: 10 */
+    toleranceBps?: number;
+    /** Maximum number of exact-input quotes requested by the search. Default: 8 */
+    maxIterations?: number;
+    /**
+     * Input amount of the first exact-input quote. Default: the output of a quote for the requested output amount
+     * in the opposite direction. Required if that pair can't be quoted
+     */
+    initialInputAmount?: string | number | bigint;
+    /** 'auto' tries the API before searching, 'search' always searches. Default: 'auto' */
+    strategy?: 'auto' | 'search';
+}
+
+/**
+ * Minimum output of a quote, enforced client-side. Quotes below it are rejected with an AoriSlippageError.
+ * All amounts are in the output token's base units.
+ */
+export interface SlippageProtection {
+    /** Minimum output amount */
+    minOutputAmount?: string | number | bigint;
+    /** Maximum shortfall of the quoted output below referenceOutputAmount, in basis points */
+    maxSlippageBps?: number;
+    /** Expected output for the input amount at a reference price, e.g. from an oracle. Required with maxSlippageBps */
+    referenceOutputAmount?: string | number | bigint;
+}
+
 // Base interface for common quote response fields
 export interface QuoteResponseBase {
     orderHash: string;
@@ -50,6 +98,8 @@ export type QuoteResponse = ERC20QuoteResponse | NativeQuoteResponse;
 export interface SwapRequest {
     orderHash: string;
     signature: string;
+    /** Optional signed permit allowing the Aori contract to pull the input tokens without an approve transaction */
+    permit?: PermitSignature;
 }
 
 // Base interface for common swap response fields
@@ -84,39 +134,400 @@ export interface NativeSwapResponse extends SwapResponseBase {
 // Union type for swap responses - discriminated by presence of to/data/value fields
 export type SwapResponse = ERC20SwapResponse | NativeSwapResponse;
 
-// Enhanced swap response that may include transaction details for executed native deposits
+/**
+ * Swap response with the native deposit transaction, as previously returned by executeSwap
+ * @deprecated executeSwap returns a SwapExecutionResult, with the deposit as depositTx
+ */
 export type EnhancedSwapResponse = SwapResponse & {
     transaction?: TransactionResponse; // Present when native deposit was automatically executed
 };
 
+/**
+ * Result of executeSwap, discriminated by outcome
+ */
+export type SwapExecutionResult = SwapSubmittedResult | ApprovalRequiredResponse | SwapFailedResult;
+
+/**
+ * The order was submitted and, for native swaps, deposited
+ */
+export interface SwapSubmittedResult {
+    outcome: 'submitted';
+    orderHash: string;
+    swap: SwapResponse;
+    /** The native deposit transaction */
+    depositTx?: TransactionResponse;
+}
+
+/**
+ * The swap failed. The order and deposit are included if the swap got that far.
+ */
+export interface SwapFailedResult {
+    outcome: 'failed';
+    orderHash: string;
+    swap?: SwapResponse;
+    depositTx?: TransactionResponse;
+    error: AoriSwapError;
+}
+
 //========================================================
 //            Execute Swap Configuration Types
 //========================================================
 
 export interface ERC20SwapConfig {
     type: 'erc20';
-    signer: TypedDataSigner;
+    /** Wallet client that signs typed data, or a DigestSigner (local key, KMS, HSM, hardware wallet) */
+    signer: TypedDataSigner | DigestSigner;
     userAddress: string;
+    /** Optional allowance check before signing, approving the Aori contract for the input amount if needed */
+    approval?: ApprovalConfig;
+    /** Optional gasless approval: sign a permit and attach it to the submission instead of approving on-chain */
+    permit?: PermitConfig;
+    /** Rejects the quote before signing if its output is too low */
+    slippage?: SlippageProtection;
 }
 
 export interface TxExecutor {
+    /** Optional: the sending account. Required to replace a stuck transaction with a self-send */
+    address?: string;
     sendTransaction(request: TransactionRequest): Promise<{ hash: string; wait(): Promise<any> }>;
     estimateGas?(request: TransactionRequest): Promise<bigint>;
+    /** Optional: the chain the executor sends transactions on. If provided, it is checked before every transaction. */
+    getChainId?(): Promise<number>;
+    /** Optional: switches the executor to another chain when it is connected to the wrong one */
+    switchChain?(chainId: number): Promise<void>;
+    /** Optional: reads eth_feeHistory, required for percentile-based fee strategies */
+    getFeeHistory?(blockCount: number, rewardPercentiles: number[]): Promise<FeeHistory>;
+    /** Optional: the pending nonce of the sending account, required to replace stuck transactions */
+    getNonce?(): Promise<number>;
+    /** Optional: current EIP-1559 fees of the network, used to price replacements of stuck transactions */
+    getFeeData?(): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }>;
+}
+
+/**
+ * Transaction executor that can also perform read-only contract calls (eth_call)
+ */
+export interface ContractTxExecutor extends TxExecutor {
+    call(request: { to: string; data: string }): Promise<string>;
+}
+
+/**
+ * Configuration of the approval step of an ERC20 swap
+ */
+export interface ApprovalConfig {
+    /** Executor used to read the allowance and send the approve transaction */
+    txExecutor: ContractTxExecutor;
+    /**
+     * 'execute' sends the approve transaction and waits for it before signing the order.
+     * 'return' stops before signing and returns the approve transaction. Default: 'execute'
+     */
+    mode?: 'execute' | 'return';
+    /** Approve the exact input amount or the maximum uint256 amount. Default: 'exact' */
+    amount?: 'exact' | 'max';
+    /** Address to approve. Default: the Aori contract on the input chain */
+    spender?: string;
+    /** Optional gas limit override for the approve transaction */
+    gasLimit?: string;
+    /** Gas and fee settings of the approve transaction */
+    fees?: FeeStrategy;
+}
+
+/**
+ * Result of checking an ERC20 allowance. Amounts are in token base units.
+ */
+export interface AllowanceCheck {
+    token: string;
+    owner: string;
+    spender: string;
+    allowance: string;
+    required: string;
+    sufficient: boolean;
+    /** Transaction approving the required amount, present when the allowance is insufficient */
+    approveTx?: TransactionRequest;
+}
+
+/**
+ * Configuration of a gasless approval signed alongside an ERC20 order
+ * - 'eip2612': the token's own `permit`, for tokens implementing EIP-2612
+ * - 'permit2': a Uniswap Permit2 signature transfer. The token must already be approved for the Permit2 contract.
+ */
+export interface PermitConfig {
+    type: 'eip2612' | 'permit2';
+    /** Executor used to read the token's permit nonce, name and version, or its Permit2 allowance */
+    txExecutor: Pick<ContractTxExecutor, 'call'>;
+    /** Unix timestamp in seconds after which the permit is invalid. Default: the order's endTime */
+    deadline?: number;
+    /** Address allowed to pull the tokens. Default: the Aori contract on the input chain */
+    spender?: string;
+}
+
+/**
+ * Signed EIP-2612 permit
+ */
+export interface Eip2612PermitSignature {
+    type: 'eip2612';
+    token: string;
+    owner: string;
+    spender: string;
+    value: string;
+    nonce: string;
+    deadline: number;
+    signature: string;
+}
+
+/**
+ * Signed Permit2 signature transfer (PermitTransferFrom)
+ */
+export interface Permit2PermitSignature {
+    type: 'permit2';
+    token: string;
+    owner: string;
+    spender: string;
+    amount: string;
+    nonce: string;
+    deadline: number;
+    signature: string;
+}
+
+export type PermitSignature = Eip2612PermitSignature | Permit2PermitSignature;
+
+/**
+ * Parameters for building the EIP-712 typed data of a permit
+ */
+export type PermitTypedDataParams = {
+    chainId: number;
+    spender: string;
+    nonce: string | bigint;
+    deadline: number;
+} & (
+    | { type: 'eip2612'; tokenName: string; tokenVersion: string }
+    | { type: 'permit2' }
+);
+
+/**
+ * Returned by executeSwap with approval mode 'return' when the allowance is insufficient.
+ * The order is not signed or submitted; send the approve transaction and call executeSwap again.
+ */
+export interface ApprovalRequiredResponse {
+    outcome: 'approvalRequired';
+    approvalRequired: true;
+    orderHash: string;
+    allowance: AllowanceCheck;
+    approveTx: TransactionRequest;
 }
 
 export interface CancelTxExecutor extends TxExecutor {
-    address?: string; // Optional: caller's address for more accurate fee estimation
     call?(request: { to: string; data: string }): Promise<string>; // For contract read calls (quote function)
-    getChainId?(): Promise<number>; // Optional: get current chain ID for validation
 }
 
 export interface NativeSwapConfig {
     type: 'native';
     txExecutor: TxExecutor;
     gasLimit?: string;
+    /** Gas and fee settings of the deposit transaction */
+    fees?: FeeStrategy;
+    /** Replaces the deposit transaction if it stays pending too long */
+    monitor?: TransactionMonitorOptions;
+    /** Rejects the quote before submitting if its output is too low */
+    slippage?: SlippageProtection;
 }
 
-export type SwapConfig = ERC20SwapConfig | NativeSwapConfig;
+/**
+ * Smart contract wallet (Safe, ERC-4337 account) acting as the offerer.
+ * Signing and transaction submission go through the wallet's own flow: e.g. Safe message signing and
+ * Safe transactions, or EIP-1271 signatures and UserOperations sent to a bundler.
+ */
+export interface SmartAccountExecutor {
+    /** The smart account address, which must be the offerer of the order */
+    address: string;
+    /** Signs EIP-712 typed data with a signature the account validates through EIP-1271 */
+    signTypedData(params: SignTypedDataParams): Promise<string>;
+    /**
+     * Submits calls from the account as a UserOperation or Safe transaction
+     * @returns The operation hash (userOp hash or safeTxHash), which is not an on-chain transaction hash
+     */
+    sendCalls(calls: TransactionRequest[]): Promise<string>;
+    /** Waits until the operation is included on-chain */
+    waitForOperation(operationHash: string): Promise<SmartAccountOperationReceipt>;
+    /** Optional: the chain the account operates on. If provided, it is checked before signing and submitting. */
+    getChainId?(): Promise<number>;
+    /** Optional: switches the account to another chain when it is connected to the wrong one */
+    switchChain?(chainId: number): Promise<void>;
+}
+
+export interface SmartAccountOperationReceipt {
+    /** Hash of the transaction that included the operation, e.g. the bundle transaction */
+    transactionHash: string;
+    /** Whether the operation itself succeeded. A bundle can be mined while one of its operations reverts. */
+    success: boolean;
+}
+
+/**
+ * Swap config for smart account offerers, handling both ERC20 and native input tokens
+ */
+export interface SmartAccountSwapConfig {
+    type: 'smartAccount';
+    account: SmartAccountExecutor;
+    /** Rejects the quote before signing if its output is too low */
+    slippage?: SlippageProtection;
+}
+
+export type SwapConfig = ERC20SwapConfig | NativeSwapConfig | SmartAccountSwapConfig;
+
+/**
+ * Steps of executeSwap reported to its onStep callback
+ */
+export type SwapStep =
+    /** The allowance is insufficient and the approve transaction is being sent */
+    | { step: 'approving'; allowance: AllowanceCheck }
+    /** The order (and permit, if any) is being signed */
+    | { step: 'signing' }
+    /** The order was accepted by the API */
+    | { step: 'submitted'; swap: SwapResponse }
+    /** The native deposit was sent and is waiting to be mined. txHash is the operation hash for smart accounts */
+    | { step: 'depositing'; swap: NativeSwapResponse; txHash: string };
+
+/**
+ * Step of executeSwap in which a swap failed
+ */
+export type SwapExecutionStep = 'validating' | 'approving' | 'signing' | 'submitting' | 'depositing';
+
+/**
+ * Options of executeSwap
+ */
+export interface ExecuteSwapOptions {
+    /** Throw failures as an AoriSwapError instead of returning a failed result. Default: true */
+    throwOnError?: boolean;
+    /**
+     * Called when the swap enters the approval, signing, submission and deposit steps. A returned promise is
+     * awaited before the swap continues, e.g. to persist the deposit hash before waiting for the receipt.
+     */
+    onStep?: (step: SwapStep) => void | Promise<void>;
+    /** Cached chains by lowercase chain key. Chains not included are fetched from the API */
+    chains?: Record<string, ChainInfo>;
+    /** Cached domain info for EIP-712. If not provided, it is fetched from the API */
+    domain?: DomainInfo;
+    /** Verify the quote hashes before signing the order, as in signReadableOrder. Default: false */
+    verifyHashes?: boolean;
+}
+
+//========================================================
+//              Swap Lifecycle Interfaces
+//========================================================
+
+export type SwapState =
+    | 'quoted'
+    | 'approving'
+    | 'signing'
+    | 'submitted'
+    | 'depositing'
+    | 'received'
+    | 'completed'
+    | 'failed'
+    | 'cancelled'
+    | 'expired';
+
+/**
+ * Progress events of an AoriSwap, one per state it enters
+ */
+export type SwapProgressEvent = { orderHash: string; previousState: SwapState | null; timestamp: number } & (
+    | { state: 'quoted'; quote: QuoteResponse }
+    | { state: 'approving'; allowance: AllowanceCheck }
+    | { state: 'signing' }
+    | { state: 'submitted'; swap: SwapResponse }
+    /** The deposit was sent. txHash is the operation hash for smart accounts */
+    | { state: 'depositing'; swap: NativeSwapResponse; txHash: string }
+    /** The deposit was received on the input chain */
+    | { state: 'received'; status: Extract<OrderStatus, { status: 'received' }> }
+    /** The order was filled on the output chain */
+    | { state: 'completed'; status: Extract<OrderStatus, { status: 'completed' }> }
+    | { state: 'failed'; error: unknown }
+    | { state: 'cancelled'; status: Extract<OrderStatus, { status: 'cancelled' }> }
+    /** The order's endTime passed before it was completed */
+    | { state: 'expired'; endTime?: number }
+);
+
+/**
+ * Snapshot of an AoriSwap
+ */
+export interface SwapSnapshot {
+    state: SwapState;
+    quote: QuoteResponse;
+    orderHash: string;
+    /** The API response once the order is submitted */
+    swap?: SwapResponse;
+    /** Hash of the native deposit transaction, stored as soon as it is sent. For smart accounts, the operation hash until it is included. */
+    depositTxHash?: string;
+    /**
+     * Pending nonce of the native executor before the deposit was sent. A resumed swap without a deposit hash
+     * is only deposited if the executor's nonce hasn't moved past it.
+     */
+    depositNonce?: number;
+    /** The latest order status */
+    status?: OrderStatus;
+    /** Error message when the swap failed */
+    error?: string;
+    /** Unix timestamp in milliseconds of the last state change */
+    updatedAt: number;
+}
+
+/**
+ * Options of an AoriSwap
+ */
+export interface SwapOptions extends Pick<WaitForOrderOptions, 'pollInterval' | 'maxPollInterval' | 'subscribe'> {
+    /** State after which the swap stops tracking the order. Default: 'completed' */
+    until?: 'received' | 'completed';
+    /** Called for every state the swap enters */
+    onProgress?: (event: SwapProgressEvent) => void;
+    /** Persists the swap while it is executing, so it can be resumed with resumeSwaps if the process stops */
+    store?: SwapStore;
+    /** Cancels the order with this executor, refunding the deposit, if it expires after being received but before completion */
+    cancelOnExpiry?: CancelTxExecutor;
+    /** Seconds past the order's endTime to keep tracking it before it is considered expired. Default: 60 */
+    expiryGracePeriod?: number;
+}
+
+//========================================================
+//              Swap Storage Interfaces
+//========================================================
+
+/**
+ * Persists snapshots of executing swaps, keyed by orderHash
+ */
+export interface SwapStore {
+    get(orderHash: string): Promise<SwapSnapshot | undefined>;
+    set(snapshot: SwapSnapshot): Promise<void>;
+    delete(orderHash: string): Promise<void>;
+    list(): Promise<SwapSnapshot[]>;
+}
+
+/**
+ * Web Storage API, e.g. window.localStorage
+ */
+export interface WebStorage {
+    readonly length: number;
+    key(index: number): string | null;
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/**
+ * Asynchronous key-value storage such as IndexedDB wrappers, e.g. idb-keyval
+ */
+export interface KeyValueStorage {
+    get(key: string): Promise<unknown>;
+    set(key: string, value: unknown): Promise<void>;
+    del(key: string): Promise<void>;
+    keys(): Promise<unknown[]>;
+}
+
+/**
+ * File system functions used by the file swap store, e.g. fs.promises in Node.js
+ */
+export interface SwapFileSystem {
+    readFile(path: string, encoding: 'utf8'): Promise<string>;
+    writeFile(path: string, data: string): Promise<void>;
+}
 
 //========================================================
 //            Contract-Compliant Order Types
@@ -141,6 +552,8 @@ export interface CancelOrderResponse {
     isCrossChain: boolean;
     fee?: string; // LayerZero fee for cross-chain cancellations
     error?: string;
+    /** Hash of the first transaction sent, if it was replaced. txHash is the transaction that was mined. */
+    originalTxHash?: string;
 }
 
 export interface CancelTx {
@@ -161,15 +574,114 @@ export interface TransactionRequest {
     data: string;
     value: string;
     gasLimit?: string;
+    /** EIP-1559 fees in wei. If not set, the executor prices the transaction */
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    /** Set when replacing a pending transaction */
+    nonce?: number;
 }
 
 export interface TransactionResponse {
     success: boolean;
     txHash: string;
     error?: string;
+    /** Hash of the first transaction sent, if it was replaced. txHash is the transaction that was mined. */
+    originalTxHash?: string;
+    /** Smart account deposits: the userOp hash or safeTxHash. txHash is the transaction that included the operation. */
+    operationHash?: string;
 }
 
+//========================================================
+//                Fee Strategy Interfaces
+//========================================================
 
+/**
+ * Fee history of recent blocks, as returned by eth_feeHistory
+ */
+export interface FeeHistory {
+    /** Base fees of the sampled blocks, followed by the base fee of the next block */
+    baseFeePerGas: bigint[];
+    /** Priority fees paid at each requested percentile, per block */
+    reward?: bigint[][];
+}
+
+/**
+ * Gas limit and EIP-1559 fee settings of transactions sent by the SDK
+ */
+export interface ChainFeeStrategy {
+    /** Fixed max fee per gas in wei */
+    maxFeePerGas?: string;
+    /** Fixed max priority fee per gas in wei */
+    maxPriorityFeePerGas?: string;
+    /**
+     * Pays the given percentile (0-100) of the priority fees of recent blocks, e.g. 50 for the median.
+     * Requires an executor that implements getFeeHistory
+     */
+    priorityFeePercentile?: number;
+    /** Number of recent blocks sampled for the priority fee. Default: 10 */
+    feeHistoryBlocks?: number;
+    /** maxFeePerGas is the next base fee times this multiplier plus the priority fee, when not fixed. Default: 2 */
+    baseFeeMultiplier?: number;
+    /** Buffer added to gas estimates, in percent. Default: 20 */
+    gasBufferPercent?: number;
+    /** Gas limit used when gas estimation fails. Default: depends on the transaction */
+    fallbackGasLimit?: string;
+}
+
+/**
+ * Fee strategy with optional overrides per chain
+ */
+export interface FeeStrategy extends ChainFeeStrategy {
+    /** Overrides keyed by chain key, e.g. { base: { priorityFeePercentile: 25 } } */
+    chains?: Record<string, ChainFeeStrategy>;
+}
+
+//========================================================
+//              Transaction Monitor Interfaces
+//========================================================
+
+/**
+ * Options of the transaction monitor, which replaces transactions that stay pending past a deadline
+ */
+export interface TransactionMonitorOptions {
+    /** Time in milliseconds a transaction may stay pending before it is replaced */
+    timeout: number;
+    /**
+     * 'speedUp' rebroadcasts the transaction with bumped fees, 'cancel' replaces it with a zero-value self-send.
+     * Both reuse the nonce of the original transaction. Default: 'speedUp'
+     */
+    action?: 'speedUp' | 'cancel';
+    /** Fee increase of each replacement, in percent. Nodes require at least 10. Default: 15 */
+    feeBumpPercent?: number;
+    /** Maximum number of replacements before giving up with an AoriTimeoutError. Default: 3 */
+    maxReplacements?: number;
+    /** Called after a replacement transaction is sent */
+    onReplaced?: (replacement: TransactionReplacement) => void;
+}
+
+export interface TransactionReplacement {
+    /** Hash of the transaction being replaced */
+    previousHash: string;
+    /** Hash of the replacement transaction */
+    hash: string;
+    /** Number of replacements sent so far */
+    attempt: number;
+    action: 'speedUp' | 'cancel';
+}
+
+/**
+ * A mined transaction sent through the transaction monitor
+ */
+export interface MonitoredTransaction {
+    /** Hash of the transaction that was mined */
+    hash: string;
+    /** Hash of the first transaction sent */
+    originalHash: string;
+    /** True if a cancellation self-send was mined instead of the original transaction */
+    cancelled: boolean;
+    /** The receipt returned by the executor's wait(), in the shape of the wallet library */
+    receipt: unknown;
+}
 
 //========================================================
 //                Chain Info Interface
@@ -193,6 +705,25 @@ export interface DomainInfo {
     version: string;
 }
 
+/**
+ * Chain and domain parameters of the EIP-712 typed data of an order
+ */
+export interface OrderTypedDataParams {
+    srcEid: number;
+    dstEid: number;
+    chainId: number;
+    verifyingContract: `0x${string}`;
+    domainInfo: DomainInfo;
+}
+
+export interface SigningOptions {
+    /**
+     * Recompute the order hash and EIP-712 digest locally and refuse to sign if they don't match the
+     * orderHash and signingHash of the quote. Default: false
+     */
+    verifyHashes?: boolean;
+}
+
 //========================================================
 //                Token Info Interface
 //========================================================
@@ -215,6 +746,13 @@ export type OrderStatus =
     | { status: 'failed', error: string, timestamp: number }
     | { status: 'cancelled', timestamp: number };
 
+/** Computed client-side by pollOrderStatus with detectExpiry: the order's endTime passed before its deposit was received */
+export interface ExpiredOrderStatus {
+    status: 'expired';
+    endTime: number;
+    timestamp: number;
+}
+
 export interface OrderPendingStatus {
     status: "pending";
     orderHash: string;
@@ -403,33 +941,440 @@ export interface WSEvent {
  * Interface for wallet clients that can sign typed data (compatible with viem, ethers, etc.)
  */
 export interface TypedDataSigner {
-  signTypedData: (params: any) => Promise<string>;
+  signTypedData(params: SignTypedDataParams): Promise<string>;
 }
 
 /**
- * Interface for wallet clients that can sign messages (compatible with viem, ethers, etc.)
+ * Raw private key signer. Prefer a DigestSigner so the key never has to be loaded into memory.
  */
-export interface SignerType {
+export interface PrivateKeySigner {
     privateKey: string;
 }
 
+/**
+ * EIP-712 hashes of the typed data behind a digest. Signers that can't sign raw digests,
+ * like hardware wallets, sign these instead.
+ */
+export interface TypedDataHashes {
+    /** The final digest: keccak256("\x19\x01" || domainSeparator || structHash) */
+    digest: string;
+    domainSeparator: string;
+    structHash: string;
+}
+
+/**
+ * Signer for 32-byte digests, backed by a local key, a KMS, an HSM or a hardware wallet
+ */
+export interface DigestSigner {
+    /** Returns the address of the signing key */
+    getAddress(): Promise<string>;
+    /**
+     * Signs a digest
+     * @param digest The 32-byte digest as a hex string
+     * @param typedData The EIP-712 hashes of the digest, when it was computed from typed data
+     * @returns The 65-byte r || s || v signature as a hex string
+     */
+    signDigest(digest: string, typedData?: TypedDataHashes): Promise<string>;
+}
+
+/**
+ * Signer accepted by signOrder: a DigestSigner, or a raw private key
+ */
+export type SignerType = DigestSigner | PrivateKeySigner;
+
+/**
+ * Options of a KMS-backed signer (AWS KMS, GCP Cloud KMS, or any remote secp256k1 signer)
+ */
+export interface KmsSignerOptions {
+    /** The address of the KMS key, used to derive the recovery id of its signatures */
+    address: string;
+    /** Signs a digest with the remote key and returns the DER-encoded ECDSA signature */
+    sign(digest: Uint8Array): Promise<Uint8Array | string>;
+}
+
+/**
+ * Options of a signer backed by an HSM or signing service speaking the HTTP signer protocol:
+ * - POST {url}/sign with { address, digest, typedData? } returns { signature }
+ * - GET {url}/address returns { address }
+ */
+export interface HttpSignerOptions {
+    /** Base URL of the signing service */
+    url: string;
+    /** The address of the signing key. If not provided, it is fetched from the service */
+    address?: string;
+    /** Optional headers sent with every request, e.g. authorization */
+    headers?: Record<string, string>;
+    /** Optional request defaults for the signing service */
+    requestOptions?: RequestOptions;
+}
+
+/**
+ * Options of a hardware wallet signer. Hardware wallets sign the EIP-712 domain separator and
+ * struct hash rather than raw digests, e.g. Ledger's signEIP712HashedMessage.
+ */
+export interface HardwareWalletSignerOptions {
+    /** The address of the account on the device */
+    address: string;
+    /** Signs EIP-712 hashes on the device. v can be a number, a decimal string or a 0x-prefixed hex string. */
+    signTypedDataHashes(domainSeparator: string, structHash: string): Promise<{ v: number | string; r: string; s: string }>;
+}
+
 /**
  * Interface for WebSocket options
  */
 export interface WebSocketCallbacks {
     onMessage?: (event: WSEvent) => void;
+    /** Called every time a connection is established, including after a reconnect */
     onConnect?: () => void;
-    onDisconnect?: (event: CloseEvent) => void;
-    onError?: (error: Event) => void;
+    /** Called every time the connection drops, before any reconnect attempt */
+    onDisconnect?: (event: WebSocketCloseEvent) => void;
+    onError?: (error: WebSocketErrorEvent) => void;
+    /** Called whenever the connection state changes */
+    onStateChange?: (state: WebSocketConnectionState, previousState: WebSocketConnectionState) => void;
+    /** Called when a reconnect attempt is scheduled */
+    onReconnect?: (attempt: number, delay: number) => void;
+}
+
+/**
+ * Details of a closed WebSocket connection, independent of the WebSocket implementation
+ */
+export interface WebSocketCloseEvent {
+    /** Close code, e.g. 1006 for abnormal closure */
+    code: number;
+    /** Close reason sent by the server, if any */
+    reason: string;
+    /** Whether the connection was closed with a completed closing handshake */
+    wasClean: boolean;
+}
+
+/**
+ * Details of a WebSocket error, independent of the WebSocket implementation
+ */
+export interface WebSocketErrorEvent {
+    /** Event type, usually "error" */
+    type: string;
+    /** Error message, if the implementation provides one (e.g. the `ws` package) */
+    message?: string;
+    /** The underlying error or event reported by the implementation */
+    error: unknown;
+}
+
+/**
+ * Minimal WebSocket interface used by the SDK. Satisfied by the browser WebSocket,
+ * the `ws` package and edge runtime WebSockets.
+ */
+export interface WebSocketLike {
+    readonly readyState: number;
+    send(data: string): void;
+    close(code?: number, reason?: string): void;
+    // Event types differ between implementations, so handlers accept any event
+    onopen: ((event: any) => void) | null;
+    onmessage: ((event: any) => void) | null;
+    onclose: ((event: any) => void) | null;
+    onerror: ((event: any) => void) | null;
+}
+
+/**
+ * Constructor of a WebSocket implementation, e.g. `WebSocket` from the `ws` package
+ */
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+/**
+ * Connection state of a WebSocket subscription
+ */
+export type WebSocketConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * Reconnect strategy for dropped WebSocket connections
+ */
+export interface ReconnectOptions {
+    /** Maximum number of consecutive reconnect attempts. Default: Infinity */
+    maxAttempts?: number;
+    /** Maximum number of reconnect attempts before the first connection is established. Default: 0, connect() rejects when the first attempt fails */
+    maxConnectAttempts?: number;
+    /** Delay in milliseconds before the first reconnect attempt. Default: 1000 */
+    initialDelay?: number;
+    /** Maximum delay in milliseconds between reconnect attempts. Default: 30000 */
+    maxDelay?: number;
+    /** Backoff multiplier applied after each failed attempt. Default: 2 */
+    multiplier?: number;
+    /** Randomize reconnect delays (equal jitter). Default: true */
+    jitter?: boolean;
+    /** Decides if a closed connection should be re-established. Default: reconnect unless closed with 1008 (policy violation) */
+    shouldReconnect?: (event: WebSocketCloseEvent) => boolean;
+}
+
+/**
+ * Heartbeat used to detect dead WebSocket connections
+ */
+export interface HeartbeatOptions {
+    /** Interval in milliseconds between heartbeat messages. Default: 30000 */
+    interval?: number;
+    /** Time in milliseconds without any incoming message after which the connection is considered dead. Default: 2 * interval */
+    timeout?: number;
+    /** Optional message sent every interval to keep the connection alive and elicit a response */
+    message?: string;
+}
+
+/**
+ * Connection options for WebSocket subscriptions
+ */
+export interface WebSocketOptions {
+    /** Reconnect strategy, or false to disable reconnecting. Default: enabled */
+    reconnect?: ReconnectOptions | false;
+    /** Heartbeat configuration, or false to disable it. Default: disabled */
+    heartbeat?: HeartbeatOptions | false;
+    /** WebSocket implementation to use instead of the global WebSocket, e.g. the `ws` package in Node.js */
+    implementation?: WebSocketConstructor;
+    /** Backfill events missed while disconnected from the query API after each reconnect. Default: disabled */
+    backfill?: BackfillOptions | boolean;
+}
+
+/**
+ * Options for backfilling events missed during a WebSocket outage.
+ * Times are Unix timestamps in seconds, like event timestamps.
+ */
+export interface BackfillOptions {
+    /** Seconds before the last delivered event to search for orders that were created earlier but changed during the outage. Default: 3600 */
+    lookback?: number;
+    /** Number of orders fetched per query page. Default: 100 */
+    pageSize?: number;
+    /** Maximum number of query pages fetched per backfill. Default: 10 */
+    maxPages?: number;
+}
+
+/**
+ * What to do when a stream's buffer is full because events arrive faster than they are consumed
+ * - 'error': end the stream with an error once the buffered events are consumed
+ * - 'drop-oldest': discard the oldest buffered event
+ * - 'drop-newest': discard the incoming event
+ */
+export type StreamOverflowStrategy = 'error' | 'drop-oldest' | 'drop-newest';
+
+/**
+ * Options for consuming WebSocket events as an async iterator
+ */
+export interface StreamOptions {
+    /** Ends the stream and closes its subscription when aborted */
+    signal?: AbortSignal;
+    /** Maximum number of events buffered while the consumer is busy. Default: 1000 */
+    bufferSize?: number;
+    /** Behaviour when the buffer is full. Default: 'error' */
+    overflow?: StreamOverflowStrategy;
+    /** Throw an AoriNetworkError when the connection drops, even if it reconnects. Default: true */
+    failOnDisconnect?: boolean;
 }
 
 /**
  * Interface for polling order status options
  */
-export interface PollOrderStatusOptions {
-    onStatusChange?: (status: OrderStatus) => void;
-    onComplete?: (status: OrderStatus) => void;
+export interface PollOrderStatusOptions<TStatus extends { status: string } = OrderStatus> {
+    onStatusChange?: (status: TStatus) => void;
+    onComplete?: (status: TStatus) => void;
     onError?: (error: Error) => void;
+    /** Delay in milliseconds between polls, or before the first retry when backing off. Default: 500 */
     interval?: number;
     timeout?: number;
-}
\ No newline at end of file
+    /** Statuses that end polling. Default: ['completed', 'failed', 'cancelled'] */
+    terminalStates?: TStatus['status'][];
+    /** Multiplier applied to the interval after each poll. Default: 1 (fixed interval) */
+    backoffMultiplier?: number;
+    /** Maximum delay in milliseconds between polls when backing off. Default: 10000 */
+    maxInterval?: number;
+}
+
+/**
+ * Polling options that also end polling when a pending order passes its endTime, with an ExpiredOrderStatus
+ */
+export interface ExpiringPollOrderStatusOptions extends PollOrderStatusOptions<OrderStatus | ExpiredOrderStatus> {
+    detectExpiry: true;
+    /** The order's endTime (Unix timestamp in seconds). If omitted, it is read from the order details */
+    endTime?: number;
+}
+
+/**
+ * Options for waiting until an order reaches a status
+ */
+export interface WaitForOrderOptions {
+    /** Status to wait for. Waiting for 'received' also resolves once the order is completed. Default: 'completed' */
+    until?: 'received' | 'completed';
+    /** Unix timestamp in seconds after which waiting fails with an AoriTimeoutError. Default: the order's endTime */
+    deadline?: number;
+    /** Delay in milliseconds before the first status poll, doubled after every poll. Default: 1000 */
+    pollInterval?: number;
+    /** Maximum delay in milliseconds between status polls. Default: 15000 */
+    maxPollInterval?: number;
+    /** Called whenever the observed order status changes */
+    onStatusChange?: (status: OrderStatus) => void;
+    /**
+     * Subscribes to WebSocket events so status changes are noticed without waiting for the next poll.
+     * Provided automatically by Aori.waitForOrder. Without it, the order status is only polled.
+     */
+    subscribe?: (filter: SubscriptionParams, callbacks: WebSocketCallbacks) => { unsubscribe(): void };
+}
+//============================================
+//         HTTP Request Interfaces
+//=============================================
+
+/**
+ * Retry policy for requests to the Aori API
+ */
+export interface RetryOptions {
+    /** Maximum number of attempts, including the initial request. Default: 3 */
+    maxAttempts?: number;
+    /** Base delay in milliseconds for exponential backoff. Default: 250 */
+    baseDelay?: number;
+    /** Maximum delay in milliseconds between attempts, also caps Retry-After. Default: 10000 */
+    maxDelay?: number;
+    /** Randomize backoff delays (full jitter). Default: true */
+    jitter?: boolean;
+    /** HTTP status codes that are retried. Default: 408, 425, 429, 500, 502, 503, 504 */
+    retryOnStatus?: number[];
+    /** Retry requests that failed before a response was received. Default: true */
+    retryOnNetworkError?: boolean;
+    /** Also replay non-idempotent requests (POST /swap) on network and server errors. Default: false */
+    retryNonIdempotent?: boolean;
+    /** Called before each retry is scheduled */
+    onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Details of a failed attempt that is about to be retried
+ */
+export interface RetryAttempt {
+    /** The attempt that failed (1-based) */
+    attempt: number;
+    /** Delay in milliseconds before the next attempt */
+    delay: number;
+    method: string;
+    url: string;
+    /** HTTP status of the failed attempt, if a response was received */
+    status?: number;
+    /** Error thrown by the failed attempt, if no response was received */
+    error?: unknown;
+}
+
+/**
+ * Fetch-compatible function used to send HTTP requests (e.g. undici's fetch with a custom dispatcher)
+ */
+export type FetchLike = (input: URL | string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * HTTP request passed through the interceptor chain
+ */
+export interface HttpRequest {
+    method: string;
+    url: URL;
+    headers: Record<string, string>;
+    /** Serialized JSON body, if any */
+    body?: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * Middleware that can inspect or modify a request before calling `next`, and the response it returns.
+ * Interceptors run in registration order on every attempt, including retries.
+ */
+export type HttpInterceptor = (
+    request: HttpRequest,
+    next: (request: HttpRequest) => Promise<Response>
+) => Promise<Response>;
+
+/**
+ * Transport configuration for requests to the Aori API
+ */
+export interface TransportOptions {
+    /** Fetch implementation to use instead of the global fetch */
+    fetch?: FetchLike;
+    /** Interceptors applied to every request, in order */
+    interceptors?: HttpInterceptor[];
+}
+
+/**
+ * Per-request options accepted by all API functions
+ */
+export interface RequestOptions {
+    signal?: AbortSignal;
+    retry?: RetryOptions;
+    transport?: TransportOptions;
+}
+
+//============================================
+//         Wallet Adapter Interfaces
+//=============================================
+
+/**
+ * Parameters passed to TypedDataSigner.signTypedData
+ */
+export interface SignTypedDataParams {
+    account: string;
+    domain: Record<string, unknown>;
+    types: Record<string, readonly { name: string; type: string }[]>;
+    primaryType: string;
+    message: Record<string, unknown>;
+}
+
+/**
+ * Signer and executor created by the viem and ethers adapters. Can be used as the signer and
+ * txExecutor of swap, approval, permit and cancel configs.
+ */
+export interface WalletAdapter extends TypedDataSigner, ContractTxExecutor {
+    /** The address of the account */
+    address: string;
+    signTypedData(params: SignTypedDataParams): Promise<string>;
+    estimateGas(request: TransactionRequest): Promise<bigint>;
+    getChainId(): Promise<number>;
+}
+
+/**
+ * Read-only executor created by fromEthersProvider, for allowance, permit and signature checks
+ */
+export interface ReadOnlyExecutor {
+    call(request: { to: string; data: string }): Promise<string>;
+    estimateGas(request: TransactionRequest & { from?: string }): Promise<bigint>;
+    getChainId(): Promise<number>;
+}
+
+/**
+ * The subset of a viem WalletClient used by fromViemWalletClient. Parameters are typed as unknown so
+ * viem's generic signatures stay assignable, results are typed by what the adapter reads.
+ */
+export interface ViemWalletClientLike {
+    account?: { address: string };
+    chain?: { id: number };
+    getChainId(): Promise<number>;
+    signTypedData(params: unknown): Promise<string>;
+    sendTransaction(params: unknown): Promise<string>;
+    /** Available when the client is extended with publicActions */
+    call?(params: unknown): Promise<{ data?: string }>;
+    estimateGas?(params: unknown): Promise<bigint>;
+    waitForTransactionReceipt?(params: { hash: string }): Promise<unknown>;
+    getFeeHistory?(params: { blockCount: number; rewardPercentiles: number[] }): Promise<FeeHistory>;
+    getTransactionCount?(params: { address: string; blockTag: 'pending' }): Promise<number>;
+    estimateFeesPerGas?(): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }>;
+    switchChain?(params: { id: number }): Promise<void>;
+}
+
+/**
+ * The subset of a viem PublicClient used by fromViemWalletClient
+ */
+export interface ViemPublicClientLike {
+    call(params: unknown): Promise<{ data?: string }>;
+    estimateGas(params: unknown): Promise<bigint>;
+    waitForTransactionReceipt(params: { hash: string }): Promise<unknown>;
+    getFeeHistory?(params: { blockCount: number; rewardPercentiles: number[] }): Promise<FeeHistory>;
+    getTransactionCount?(params: { address: string; blockTag: 'pending' }): Promise<number>;
+    estimateFeesPerGas?(): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }>;
+}
+
+/**
+ * Options of fromViemWalletClient
+ */
+export interface ViemAdapterOptions {
+    /** Public client for calls, gas estimation and receipts, unless the wallet client is extended with publicActions */
+    publicClient?: ViemPublicClientLike;
+    /** Account address, if the wallet client has no account attached */
+    account?: string;
+    /** Switches the wallet to another chain, e.g. wagmi's switchChainAsync. Default: the wallet client's switchChain */
+    switchChain?: (chainId: number) => Promise<void>;
+}
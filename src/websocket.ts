@@ -0,0 +1,357 @@
+import { AoriError, AoriNetworkError } from './errors';
+import {
+  ReconnectOptions,
+  WebSocketCallbacks,
+  WebSocketCloseEvent,
+  WebSocketConnectionState,
+  WebSocketConstructor,
+  WebSocketErrorEvent,
+  WebSocketLike,
+  WebSocketOptions,
+  WSEvent
+} from './types';
+
+////////////////////////////////////////////////////////////////*/
+//                     RECONNECT DEFAULTS
+//////////////////////////////////////////////////////////////*/
+
+const DEFAULT_RECONNECT_INITIAL_DELAY = 1000;
+const DEFAULT_RECONNECT_MAX_DELAY = 30000;
+const DEFAULT_RECONNECT_MULTIPLIER = 2;
+const DEFAULT_HEARTBEAT_INTERVAL = 30000;
+
+// Close code used when the heartbeat detects a dead connection
+const HEARTBEAT_TIMEOUT_CODE = 4000;
+// Close code sent by servers that reject the connection (e.g. invalid API key)
+const POLICY_VIOLATION_CODE = 1008;
+
+// Standard readyState values, shared by all WebSocket implementations
+const CONNECTING = 0;
+const OPEN = 1;
+
+////////////////////////////////////////////////////////////////*/
+//                   AORI WEBSOCKET CONNECTION
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * A WebSocket connection to the Aori event stream that reconnects with backoff when it drops,
+ * detects dead connections with an optional heartbeat, and reports its state through callbacks.
+ * Uses the global WebSocket unless an implementation is passed in the options.
+ *
+ * @example
+ * const socket = new AoriWebSocket('wss://api.aori.io/stream?offerer=0x...', {
+ *   onMessage: (event) => console.log(event),
+ *   onStateChange: (state) => console.log('WebSocket', state)
+ * }, {
+ *   reconnect: { maxAttempts: 10 },
+ *   heartbeat: { interval: 15000 }
+ * });
+ * await socket.connect();
+ */
+export class AoriWebSocket {
+  private ws: WebSocketLike | null = null;
+  private state: WebSocketConnectionState = 'closed';
+  private attempt = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private idleTimer?: ReturnType<typeof setTimeout>;
+  private lastError?: WebSocketErrorEvent;
+  private closeError?: unknown;
+  private pendingConnect?: { resolve: () => void; reject: (error: unknown) => void };
+
+  /**
+   * Creates a new WebSocket connection manager. No connection is opened until connect() is called.
+   * @param url The full WebSocket URL, including query parameters
+   * @param callbacks Callbacks for events, connection changes and errors
+   * @param options Reconnect, heartbeat and WebSocket implementation configuration
+   */
+  constructor(
+    private readonly url: string,
+    private readonly callbacks: WebSocketCallbacks = {},
+    private readonly options: WebSocketOptions = {}
+  ) {}
+
+  /**
+   * Returns the current connection state
+   */
+  public getState(): WebSocketConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Returns the error that permanently closed the connection, if it was not closed by close()
+   */
+  public getCloseError(): unknown {
+    return this.closeError;
+  }
+
+  /**
+   * Opens the connection
+   * @returns Promise that resolves once the connection is established, or rejects if it is closed before that
+   */
+  public connect(): Promise<void> {
+    if (this.state !== 'closed') {
+      return Promise.reject(new AoriError(`WebSocket is already ${this.state}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pendingConnect = { resolve, reject };
+      this.attempt = 0;
+      this.closeError = undefined;
+      this.setState('connecting');
+      this.open();
+    });
+  }
+
+  /**
+   * Closes the connection and stops reconnecting
+   */
+  public close(): void {
+    clearTimeout(this.reconnectTimer);
+    this.teardown();
+    this.setState('closed');
+    this.rejectPending(new AoriError('WebSocket closed before the connection was established'));
+  }
+
+  private open(): void {
+    let ws: WebSocketLike;
+    try {
+      ws = new (resolveImplementation(this.options.implementation))(this.url);
+    } catch (error) {
+      // Invalid URLs or missing WebSocket support cannot be fixed by reconnecting
+      this.closeError = error;
+      this.setState('closed');
+      this.rejectPending(error);
+      return;
+    }
+
+    this.ws = ws;
+
+    ws.onopen = () => {
+      this.attempt = 0;
+      this.lastError = undefined;
+      this.setState('open');
+      this.startHeartbeat();
+      this.callbacks.onConnect?.();
+
+      this.pendingConnect?.resolve();
+      this.pendingConnect = undefined;
+    };
+
+    ws.onmessage = (event) => {
+      // Any incoming message proves the connection is alive
+      this.resetIdleTimer();
+
+      let wsEvent: WSEvent;
+      try {
+        wsEvent = JSON.parse(decodeMessage(event.data));
+      } catch (error) {
+        // Non-JSON frames are expected as heartbeat responses
+        if (!this.options.heartbeat) {
+          console.error('Failed to parse WebSocket message:', error);
+        }
+        return;
+      }
+
+      this.callbacks.onMessage?.(wsEvent);
+    };
+
+    ws.onclose = (event) => {
+      this.handleClose({
+        code: Number(event?.code ?? 1006),
+        reason: String(event?.reason ?? ''),
+        wasClean: Boolean(event?.wasClean)
+      });
+    };
+
+    ws.onerror = (event) => {
+      const error: WebSocketErrorEvent = {
+        type: typeof event?.type === 'string' ? event.type : 'error',
+        message: typeof event?.message === 'string' ? event.message : undefined,
+        error: event?.error ?? event
+      };
+      this.lastError = error;
+      this.callbacks.onError?.(error);
+    };
+  }
+
+  /**
+   * Handles a dropped connection by notifying callbacks and scheduling a reconnect if allowed
+   */
+  private handleClose(event: WebSocketCloseEvent): void {
+    this.teardown();
+    this.callbacks.onDisconnect?.(event);
+    // The disconnect callback may have closed the connection
+    if (this.state === 'closed') {
+      return;
+    }
+
+    const reconnect = this.options.reconnect === false ? undefined : this.options.reconnect ?? {};
+    // A connection that was never established is retried only maxConnectAttempts times, so connect()
+    // settles against an unreachable server
+    const maxAttempts = Math.min(
+      reconnect?.maxAttempts ?? Infinity,
+      this.pendingConnect ? reconnect?.maxConnectAttempts ?? 0 : Infinity
+    );
+    const shouldReconnect = reconnect !== undefined
+      && this.attempt < maxAttempts
+      && (reconnect.shouldReconnect ?? defaultShouldReconnect)(event);
+
+    if (!shouldReconnect) {
+      this.closeError = new AoriNetworkError(
+        `WebSocket connection closed (code ${event.code}${event.reason ? `: ${event.reason}` : ''})`,
+        { endpoint: 'WS /stream', cause: this.lastError ?? event }
+      );
+      this.setState('closed');
+      this.rejectPending(this.closeError);
+      return;
+    }
+
+    this.attempt++;
+    const delay = reconnectDelay(this.attempt, reconnect);
+
+    this.setState('reconnecting');
+    this.callbacks.onReconnect?.(this.attempt, delay);
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+
+  /**
+   * Starts sending heartbeat messages and watching for incoming traffic, if configured
+   */
+  private startHeartbeat(): void {
+    const heartbeat = this.options.heartbeat;
+    if (!heartbeat) {
+      return;
+    }
+
+    if (heartbeat.message !== undefined) {
+      const message = heartbeat.message;
+      this.heartbeatTimer = setInterval(() => {
+        if (this.ws?.readyState === OPEN) {
+          this.ws.send(message);
+        }
+      }, heartbeat.interval ?? DEFAULT_HEARTBEAT_INTERVAL);
+    }
+
+    this.resetIdleTimer();
+  }
+
+  /**
+   * Restarts the dead connection timer after incoming traffic
+   */
+  private resetIdleTimer(): void {
+    const heartbeat = this.options.heartbeat;
+    if (!heartbeat) {
+      return;
+    }
+
+    clearTimeout(this.idleTimer);
+    const timeout = heartbeat.timeout ?? 2 * (heartbeat.interval ?? DEFAULT_HEARTBEAT_INTERVAL);
+
+    this.idleTimer = setTimeout(() => {
+      // A dead connection may never complete the closing handshake, so don't wait for onclose
+      this.handleClose({
+        code: HEARTBEAT_TIMEOUT_CODE,
+        reason: 'Heartbeat timeout',
+        wasClean: false
+      });
+    }, timeout);
+  }
+
+  /**
+   * Stops timers and detaches from the current socket, closing it if still open
+   */
+  private teardown(): void {
+    clearInterval(this.heartbeatTimer);
+    clearTimeout(this.idleTimer);
+
+    if (this.ws) {
+      // Remove event listeners to prevent memory leaks
+      this.ws.onopen = null;
+      this.ws.onmessage = null;
+      this.ws.onclose = null;
+      this.ws.onerror = null;
+
+      // Close connection if still open
+      if (this.ws.readyState === OPEN || this.ws.readyState === CONNECTING) {
+        this.ws.close();
+      }
+
+      this.ws = null;
+    }
+  }
+
+  private setState(state: WebSocketConnectionState): void {
+    if (state === this.state) {
+      return;
+    }
+
+    const previousState = this.state;
+    this.state = state;
+    this.callbacks.onStateChange?.(state, previousState);
+  }
+
+  private rejectPending(error: unknown): void {
+    this.pendingConnect?.reject(error);
+    this.pendingConnect = undefined;
+  }
+}
+
+////////////////////////////////////////////////////////////////*/
+//                   WEBSOCKET IMPLEMENTATION
+//////////////////////////////////////////////////////////////*/
+
+/**
+ * Returns the configured WebSocket implementation, falling back to the global WebSocket
+ */
+function resolveImplementation(implementation?: WebSocketConstructor): WebSocketConstructor {
+  if (implementation) {
+    return implementation;
+  }
+
+  // Resolve the global lazily so it can be polyfilled (or mocked) after module load
+  const globalWebSocket = (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+  if (!globalWebSocket) {
+    throw new AoriError(
+      'No WebSocket implementation available. Pass one with the `websocket.implementation` option, e.g. `WebSocket` from the `ws` package'
+    );
+  }
+
+  return globalWebSocket;
+}
+
+/**
+ * Converts a message payload to text. Node implementations may deliver text frames as Buffers.
+ */
+function decodeMessage(data: unknown): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return new TextDecoder().decode(data);
+  }
+
+  return String(data);
+}
+
+////////////////////////////////////////////////////////////////*/
+//                      RECONNECT UTILITIES
+//////////////////////////////////////////////////////////////*/
+
+function defaultShouldReconnect(event: WebSocketCloseEvent): boolean {
+  return event.code !== POLICY_VIOLATION_CODE;
+}
+
+/**
+ * Computes the exponential backoff delay for a reconnect attempt, with equal jitter by default
+ */
+function reconnectDelay(attempt: number, reconnect: ReconnectOptions): number {
+  const initialDelay = reconnect.initialDelay ?? DEFAULT_RECONNECT_INITIAL_DELAY;
+  const maxDelay = reconnect.maxDelay ?? DEFAULT_RECONNECT_MAX_DELAY;
+  const multiplier = reconnect.multiplier ?? DEFAULT_RECONNECT_MULTIPLIER;
+  const delay = Math.min(maxDelay, initialDelay * multiplier ** (attempt - 1));
+
+  // Equal jitter keeps at least half of the delay so reconnects never fire back-to-back
+  return reconnect.jitter === false ? delay : Math.round(delay / 2 + Math.random() * delay / 2);
+}
@@ -3,6 +3,7 @@ import { setupServer } from 'msw/node'
 import { Aori } from '../../src/core';
 import { getChain, getAddress, getQuote } from '../../src/helpers';
 import { AORI_API } from '../../src/constants';
+import { AoriTimeoutError } from '../../src/errors';
 import '../setup';
 
 describe('Aori API Integration Tests', () => {
@@ -219,8 +220,9 @@ describe('Aori API Integration Tests', () => {
         outputChain: 'arbitrum'
       };
 
-      await expect(getQuote(quoteRequest, undefined, undefined, { signal: AbortSignal.timeout(100) }))
-        .rejects.toThrow('Quote request failed: TimeoutError: The operation was aborted due to timeout')
+      const error = await getQuote(quoteRequest, undefined, undefined, { signal: AbortSignal.timeout(100) }).catch(e => e);
+      expect(error).toBeInstanceOf(AoriTimeoutError);
+      expect(error.message).toBe('Quote request failed: POST /quote timed out: The operation was aborted due to timeout');
 
     })
 
@@ -0,0 +1,207 @@
+import { ethers } from 'ethers';
+import { fromEthersProvider, fromEthersSigner, fromViemWalletClient } from '../../src/adapters';
+import { computeOrderHash, computeSigningHash, recoverOrderSigner, signReadableOrder } from '../../src/helpers';
+import { AoriValidationError } from '../../src/errors';
+import { ChainInfo, ERC20QuoteResponse } from '../../src/types';
+
+const wallet = new ethers.Wallet('0x' + '01'.repeat(32));
+const inputChain: ChainInfo = { chainKey: 'base', chainId: 8453, eid: 30184, address: '0x1234567890123456789012345678901234567890' };
+const outputChain: ChainInfo = { chainKey: 'arbitrum', chainId: 42161, eid: 30110, address: '0x9876543210987654321098765432109876543210' };
+const domainInfo = { domainTypeString: '', name: 'Aori', orderTypeString: '', version: '0.3.1' };
+const typedDataParams = {
+  srcEid: inputChain.eid,
+  dstEid: outputChain.eid,
+  chainId: inputChain.chainId,
+  verifyingContract: inputChain.address as `0x${string}`,
+  domainInfo
+};
+
+const order = {
+  offerer: wallet.address,
+  recipient: wallet.address,
+  inputToken: '0x' + '22'.repeat(20),
+  outputToken: '0x' + '33'.repeat(20),
+  inputAmount: '1000',
+  outputAmount: '990',
+  inputChain: 'base',
+  outputChain: 'arbitrum',
+  startTime: 1,
+  endTime: 2,
+  estimatedTime: 10
+};
+const quote: ERC20QuoteResponse = { ...order, orderHash: '', signingHash: '' };
+quote.orderHash = computeOrderHash({ ...order, srcEid: typedDataParams.srcEid, dstEid: typedDataParams.dstEid });
+quote.signingHash = computeSigningHash(quote, typedDataParams);
+
+const request = { to: inputChain.address, data: '0xabcdef12', value: '1000', gasLimit: '21000' };
+
+describe('Wallet adapters', () => {
+  describe('fromViemWalletClient', () => {
+    const createClients = () => ({
+      walletClient: {
+        account: { address: wallet.address },
+        chain: { id: 8453 },
+        getChainId: jest.fn().mockResolvedValue(8453),
+        signTypedData: jest.fn().mockResolvedValue('0xsig'),
+        sendTransaction: jest.fn().mockResolvedValue('0xhash')
+      },
+      publicClient: {
+        call: jest.fn().mockResolvedValue({ data: '0x01' }),
+        estimateGas: jest.fn().mockResolvedValue(BigInt(50000)),
+        waitForTransactionReceipt: jest.fn().mockResolvedValue({ status: 'success' })
+      }
+    });
+
+    it('should send transactions through the wallet and read through the public client', async () => {
+      const { walletClient, publicClient } = createClients();
+      const adapter = fromViemWalletClient(walletClient, { publicClient });
+
+      const tx = await adapter.sendTransaction(request);
+      await expect(tx.wait()).resolves.toEqual({ status: 'success' });
+      await expect(adapter.call({ to: request.to, data: request.data })).resolves.toBe('0x01');
+      await expect(adapter.estimateGas(request)).resolves.toBe(BigInt(50000));
+      await expect(adapter.getChainId()).resolves.toBe(8453);
+
+      expect(adapter.address).toBe(wallet.address);
+      expect(walletClient.sendTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        to: request.to,
+        data: request.data,
+        value: BigInt(1000),
+        gas: BigInt(21000)
+      }));
+      expect(publicClient.waitForTransactionReceipt).toHaveBeenCalledWith({ hash: '0xhash' });
+    });
+
+    it('should pass typed data through to the wallet', async () => {
+      const { walletClient } = createClients();
+
+      await signReadableOrder(quote, fromViemWalletClient(walletClient), wallet.address, undefined, undefined, inputChain, outputChain, domainInfo);
+
+      expect(walletClient.signTypedData).toHaveBeenCalledWith(expect.objectContaining({
+        account: walletClient.account,
+        primaryType: 'Order',
+        types: expect.objectContaining({ EIP712Domain: expect.any(Array) })
+      }));
+    });
+
+    it('should switch chains through the wallet and stop pinning the old chain', async () => {
+      const { walletClient, publicClient } = createClients();
+      const switchChain = jest.fn().mockResolvedValue(undefined);
+      const adapter = fromViemWalletClient({ ...walletClient, switchChain }, { publicClient });
+
+      await adapter.switchChain!(42161);
+      await adapter.sendTransaction(request);
+
+      expect(switchChain).toHaveBeenCalledWith({ id: 42161 });
+      expect(walletClient.sendTransaction).toHaveBeenCalledWith(expect.objectContaining({ chain: null }));
+      expect(fromViemWalletClient(walletClient).switchChain).toBeUndefined();
+    });
+
+    it('should switch chains through a switchChain hook', async () => {
+      const { walletClient, publicClient } = createClients();
+      const walletSwitch = jest.fn();
+      const switchChain = jest.fn().mockResolvedValue(undefined);
+      const adapter = fromViemWalletClient({ ...walletClient, switchChain: walletSwitch }, { publicClient, switchChain });
+
+      await adapter.switchChain!(42161);
+      await adapter.sendTransaction(request);
+
+      expect(switchChain).toHaveBeenCalledWith(42161);
+      expect(walletSwitch).not.toHaveBeenCalled();
+      expect(walletClient.sendTransaction).toHaveBeenCalledWith(expect.objectContaining({ chain: null }));
+    });
+
+    it('should pass EIP-1559 fees to the wallet and read the fee history', async () => {
+      const { walletClient, publicClient } = createClients();
+      const getFeeHistory = jest.fn().mockResolvedValue({ baseFeePerGas: [BigInt(10)], reward: [[BigInt(1)]], oldestBlock: BigInt(1) });
+      const adapter = fromViemWalletClient(walletClient, { publicClient: { ...publicClient, getFeeHistory } });
+
+      await adapter.sendTransaction({ ...request, maxFeePerGas: '21', maxPriorityFeePerGas: '1' });
+
+      expect(walletClient.sendTransaction).toHaveBeenCalledWith(expect.objectContaining({ maxFeePerGas: BigInt(21), maxPriorityFeePerGas: BigInt(1) }));
+      await expect(adapter.getFeeHistory!(5, [50])).resolves.toEqual({ baseFeePerGas: [BigInt(10)], reward: [[BigInt(1)]] });
+      expect(getFeeHistory).toHaveBeenCalledWith({ blockCount: 5, rewardPercentiles: [50] });
+    });
+
+    it('should convert values exactly and reject values that would lose precision', async () => {
+      const { walletClient, publicClient } = createClients();
+      const adapter = fromViemWalletClient(walletClient, { publicClient });
+
+      await adapter.sendTransaction({ ...request, value: '1.234567890123456789e18' });
+      expect(walletClient.sendTransaction).toHaveBeenLastCalledWith(expect.objectContaining({ value: BigInt('1234567890123456789') }));
+
+      await expect(adapter.sendTransaction({ ...request, value: 1e18 as any })).rejects.toThrow(AoriValidationError);
+      await expect(adapter.sendTransaction({ ...request, value: '1.5e0' })).rejects.toThrow('value 1.5e0 is not an integer');
+      expect(walletClient.sendTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require an account and a client for reads', async () => {
+      const { walletClient } = createClients();
+
+      expect(() => fromViemWalletClient({ ...walletClient, account: undefined })).toThrow(AoriValidationError);
+      await expect(fromViemWalletClient(walletClient).call({ to: request.to, data: request.data }))
+        .rejects.toThrow('Wallet client does not support call');
+      await expect(fromViemWalletClient(walletClient).getNonce!())
+        .rejects.toThrow('Wallet client does not support getTransactionCount');
+    });
+  });
+
+  describe('fromEthersSigner', () => {
+    it('should sign order typed data that recovers to the offerer', async () => {
+      const { signature } = await signReadableOrder(
+        quote, fromEthersSigner(wallet), wallet.address, undefined, undefined, inputChain, outputChain, domainInfo
+      );
+
+      expect(recoverOrderSigner(quote, signature, typedDataParams)).toBe(wallet.address);
+    });
+
+    it('should send transactions and read through the connected provider', async () => {
+      const wait = jest.fn().mockResolvedValue({ status: 1 });
+      const signer = {
+        provider: { getNetwork: jest.fn().mockResolvedValue({ chainId: BigInt(8453) }) },
+        sendTransaction: jest.fn().mockResolvedValue({ hash: '0xhash', wait }),
+        estimateGas: jest.fn().mockResolvedValue(BigInt(50000)),
+        call: jest.fn().mockResolvedValue('0x01')
+      } as unknown as ethers.Signer;
+      const adapter = fromEthersSigner(signer, wallet.address);
+
+      const tx = await adapter.sendTransaction(request);
+      await expect(tx.wait()).resolves.toEqual({ status: 1 });
+      await expect(adapter.call({ to: request.to, data: request.data })).resolves.toBe('0x01');
+      await expect(adapter.getChainId()).resolves.toBe(8453);
+
+      expect(signer.sendTransaction).toHaveBeenCalledWith({
+        to: request.to,
+        data: request.data,
+        value: BigInt(1000),
+        gasLimit: BigInt(21000)
+      });
+      expect(() => fromEthersSigner({} as ethers.Signer)).toThrow(AoriValidationError);
+    });
+
+    it('should read the fee history through a JSON-RPC provider', async () => {
+      const send = jest.fn().mockResolvedValue({ baseFeePerGas: ['0xa', '0xb'], reward: [['0x1']] });
+      const signer = { provider: { send } } as unknown as ethers.Signer;
+
+      await expect(fromEthersSigner(signer, wallet.address).getFeeHistory!(1, [50]))
+        .resolves.toEqual({ baseFeePerGas: [BigInt(10), BigInt(11)], reward: [[BigInt(1)]] });
+      expect(send).toHaveBeenCalledWith('eth_feeHistory', ['0x1', 'latest', [50]]);
+    });
+  });
+
+  describe('fromEthersProvider', () => {
+    it('should perform read-only calls', async () => {
+      const provider = {
+        getNetwork: jest.fn().mockResolvedValue({ chainId: BigInt(42161) }),
+        call: jest.fn().mockResolvedValue('0x01'),
+        estimateGas: jest.fn().mockResolvedValue(BigInt(21000))
+      } as unknown as ethers.Provider;
+      const executor = fromEthersProvider(provider);
+
+      await expect(executor.call({ to: request.to, data: request.data })).resolves.toBe('0x01');
+      await expect(executor.estimateGas({ ...request, from: wallet.address })).resolves.toBe(BigInt(21000));
+      await expect(executor.getChainId()).resolves.toBe(42161);
+      expect(provider.call).toHaveBeenCalledWith({ to: request.to, data: request.data });
+    });
+  });
+});
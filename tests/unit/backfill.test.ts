@@ -0,0 +1,139 @@
+import { SubscriptionManager } from '../../src/subscriptions';
+import { MissedEventsFetcher } from '../../src/backfill';
+import { WSEvent } from '../../src/types';
+
+class FakeWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send() {}
+
+  close = jest.fn(() => {
+    this.readyState = FakeWebSocket.CLOSED;
+  });
+
+  // Test helpers
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.({});
+  }
+
+  message(data: unknown) {
+    this.onmessage?.({ data: JSON.stringify(data) });
+  }
+
+  drop(code = 1006, reason = '') {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason, wasClean: false });
+  }
+}
+
+const event = (orderHash: string, eventType: string, timestamp: number) =>
+  ({ eventType, timestamp, order: { orderHash } }) as unknown as WSEvent;
+
+describe('Event backfill', () => {
+  const latest = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    (global as any).WebSocket = FakeWebSocket;
+  });
+
+  afterEach(() => {
+    delete (global as any).WebSocket;
+  });
+
+  const reconnect = () => {
+    latest().drop();
+    // Reconnect attempts use real timers with a zero delay
+    return new Promise(resolve => setTimeout(resolve, 0)).then(() => latest().open());
+  };
+
+  it('should backfill missed events after a reconnect and deduplicate live events', async () => {
+    let resolveMissed!: (events: WSEvent[]) => void;
+    const fetchMissed = jest.fn<ReturnType<MissedEventsFetcher>, Parameters<MissedEventsFetcher>>(
+      () => new Promise(resolve => { resolveMissed = resolve; })
+    );
+    const manager = new SubscriptionManager(() => 'wss://api.aori.io/stream', {
+      reconnect: { initialDelay: 0, jitter: false },
+      backfill: { lookback: 60 }
+    }, fetchMissed);
+
+    // Event timestamps are ahead of the connection time, which is the backfill start before any event
+    const now = Math.floor(Date.now() / 1000);
+    const received: string[] = [];
+    manager.subscribe({ offerer: '0xabc' }, {
+      onMessage: (wsEvent) => received.push(`${wsEvent.order.orderHash}:${wsEvent.eventType}`)
+    });
+
+    latest().open();
+    latest().message(event('0x1', 'created', now + 5));
+    await reconnect();
+
+    expect(fetchMissed).toHaveBeenCalledWith({ offerer: '0xabc' }, now + 5, { lookback: 60 });
+
+    // Live events are held back until the backfill completes
+    latest().message(event('0x2', 'received', now + 20));
+    latest().message(event('0x3', 'created', now + 30));
+    expect(received).toEqual(['0x1:created']);
+
+    resolveMissed([event('0x1', 'created', now + 5), event('0x2', 'created', now + 10), event('0x2', 'received', now + 20)]);
+    await flush();
+
+    expect(received).toEqual(['0x1:created', '0x2:created', '0x2:received', '0x3:created']);
+
+    // Live delivery resumes once the backfill is done
+    latest().message(event('0x3', 'completed', now + 40));
+    expect(received).toHaveLength(5);
+  });
+
+  it('should report backfill failures and release held events', async () => {
+    const fetchMissed = jest.fn().mockRejectedValue(new Error('Service Unavailable'));
+    const manager = new SubscriptionManager(() => 'wss://api.aori.io/stream', {
+      reconnect: { initialDelay: 0, jitter: false },
+      backfill: true
+    }, fetchMissed);
+
+    const onMessage = jest.fn();
+    const onError = jest.fn();
+    manager.subscribe({}, { onMessage, onError });
+
+    latest().open();
+    await reconnect();
+    latest().message(event('0x1', 'created', 1000));
+    await flush();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'backfill',
+      message: 'Failed to backfill missed events: Service Unavailable'
+    }));
+    expect(onMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not backfill unless enabled', async () => {
+    const fetchMissed = jest.fn();
+    const manager = new SubscriptionManager(() => 'wss://api.aori.io/stream', {
+      reconnect: { initialDelay: 0, jitter: false }
+    }, fetchMissed);
+
+    manager.subscribe({});
+    latest().open();
+    await reconnect();
+
+    expect(fetchMissed).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,8 @@
 import { http, HttpResponse } from 'msw'
 import { setupServer } from 'msw/node'
 import { Aori } from '../../src/core';
-import { ChainInfo } from '../../src/types';
+import { computeOrderHash, computeSigningHash } from '../../src/helpers';
+import { ChainInfo, DomainInfo } from '../../src/types';
 
 
 describe('Aori Class', () => {
@@ -72,6 +73,35 @@ describe('Aori Class', () => {
       expect(aori.apiBaseUrl).toBe(customBaseUrl);
       expect(aori.wsBaseUrl).toBe('wss://custom-ws.example.com');
     });
+
+
+    it('should apply the transport to all requests made by the instance', async () => {
+      const seen: string[] = [];
+      const aori = await Aori.create({
+        transport: {
+          interceptors: [
+            async (request, next) => {
+              seen.push(request.url.pathname);
+              request.headers['x-client'] = 'test';
+              return await next(request);
+            }
+          ]
+        }
+      });
+
+      let clientHeader;
+      server.use(
+        http.get('https://api.aori.io/data/status/0x123', (req) => {
+          clientHeader = req.request.headers.get('x-client');
+          return HttpResponse.json({ status: 'pending', timestamp: 1234567890 })
+        })
+      )
+
+      await aori.getOrderStatus('0x123');
+
+      expect(seen.sort()).toEqual(['/chains', '/data/status/0x123', '/domain']);
+      expect(clientHeader).toBe('test');
+    });
   });
 
   describe('getChain', () => {
@@ -177,6 +207,66 @@ describe('Aori Class', () => {
     });
   });
 
+  describe('executeSwap', () => {
+    const domain: DomainInfo = { domainTypeString: '', name: 'Aori', orderTypeString: '', version: '0.3.1' };
+    const order = {
+      offerer: '0x' + '11'.repeat(20),
+      recipient: '0x' + '11'.repeat(20),
+      inputToken: '0x' + '22'.repeat(20),
+      outputToken: '0x' + '33'.repeat(20),
+      inputAmount: '1000',
+      outputAmount: '990',
+      inputChain: 'base',
+      outputChain: 'arbitrum',
+      startTime: 1,
+      endTime: 2,
+      estimatedTime: 10
+    };
+    const orderHash = computeOrderHash({ ...order, srcEid: mockChains[0].eid, dstEid: mockChains[1].eid });
+    const quote = {
+      ...order,
+      orderHash,
+      signingHash: computeSigningHash({ ...order, orderHash }, {
+        srcEid: mockChains[0].eid,
+        dstEid: mockChains[1].eid,
+        chainId: mockChains[0].chainId,
+        verifyingContract: mockChains[0].address as `0x${string}`,
+        domainInfo: domain
+      })
+    };
+
+    it('should send every request of a swap through the transport', async () => {
+      const responses: Record<string, unknown> = {
+        '/chains': mockChains,
+        '/domain': domain,
+        '/swap': { ...quote, status: 'pending', createdAt: 1 }
+      };
+      const requested: string[] = [];
+      const transportFetch = jest.fn(async (url: string | URL) => {
+        const { pathname } = new URL(url);
+        requested.push(pathname);
+        return new Response(JSON.stringify(responses[pathname]), { status: 200 });
+      });
+      const globalFetch = jest.spyOn(globalThis, 'fetch');
+
+      try {
+        const aori = await Aori.create({ transport: { fetch: transportFetch } });
+        const result = await aori.executeSwap(quote, {
+          type: 'erc20',
+          signer: { signTypedData: jest.fn().mockResolvedValue('0xsig') },
+          userAddress: quote.offerer
+        });
+
+        expect(result).toMatchObject({ outcome: 'submitted', orderHash });
+        // Chains and domain are fetched once when the instance is created
+        expect(requested.sort()).toEqual(['/chains', '/domain', '/swap']);
+        expect(globalFetch).not.toHaveBeenCalled();
+      } finally {
+        globalFetch.mockRestore();
+      }
+    });
+  });
+
   describe('WebSocket functionality', () => {
     let aori: Aori;
 
@@ -0,0 +1,117 @@
+import { applyFeeStrategy, estimateFees, estimateGasLimit, resolveFeeStrategy } from '../../src/fees';
+import { cancelOrder, executeNativeSwap } from '../../src/helpers';
+import { AoriValidationError } from '../../src/errors';
+import { NATIVE_TOKEN_ADDRESS } from '../../src/constants';
+
+const request = { to: '0x1234567890123456789012345678901234567890', data: '0xabcdef12', value: '1000' };
+
+// Three blocks paying 1, 2 and 3 gwei at the requested percentile, with a next base fee of 10 gwei
+const gwei = (value: number) => BigInt(value) * BigInt(1e9);
+const feeHistory = {
+  baseFeePerGas: [gwei(8), gwei(9), gwei(9), gwei(10)],
+  reward: [[gwei(1)], [gwei(2)], [gwei(3)]]
+};
+
+describe('Fee strategy', () => {
+  it('should apply per-chain overrides', () => {
+    const strategy = { gasBufferPercent: 20, priorityFeePercentile: 50, chains: { base: { gasBufferPercent: 50 } } };
+
+    expect(resolveFeeStrategy(strategy, 'Base')).toEqual({ gasBufferPercent: 50, priorityFeePercentile: 50 });
+    expect(resolveFeeStrategy(strategy, 'arbitrum')).toEqual({ gasBufferPercent: 20, priorityFeePercentile: 50 });
+  });
+
+  it('should buffer gas estimates and fall back when estimation fails', async () => {
+    const estimateGas = jest.fn().mockResolvedValue(BigInt(100000));
+
+    await expect(estimateGasLimit(request, { estimateGas })).resolves.toBe('120000');
+    await expect(estimateGasLimit(request, { estimateGas }, { gasBufferPercent: 35 })).resolves.toBe('135000');
+    await expect(estimateGasLimit(request, { estimateGas: jest.fn().mockRejectedValue(new Error('revert')) }, {}, '200000'))
+      .resolves.toBe('200000');
+    await expect(estimateGasLimit(request, { estimateGas: jest.fn().mockRejectedValue(new Error('revert')) }, { fallbackGasLimit: '300000' }, '200000'))
+      .resolves.toBe('300000');
+    await expect(estimateGasLimit(request, {})).resolves.toBeUndefined();
+  });
+
+  it('should derive EIP-1559 fees from a priority fee percentile', async () => {
+    const getFeeHistory = jest.fn().mockResolvedValue(feeHistory);
+
+    const fees = await estimateFees({ getFeeHistory }, { priorityFeePercentile: 60, feeHistoryBlocks: 3 });
+
+    expect(getFeeHistory).toHaveBeenCalledWith(3, [60]);
+    expect(fees).toEqual({
+      maxPriorityFeePerGas: gwei(2).toString(),
+      maxFeePerGas: (gwei(10) * BigInt(2) + gwei(2)).toString()
+    });
+  });
+
+  it('should use fixed fees and cap the priority fee at the max fee', async () => {
+    const getFeeHistory = jest.fn().mockResolvedValue(feeHistory);
+
+    await expect(estimateFees({ getFeeHistory }, { maxFeePerGas: '5', maxPriorityFeePerGas: '2' }))
+      .resolves.toEqual({ maxFeePerGas: '5', maxPriorityFeePerGas: '2' });
+    await expect(estimateFees({ getFeeHistory }, { maxFeePerGas: gwei(1).toString(), priorityFeePercentile: 50 }))
+      .resolves.toEqual({ maxFeePerGas: gwei(1).toString(), maxPriorityFeePerGas: gwei(1).toString() });
+    await expect(estimateFees({ getFeeHistory }, {})).resolves.toEqual({});
+    expect(getFeeHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require fee history for percentile-based fees', async () => {
+    await expect(estimateFees({}, { priorityFeePercentile: 50 })).rejects.toThrow(AoriValidationError);
+    await expect(estimateFees({}, { priorityFeePercentile: 150 })).rejects.toThrow('priorityFeePercentile must be between 0 and 100');
+  });
+
+  it('should keep an explicit gas limit', async () => {
+    const estimateGas = jest.fn();
+
+    await expect(applyFeeStrategy({ ...request, gasLimit: '50000' }, { estimateGas }, { maxPriorityFeePerGas: '1' }))
+      .resolves.toEqual({ ...request, gasLimit: '50000', maxPriorityFeePerGas: '1' });
+    expect(estimateGas).not.toHaveBeenCalled();
+  });
+
+  it('should apply the strategy to native deposits and cancellations', async () => {
+    const createExecutor = () => ({
+      estimateGas: jest.fn().mockResolvedValue(BigInt(100000)),
+      getFeeHistory: jest.fn().mockResolvedValue(feeHistory),
+      sendTransaction: jest.fn().mockResolvedValue({ hash: '0xhash', wait: jest.fn().mockResolvedValue({}) })
+    });
+    const fees = { priorityFeePercentile: 50, chains: { arbitrum: { gasBufferPercent: 50, baseFeeMultiplier: 1 } } };
+    const nativeResponse = {
+      orderHash: '0x' + '12'.repeat(32),
+      offerer: '0x' + '55'.repeat(20),
+      recipient: '0x' + '55'.repeat(20),
+      inputToken: NATIVE_TOKEN_ADDRESS,
+      outputToken: '0x' + '33'.repeat(20),
+      inputAmount: '1000',
+      outputAmount: '990',
+      inputChain: 'base',
+      outputChain: 'arbitrum',
+      startTime: 1,
+      endTime: 2,
+      status: 'pending',
+      createdAt: 1,
+      ...request
+    };
+
+    const depositExecutor = createExecutor();
+    await executeNativeSwap(nativeResponse, depositExecutor, undefined, undefined, fees);
+
+    expect(depositExecutor.sendTransaction).toHaveBeenCalledWith({
+      ...request,
+      gasLimit: '120000',
+      maxPriorityFeePerGas: gwei(2).toString(),
+      maxFeePerGas: gwei(22).toString()
+    });
+
+    const cancelExecutor = createExecutor();
+    const cancelTx = { orderHash: nativeResponse.orderHash, ...request, value: '0', chain: 'arbitrum' };
+    await cancelOrder(undefined, cancelTx, cancelExecutor, undefined, undefined, {}, undefined, fees);
+
+    expect(cancelExecutor.sendTransaction).toHaveBeenCalledWith({
+      ...request,
+      value: '0',
+      gasLimit: '150000',
+      maxPriorityFeePerGas: gwei(2).toString(),
+      maxFeePerGas: gwei(12).toString()
+    });
+  });
+});
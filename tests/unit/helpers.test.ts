@@ -1,7 +1,10 @@
 import { http, HttpResponse } from 'msw'
 import { setupServer } from 'msw/node'
-import { getChain, getAddress, fetchAllChains } from '../../src/helpers';
-import { ChainInfo } from '../../src/types';
+import { ethers } from 'ethers';
+import { getChain, getAddress, fetchAllChains, submitSwap, getQuote, getMissedEvents, waitForOrder, pollOrderStatus, checkAllowance, executeSwap, isApprovalRequired, signPermit, computeOrderHash, computeSigningHash, verifyQuoteHashes, signReadableOrder, signOrder, recoverOrderSigner, verifyOrderSignature, ensureChain, executeNativeSwap, cancelOrder, getMinOutputAmount } from '../../src/helpers';
+import { ChainInfo, ERC20QuoteResponse } from '../../src/types';
+import { AoriApiError, AoriChainMismatchError, AoriError, AoriNetworkError, AoriSlippageError, AoriSwapError, AoriTimeoutError, AoriValidationError } from '../../src/errors';
+import { NATIVE_TOKEN_ADDRESS, PERMIT2_ADDRESS } from '../../src/constants';
 
 
 describe('Chain Helper Functions', () => {
@@ -26,6 +29,23 @@ describe('Chain Helper Functions', () => {
     }
   ];
 
+  const domainInfo = { domainTypeString: '', name: 'Aori', orderTypeString: '', version: '0.3.1' };
+  const typedDataParams = {
+    srcEid: mockChains[0].eid,
+    dstEid: mockChains[1].eid,
+    chainId: mockChains[0].chainId,
+    verifyingContract: mockChains[0].address as `0x${string}`,
+    domainInfo
+  };
+
+  // Fills in the hashes the API returns for a base -> arbitrum order
+  const withHashes = (order: Omit<ERC20QuoteResponse, 'orderHash' | 'signingHash'>): ERC20QuoteResponse => {
+    const quote = { ...order, orderHash: '', signingHash: '' };
+    quote.orderHash = computeOrderHash({ ...order, srcEid: typedDataParams.srcEid, dstEid: typedDataParams.dstEid });
+    quote.signingHash = computeSigningHash(quote, typedDataParams);
+    return quote;
+  };
+
   const handlers = [
     http.get('https://api.aori.io/chains', () => {
       return HttpResponse.json(mockChains)
@@ -65,7 +85,10 @@ describe('Chain Helper Functions', () => {
 
     it('should handle API errors gracefully', async () => {
       const fetchSpy = jest.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('Network error'));
-      await expect(fetchAllChains()).rejects.toThrow('Failed to fetch chains: Error: Network error');
+      const error = await fetchAllChains().catch(e => e);
+      expect(error).toBeInstanceOf(AoriNetworkError);
+      expect(error.message).toBe('Failed to fetch chains: GET /chains request failed: Network error');
+      expect(error.endpoint).toBe('GET /chains');
       fetchSpy.mockRestore();
     });
   });
@@ -100,6 +123,10 @@ describe('Chain Helper Functions', () => {
       );
     });
 
+    it('should throw a validation error for non-existent chain', async () => {
+      await expect(getChain('nonexistent')).rejects.toBeInstanceOf(AoriValidationError);
+    });
+
     it('should throw error for non-existent chainId', async () => {
       await expect(getChain(99999)).rejects.toThrow(
         'Chain not found for identifier: 99999'
@@ -127,4 +154,1430 @@ describe('Chain Helper Functions', () => {
       expect(result).toMatch(/^0x[a-fA-F0-9]{40}$/);
     });
   });
-}); 
\ No newline at end of file
+  describe('Retry policy', () => {
+    const swapResponse = {
+      orderHash: '0x1234567890123456789012345678901234567890123456789012345678901234',
+      offerer: '0x123',
+      recipient: '0x456',
+      inputToken: '0x789',
+      outputToken: '0xabc',
+      inputAmount: '1000000',
+      outputAmount: '950000',
+      inputChain: 'base',
+      outputChain: 'arbitrum',
+      startTime: 1234567890,
+      endTime: 1234567990,
+      status: 'pending',
+      createdAt: 1234567890
+    };
+
+    it('should not retry without a retry policy', async () => {
+      let calls = 0;
+      server.use(
+        http.get('https://api.aori.io/chains', () => {
+          calls++;
+          return HttpResponse.json({ error: 'Bad Gateway' }, { status: 502 })
+        })
+      )
+
+      await expect(fetchAllChains()).rejects.toThrow('Failed to fetch chains');
+      expect(calls).toBe(1);
+    });
+
+    it('should retry transient errors on idempotent requests', async () => {
+      let calls = 0;
+      const onRetry = jest.fn();
+      server.use(
+        http.get('https://api.aori.io/chains', () => {
+          calls++;
+          if (calls < 3) {
+            return HttpResponse.json({ error: 'Service Unavailable' }, { status: 503 })
+          }
+          return HttpResponse.json(mockChains)
+        })
+      )
+
+      const result = await fetchAllChains('https://api.aori.io', undefined, {
+        retry: { maxAttempts: 3, baseDelay: 1, onRetry }
+      });
+
+      expect(result.base).toEqual(mockChains[0]);
+      expect(calls).toBe(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[0][0]).toMatchObject({ attempt: 1, status: 503, method: 'GET' });
+    });
+
+    it('should give up after maxAttempts', async () => {
+      let calls = 0;
+      server.use(
+        http.get('https://api.aori.io/chains', () => {
+          calls++;
+          return HttpResponse.json({ error: 'Bad Gateway' }, { status: 502 })
+        })
+      )
+
+      await expect(fetchAllChains('https://api.aori.io', undefined, {
+        retry: { maxAttempts: 2, baseDelay: 1 }
+      })).rejects.toThrow('Failed to fetch chains');
+      expect(calls).toBe(2);
+    });
+
+    it('should not replay POST /swap on server errors', async () => {
+      let calls = 0;
+      server.use(
+        http.post('https://api.aori.io/swap', () => {
+          calls++;
+          return HttpResponse.json({ error: 'Bad Gateway' }, { status: 502 })
+        })
+      )
+
+      await expect(submitSwap({ orderHash: swapResponse.orderHash, signature: '0x' }, 'https://api.aori.io', undefined, {
+        retry: { maxAttempts: 3, baseDelay: 1 }
+      })).rejects.toThrow('Swap request failed');
+      expect(calls).toBe(1);
+    });
+
+    it('should retry POST /swap when rate limited and honor Retry-After', async () => {
+      let calls = 0;
+      const onRetry = jest.fn();
+      server.use(
+        http.post('https://api.aori.io/swap', () => {
+          calls++;
+          if (calls === 1) {
+            return HttpResponse.json({ error: 'Too Many Requests' }, { status: 429, headers: { 'Retry-After': '0' } })
+          }
+          return HttpResponse.json(swapResponse)
+        })
+      )
+
+      const result = await submitSwap({ orderHash: swapResponse.orderHash, signature: '0x' }, 'https://api.aori.io', undefined, {
+        retry: { maxAttempts: 3, baseDelay: 5000, onRetry }
+      });
+
+      expect(result.orderHash).toBe(swapResponse.orderHash);
+      expect(calls).toBe(2);
+      expect(onRetry.mock.calls[0][0]).toMatchObject({ status: 429, delay: 0 });
+    });
+  });
+  describe('Transport', () => {
+    it('should send requests through an injected fetch implementation', async () => {
+      const customFetch = jest.fn(async () => new Response(JSON.stringify(mockChains), { status: 200 }));
+
+      const result = await fetchAllChains('https://api.aori.io', undefined, {
+        transport: { fetch: customFetch }
+      });
+
+      expect(result.base).toEqual(mockChains[0]);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(String((customFetch.mock.calls[0] as any[])[0])).toBe('https://api.aori.io/chains');
+    });
+
+    it('should run interceptors in order and allow modifying the request', async () => {
+      const order: string[] = [];
+      let receivedHeaders: Headers | undefined;
+      let receivedBody: any;
+
+      server.use(
+        http.post('https://proxy.example.com/quote', async (req) => {
+          receivedHeaders = req.request.headers;
+          receivedBody = await req.request.json();
+          return HttpResponse.json({ orderHash: '0xabc' })
+        })
+      )
+
+      await getQuote({
+        offerer: '0x123',
+        recipient: '0x456',
+        inputToken: '0x789',
+        outputToken: '0xabc',
+        inputAmount: BigInt(1000000),
+        inputChain: 'base',
+        outputChain: 'arbitrum'
+      }, 'https://api.aori.io', 'test-api-key', {
+        transport: {
+          interceptors: [
+            async (request, next) => {
+              order.push('first');
+              request.headers['x-signature'] = `signed:${request.body?.length}`;
+              const response = await next(request);
+              order.push('first:response');
+              return response;
+            },
+            async (request, next) => {
+              order.push('second');
+              request.url = new URL(request.url.pathname.slice(1), 'https://proxy.example.com');
+              return await next(request);
+            }
+          ]
+        }
+      });
+
+      expect(order).toEqual(['first', 'second', 'first:response']);
+      expect(receivedHeaders?.get('x-api-key')).toBe('test-api-key');
+      expect(receivedHeaders?.get('x-signature')).toMatch(/^signed:\d+$/);
+      expect(receivedBody.inputAmount).toBe('1000000');
+    });
+
+    it('should run interceptors on every retry attempt', async () => {
+      const interceptor = jest.fn(async (request, next) => await next(request));
+      let calls = 0;
+      server.use(
+        http.get('https://api.aori.io/chains', () => {
+          calls++;
+          if (calls === 1) {
+            return HttpResponse.json({ error: 'Service Unavailable' }, { status: 503 })
+          }
+          return HttpResponse.json(mockChains)
+        })
+      )
+
+      await fetchAllChains('https://api.aori.io', undefined, {
+        retry: { baseDelay: 1 },
+        transport: { interceptors: [interceptor] }
+      });
+
+      expect(interceptor).toHaveBeenCalledTimes(2);
+    });
+  });
+  describe('Errors', () => {
+    it('should throw AoriApiError with status, code, body, endpoint and request id', async () => {
+      server.use(
+        http.post('https://api.aori.io/quote', () => {
+          return HttpResponse.json(
+            { error: 'Invalid input amount', code: 'INVALID_AMOUNT' },
+            { status: 400, headers: { 'x-request-id': 'req-123' } }
+          )
+        })
+      )
+
+      const error = await getQuote({
+        offerer: '0x123',
+        recipient: '0x456',
+        inputToken: '0x789',
+        outputToken: '0xabc',
+        inputAmount: '0',
+        inputChain: 'base',
+        outputChain: 'arbitrum'
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(AoriApiError);
+      expect(error.message).toBe('Quote request failed: Invalid input amount');
+      expect(error.status).toBe(400);
+      expect(error.code).toBe('INVALID_AMOUNT');
+      expect(error.body).toEqual({ error: 'Invalid input amount', code: 'INVALID_AMOUNT' });
+      expect(error.endpoint).toBe('POST /quote');
+      expect(error.requestId).toBe('req-123');
+    });
+
+    it('should keep non-JSON error bodies as text', async () => {
+      server.use(
+        http.get('https://api.aori.io/chains', () => {
+          return new HttpResponse('upstream unavailable', { status: 502 })
+        })
+      )
+
+      const error = await fetchAllChains().catch(e => e);
+
+      expect(error).toBeInstanceOf(AoriApiError);
+      expect(error.status).toBe(502);
+      expect(error.body).toBe('upstream unavailable');
+    });
+
+    it('should pass caller aborts through unchanged', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const error = await fetchAllChains('https://api.aori.io', undefined, { signal: controller.signal }).catch(e => e);
+
+      expect(error.name).toBe('AbortError');
+    });
+  });
+
+  describe('getMissedEvents', () => {
+    const orderDetails = (orderHash: string, events: { eventType: string; timestamp: number }[]) => ({
+      orderHash,
+      offerer: '0xoff',
+      recipient: '0xrec',
+      inputToken: '0x1',
+      inputAmount: '100',
+      inputChain: 'base',
+      inputTokenValueUsd: '1',
+      outputToken: '0x2',
+      outputAmount: '99',
+      outputChain: 'arbitrum',
+      outputTokenValueUsd: '1',
+      startTime: 900,
+      endTime: 2000,
+      srcTx: null,
+      dstTx: null,
+      timestamp: events[events.length - 1].timestamp,
+      events
+    });
+
+    it('should replay events since the given time in timestamp order', async () => {
+      let query: URLSearchParams | undefined;
+
+      server.use(
+        http.get('https://api.aori.io/data/query', ({ request }) => {
+          query = new URL(request.url).searchParams;
+          return HttpResponse.json({
+            orders: [
+              { orderHash: '0xold', timestamp: 950 },
+              { orderHash: '0xa', timestamp: 1030 },
+              { orderHash: '0xb', timestamp: 1010 }
+            ],
+            pagination: { currentPage: 1, limit: 100, totalRecords: 3, totalPages: 1 }
+          })
+        }),
+        http.get('https://api.aori.io/data/details/:orderHash', ({ params }) => {
+          return HttpResponse.json(params.orderHash === '0xa'
+            ? orderDetails('0xa', [{ eventType: 'created', timestamp: 990 }, { eventType: 'completed', timestamp: 1030 }])
+            : orderDetails('0xb', [{ eventType: 'created', timestamp: 1005 }, { eventType: 'received', timestamp: 1010 }]))
+        })
+      )
+
+      const events = await getMissedEvents({ offerer: '0xoff' }, 1000, 'https://api.aori.io', { lookback: 600 });
+
+      expect(query?.get('offerer')).toBe('0xoff');
+      expect(query?.get('minTime')).toBe('400');
+      expect(events.map(event => [event.order.orderHash, event.eventType, event.timestamp])).toEqual([
+        ['0xb', 'created', 1005],
+        ['0xb', 'received', 1010],
+        ['0xa', 'completed', 1030]
+      ]);
+      expect(events[0].order).toMatchObject({ inputChain: 'base', srcTx: '', endTime: 2000 });
+    });
+
+    it('should apply the event type filter and follow pagination', async () => {
+      const pages: string[] = [];
+
+      server.use(
+        http.get('https://api.aori.io/data/query', ({ request }) => {
+          const page = new URL(request.url).searchParams.get('page')!;
+          pages.push(page);
+          return HttpResponse.json({
+            orders: [{ orderHash: `0x${page}`, timestamp: 1100 }],
+            pagination: { currentPage: Number(page), limit: 1, totalRecords: 2, totalPages: 2 }
+          })
+        }),
+        http.get('https://api.aori.io/data/details/:orderHash', ({ params }) => {
+          return HttpResponse.json(orderDetails(params.orderHash as string, [
+            { eventType: 'created', timestamp: 1050 },
+            { eventType: 'completed', timestamp: 1100 }
+          ]))
+        })
+      )
+
+      const events = await getMissedEvents({ eventType: 'completed' }, 1000, 'https://api.aori.io', { pageSize: 1 });
+
+      expect(pages).toEqual(['1', '2']);
+      expect(events.map(event => event.order.orderHash)).toEqual(['0x1', '0x2']);
+      expect(events.every(event => event.eventType === 'completed')).toBe(true);
+    });
+  });
+
+  describe('waitForOrder', () => {
+    const orderHash = '0x' + 'ab'.repeat(32);
+    const future = () => Math.floor(Date.now() / 1000) + 600;
+
+    const statusSequence = (...statuses: object[]) => {
+      let calls = 0;
+      server.use(
+        http.get(`https://api.aori.io/data/status/${orderHash}`, () => {
+          const status = statuses[Math.min(calls, statuses.length - 1)];
+          calls++;
+          return HttpResponse.json(status)
+        })
+      )
+      return () => calls;
+    };
+
+    it('should poll with backoff until the order completes', async () => {
+      const calls = statusSequence(
+        { status: 'pending', timestamp: 1 },
+        { status: 'received', txHash: '0x1', txUrl: 'url', timestamp: 2 },
+        { status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 }
+      );
+      const onStatusChange = jest.fn();
+
+      const status = await waitForOrder(orderHash, 'https://api.aori.io', {
+        deadline: future(),
+        pollInterval: 5,
+        onStatusChange
+      });
+
+      expect(status.status).toBe('completed');
+      expect(calls()).toBe(3);
+      expect(onStatusChange.mock.calls.map(([s]) => s.status)).toEqual(['pending', 'received', 'completed']);
+    });
+
+    it('should resolve on received when waiting for received', async () => {
+      statusSequence({ status: 'received', txHash: '0x1', txUrl: 'url', timestamp: 2 });
+
+      const status = await waitForOrder(orderHash, 'https://api.aori.io', { until: 'received', deadline: future() });
+
+      expect(status.status).toBe('received');
+    });
+
+    it('should resolve on cancelled orders', async () => {
+      statusSequence({ status: 'cancelled', timestamp: 2 });
+
+      const status = await waitForOrder(orderHash, 'https://api.aori.io', { deadline: future() });
+
+      expect(status.status).toBe('cancelled');
+    });
+
+    it('should check the status as soon as a WebSocket event arrives', async () => {
+      const calls = statusSequence(
+        { status: 'pending', timestamp: 1 },
+        { status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 }
+      );
+      let onMessage: ((event: any) => void) | undefined;
+      const unsubscribe = jest.fn();
+
+      const promise = waitForOrder(orderHash, 'https://api.aori.io', {
+        deadline: future(),
+        pollInterval: 60000,
+        subscribe: (filter, callbacks) => {
+          expect(filter).toEqual({ orderHash });
+          onMessage = callbacks.onMessage;
+          return { unsubscribe };
+        }
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(calls()).toBe(1);
+      onMessage?.({ eventType: 'completed', timestamp: 3, order: { orderHash } });
+
+      await expect(promise).resolves.toMatchObject({ status: 'completed' });
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+
+    it('should derive the deadline from the order endTime', async () => {
+      statusSequence({ status: 'pending', timestamp: 1 });
+      server.use(
+        http.get(`https://api.aori.io/data/details/${orderHash}`, () => {
+          return HttpResponse.json({ orderHash, endTime: Math.floor(Date.now() / 1000) - 1, events: [] })
+        })
+      )
+
+      await expect(waitForOrder(orderHash, 'https://api.aori.io', { pollInterval: 60000 }))
+        .rejects.toBeInstanceOf(AoriTimeoutError);
+    });
+
+    it('should stop waiting when aborted', async () => {
+      statusSequence({ status: 'pending', timestamp: 1 });
+      const controller = new AbortController();
+
+      const promise = waitForOrder(orderHash, 'https://api.aori.io', { deadline: future(), pollInterval: 60000 }, undefined, {
+        signal: controller.signal
+      });
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('should keep polling through network errors and retryable API errors', async () => {
+      let calls = 0;
+      server.use(
+        http.get(`https://api.aori.io/data/details/${orderHash}`, () => {
+          return HttpResponse.error()
+        }),
+        http.get(`https://api.aori.io/data/status/${orderHash}`, () => {
+          calls++;
+          if (calls === 1) {
+            return HttpResponse.json({ error: 'Service Unavailable' }, { status: 503 })
+          }
+          if (calls === 2) {
+            return HttpResponse.error()
+          }
+          return HttpResponse.json({ status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 })
+        })
+      )
+
+      const status = await waitForOrder(orderHash, 'https://api.aori.io', { pollInterval: 5 });
+
+      expect(status.status).toBe('completed');
+      expect(calls).toBe(3);
+    });
+
+    it('should reject on API errors that are not retried', async () => {
+      server.use(
+        http.get(`https://api.aori.io/data/status/${orderHash}`, () => {
+          return HttpResponse.json({ error: 'Invalid order hash' }, { status: 400 })
+        })
+      )
+
+      await expect(waitForOrder(orderHash, 'https://api.aori.io', { deadline: future(), pollInterval: 5 }))
+        .rejects.toMatchObject({ status: 400 });
+    });
+  });
+
+  describe('pollOrderStatus', () => {
+    const orderHash = '0x' + 'cd'.repeat(32);
+
+    const statusSequence = (...statuses: object[]) => {
+      let calls = 0;
+      server.use(
+        http.get(`https://api.aori.io/data/status/${orderHash}`, () => {
+          const status = statuses[Math.min(calls, statuses.length - 1)];
+          calls++;
+          return HttpResponse.json(status)
+        })
+      )
+    };
+
+    it('should resolve when the order is cancelled without requesting the order details', async () => {
+      statusSequence({ status: 'pending', timestamp: 1 }, { status: 'cancelled', timestamp: 2 });
+      let detailsRequested = false;
+      server.use(
+        http.get(`https://api.aori.io/data/details/${orderHash}`, () => {
+          detailsRequested = true;
+          return HttpResponse.json({ orderHash, endTime: 1, events: [] })
+        })
+      )
+      const onComplete = jest.fn();
+
+      const status = await pollOrderStatus(orderHash, 'https://api.aori.io', { interval: 1, onComplete });
+
+      expect(status.status).toBe('cancelled');
+      expect(onComplete).toHaveBeenCalledWith(status);
+      expect(detailsRequested).toBe(false);
+    });
+
+    it('should report pending orders past their endTime as expired', async () => {
+      const endTime = Math.floor(Date.now() / 1000) - 10;
+      statusSequence({ status: 'pending', timestamp: 1 });
+      server.use(
+        http.get(`https://api.aori.io/data/details/${orderHash}`, () => {
+          return HttpResponse.json({ orderHash, endTime, events: [] })
+        })
+      )
+
+      const status = await pollOrderStatus(orderHash, 'https://api.aori.io', { interval: 1, detectExpiry: true });
+
+      expect(status).toEqual({ status: 'expired', endTime, timestamp: endTime });
+    });
+
+    it('should detect expiry from a given endTime', async () => {
+      const endTime = Math.floor(Date.now() / 1000) - 10;
+      statusSequence({ status: 'pending', timestamp: 1 });
+
+      const status = await pollOrderStatus(orderHash, 'https://api.aori.io', { interval: 1, detectExpiry: true, endTime });
+
+      expect(status).toEqual({ status: 'expired', endTime, timestamp: endTime });
+    });
+
+    it('should stop at custom terminal states', async () => {
+      statusSequence(
+        { status: 'pending', timestamp: 1 },
+        { status: 'received', txHash: '0x1', txUrl: 'url', timestamp: 2 },
+        { status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 }
+      );
+
+      const status = await pollOrderStatus(orderHash, 'https://api.aori.io', {
+        interval: 1,
+        terminalStates: ['received', 'failed']
+      });
+
+      expect(status.status).toBe('received');
+    });
+
+    it('should back off between polls up to maxInterval', async () => {
+      statusSequence(
+        { status: 'pending', timestamp: 1 },
+        { status: 'pending', timestamp: 1 },
+        { status: 'pending', timestamp: 1 },
+        { status: 'pending', timestamp: 1 },
+        { status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 }
+      );
+      const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+
+      await pollOrderStatus(orderHash, 'https://api.aori.io', {
+        interval: 2,
+        backoffMultiplier: 2,
+        maxInterval: 5,
+        terminalStates: ['completed']
+      });
+
+      const delays = setTimeoutSpy.mock.calls.filter(([fn]) => fn.name === 'checkStatus').map(([, delay]) => delay);
+      setTimeoutSpy.mockRestore();
+      expect(delays).toEqual([2, 4, 5, 5]);
+    });
+  });
+
+  describe('Token allowance', () => {
+    const quote = withHashes({
+      offerer: '0x' + '11'.repeat(20),
+      recipient: '0x' + '11'.repeat(20),
+      inputToken: '0x' + '22'.repeat(20),
+      outputToken: '0x' + '33'.repeat(20),
+      inputAmount: '1000',
+      outputAmount: '990',
+      inputChain: 'base',
+      outputChain: 'arbitrum',
+      startTime: 1,
+      endTime: 2,
+      estimatedTime: 10
+    });
+    const erc20 = new ethers.Interface(['function approve(address spender, uint256 amount) returns (bool)']);
+
+    const createExecutor = (allowance: bigint) => ({
+      call: jest.fn().mockResolvedValue(ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [allowance])),
+      sendTransaction: jest.fn().mockResolvedValue({ hash: '0xapprove', wait: jest.fn().mockResolvedValue({ status: 1 }) }),
+      estimateGas: jest.fn().mockResolvedValue(BigInt(50000))
+    });
+
+    it('should report sufficient allowances', async () => {
+      const executor = createExecutor(BigInt(1000));
+
+      const check = await checkAllowance(quote, executor);
+
+      expect(check).toEqual({
+        token: quote.inputToken,
+        owner: quote.offerer,
+        spender: mockChains[0].address,
+        allowance: '1000',
+        required: '1000',
+        sufficient: true
+      });
+      expect(executor.call.mock.calls[0][0].to).toBe(quote.inputToken);
+    });
+
+    it('should include the approve transaction for insufficient allowances', async () => {
+      const check = await checkAllowance(quote, createExecutor(BigInt(10)));
+
+      expect(check.sufficient).toBe(false);
+      expect(check.approveTx).toEqual({
+        to: quote.inputToken,
+        data: erc20.encodeFunctionData('approve', [mockChains[0].address, BigInt(1000)]),
+        value: '0'
+      });
+    });
+
+    it('should return the approve transaction from executeSwap without submitting', async () => {
+      let submitted = false;
+      server.use(
+        http.post('https://api.aori.io/swap', () => {
+          submitted = true;
+          return HttpResponse.json({})
+        })
+      )
+      const signer = { signTypedData: jest.fn() };
+
+      const result = await executeSwap(quote, {
+        type: 'erc20',
+        signer,
+        userAddress: quote.offerer,
+        approval: { txExecutor: createExecutor(BigInt(0)), mode: 'return', amount: 'max' }
+      });
+
+      expect(isApprovalRequired(result)).toBe(true);
+      expect(result).toMatchObject({ outcome: 'approvalRequired', orderHash: quote.orderHash });
+      expect(isApprovalRequired(result) && result.approveTx.data)
+        .toBe(erc20.encodeFunctionData('approve', [mockChains[0].address, ethers.MaxUint256]));
+      expect(signer.signTypedData).not.toHaveBeenCalled();
+      expect(submitted).toBe(false);
+    });
+
+    it('should approve before signing and submitting', async () => {
+      server.use(
+        http.get('https://api.aori.io/domain', () => {
+          return HttpResponse.json({ domainTypeString: '', name: 'Aori', orderTypeString: '', version: '0.3.1' })
+        }),
+        http.post('https://api.aori.io/swap', () => {
+          return HttpResponse.json({ ...quote, status: 'pending', createdAt: 1 })
+        })
+      )
+      const executor = createExecutor(BigInt(0));
+      const signer = { signTypedData: jest.fn().mockResolvedValue('0xsig') };
+
+      const result = await executeSwap(quote, {
+        type: 'erc20',
+        signer,
+        userAddress: quote.offerer,
+        approval: { txExecutor: executor }
+      });
+
+      expect(executor.sendTransaction).toHaveBeenCalledWith({
+        to: quote.inputToken,
+        data: erc20.encodeFunctionData('approve', [mockChains[0].address, BigInt(1000)]),
+        value: '0',
+        gasLimit: '60000'
+      });
+      expect(executor.sendTransaction.mock.invocationCallOrder[0])
+        .toBeLessThan(signer.signTypedData.mock.invocationCallOrder[0]);
+      expect(result).toMatchObject({ outcome: 'submitted', orderHash: quote.orderHash, swap: { status: 'pending' } });
+    });
+
+    it('should fail the swap when the approval reverts', async () => {
+      const executor = createExecutor(BigInt(0));
+      executor.sendTransaction.mockResolvedValue({ hash: '0xapprove', wait: jest.fn().mockResolvedValue({ status: 0 }) });
+
+      await expect(executeSwap(quote, {
+        type: 'erc20',
+        signer: { signTypedData: jest.fn() },
+        userAddress: quote.offerer,
+        approval: { txExecutor: executor }
+      })).rejects.toThrow('Token approval failed: Approve transaction 0xapprove reverted');
+    });
+  });
+
+  describe('Permits', () => {
+    const quote = withHashes({
+      offerer: '0x' + '11'.repeat(20),
+      recipient: '0x' + '11'.repeat(20),
+      inputToken: '0x' + '22'.repeat(20),
+      outputToken: '0x' + '33'.repeat(20),
+      inputAmount: '1000',
+      outputAmount: '990',
+      inputChain: 'base',
+      outputChain: 'arbitrum',
+      startTime: 1,
+      endTime: 2,
+      estimatedTime: 10
+    });
+    const token = new ethers.Interface([
+      'function name() view returns (string)',
+      'function nonces(address owner) view returns (uint256)',
+      'function allowance(address owner, address spender) view returns (uint256)'
+    ]);
+
+    // Answers token reads by function selector
+    const createExecutor = (results: Record<string, unknown>) => ({
+      call: jest.fn(async ({ data }: { data: string }) => {
+        const fragment = token.getFunction(data.slice(0, 10));
+        if (!fragment || !(fragment.name in results)) {
+          throw new Error('execution reverted');
+        }
+        return token.encodeFunctionResult(fragment, [results[fragment.name]]);
+      })
+    });
+
+    it('should sign an EIP-2612 permit and attach it to the submission', async () => {
+      let body: any;
+      server.use(
+        http.get('https://api.aori.io/domain', () => {
+          return HttpResponse.json({ domainTypeString: '', name: 'Aori', orderTypeString: '', version: '0.3.1' })
+        }),
+        http.post('https://api.aori.io/swap', async ({ request }) => {
+          body = await request.json();
+          return HttpResponse.json({ ...quote, status: 'pending', createdAt: 1 })
+        })
+      )
+      const signer = { signTypedData: jest.fn().mockResolvedValue('0xsig') };
+
+      await executeSwap(quote, {
+        type: 'erc20',
+        signer,
+        userAddress: quote.offerer,
+        permit: { type: 'eip2612', txExecutor: createExecutor({ name: 'Token', nonces: BigInt(7) }) }
+      });
+
+      expect(signer.signTypedData.mock.calls[0][0]).toMatchObject({
+        primaryType: 'Permit',
+        domain: { name: 'Token', version: '1', chainId: BigInt(8453), verifyingContract: quote.inputToken },
+        message: { owner: quote.offerer, spender: mockChains[0].address, value: BigInt(1000), nonce: BigInt(7), deadline: BigInt(2) }
+      });
+      expect(body.permit).toEqual({
+        type: 'eip2612',
+        token: quote.inputToken,
+        owner: quote.offerer,
+        spender: mockChains[0].address,
+        value: '1000',
+        nonce: '7',
+        deadline: 2,
+        signature: '0xsig'
+      });
+    });
+
+    it('should reject tokens without EIP-2612 support', async () => {
+      await expect(signPermit(quote, { signTypedData: jest.fn() }, quote.offerer, {
+        type: 'eip2612',
+        txExecutor: createExecutor({})
+      })).rejects.toThrow(AoriValidationError);
+    });
+
+    it('should sign a Permit2 transfer once the token is approved for Permit2', async () => {
+      const signer = { signTypedData: jest.fn().mockResolvedValue('0xsig') };
+
+      await expect(signPermit(quote, signer, quote.offerer, {
+        type: 'permit2',
+        txExecutor: createExecutor({ allowance: BigInt(0) })
+      })).rejects.toThrow('is not approved for Permit2');
+
+      const permit = await signPermit(quote, signer, quote.offerer, {
+        type: 'permit2',
+        txExecutor: createExecutor({ allowance: ethers.MaxUint256 }),
+        deadline: 100
+      });
+
+      expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+      expect(signer.signTypedData.mock.calls[0][0]).toMatchObject({
+        primaryType: 'PermitTransferFrom',
+        domain: { name: 'Permit2', chainId: BigInt(8453), verifyingContract: PERMIT2_ADDRESS },
+        message: { permitted: { token: quote.inputToken, amount: BigInt(1000) }, spender: mockChains[0].address, deadline: BigInt(100) }
+      });
+      expect(permit).toMatchObject({ type: 'permit2', amount: '1000', deadline: 100, signature: '0xsig' });
+    });
+  });
+
+  describe('Quote hash verification', () => {
+    const quote = withHashes({
+      offerer: '0x' + '11'.repeat(20),
+      recipient: '0x' + '11'.repeat(20),
+      inputToken: '0x' + '22'.repeat(20),
+      outputToken: '0x' + '33'.repeat(20),
+      inputAmount: '1000',
+      outputAmount: '990',
+      inputChain: 'base',
+      outputChain: 'arbitrum',
+      startTime: 1,
+      endTime: 2,
+      estimatedTime: 10
+    });
+
+    it('should compute the digest signed over the EIP-712 typed data', async () => {
+      const wallet = new ethers.Wallet('0x' + '01'.repeat(32));
+      const signature = await signOrder(quote, { privateKey: wallet.privateKey }, typedDataParams);
+
+      // Signing the raw digest must be equivalent to signing the typed data
+      const types = {
+        Order: [
+          { name: 'inputAmount', type: 'uint128' },
+          { name: 'outputAmount', type: 'uint128' },
+          { name: 'inputToken', type: 'address' },
+          { name: 'outputToken', type: 'address' },
+          { name: 'startTime', type: 'uint32' },
+          { name: 'endTime', type: 'uint32' },
+          { name: 'srcEid', type: 'uint32' },
+          { name: 'dstEid', type: 'uint32' },
+          { name: 'offerer', type: 'address' },
+          { name: 'recipient', type: 'address' },
+        ]
+      };
+      const recovered = ethers.verifyTypedData(
+        { name: 'Aori', version: '0.3.1', verifyingContract: mockChains[0].address },
+        types,
+        { ...quote, srcEid: typedDataParams.srcEid, dstEid: typedDataParams.dstEid },
+        signature
+      );
+      expect(recovered).toBe(wallet.address);
+    });
+
+    it('should accept matching hashes', () => {
+      expect(verifyQuoteHashes(quote, typedDataParams)).toEqual({
+        orderHash: quote.orderHash,
+        signingHash: quote.signingHash
+      });
+    });
+
+    it('should reject a signing hash that does not match the order', async () => {
+      const tampered = { ...quote, signingHash: computeSigningHash({ ...quote, recipient: '0x' + '99'.repeat(20) }, typedDataParams) };
+
+      expect(() => verifyQuoteHashes(tampered, typedDataParams)).toThrow('Signing hash mismatch');
+      await expect(signOrder(tampered, { privateKey: '0x' + '01'.repeat(32) }, typedDataParams, { verifyHashes: true }))
+        .rejects.toMatchObject({ field: 'signingHash' });
+    });
+
+    it('should refuse to sign typed data when the order hash does not match', async () => {
+      const signer = { signTypedData: jest.fn() };
+      const tampered = { ...quote, outputAmount: '1' };
+
+      await expect(signReadableOrder(tampered, signer, quote.offerer, undefined, undefined, mockChains[0], mockChains[1], domainInfo, { verifyHashes: true }))
+        .rejects.toMatchObject({ field: 'orderHash' });
+      expect(signer.signTypedData).not.toHaveBeenCalled();
+    });
+
+    it('should only verify hashes when asked to', async () => {
+      const signer = { signTypedData: jest.fn().mockResolvedValue('0xsig') };
+      const tampered = { ...quote, outputAmount: '1' };
+
+      await expect(signReadableOrder(tampered, signer, quote.offerer, undefined, undefined, mockChains[0], mockChains[1], domainInfo))
+        .resolves.toEqual({ orderHash: quote.orderHash, signature: '0xsig' });
+      await expect(signOrder(tampered, { privateKey: '0x' + '01'.repeat(32) }, typedDataParams)).resolves.toMatch(/^0x/);
+      await expect(signOrder(quote, { privateKey: '0x' + '01'.repeat(32) }, undefined, { verifyHashes: true }))
+        .rejects.toMatchObject({ field: 'typedDataParams' });
+    });
+  });
+
+  describe('Signature verification', () => {
+    const wallet = new ethers.Wallet('0x' + '01'.repeat(32));
+    const quote = withHashes({
+      offerer: wallet.address,
+      recipient: wallet.address,
+      inputToken: '0x' + '22'.repeat(20),
+      outputToken: '0x' + '33'.repeat(20),
+      inputAmount: '1000',
+      outputAmount: '990',
+      inputChain: 'base',
+      outputChain: 'arbitrum',
+      startTime: 1,
+      endTime: 2,
+      estimatedTime: 10
+    });
+    const eip1271 = new ethers.Interface(['function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)']);
+
+    it('should recover the signer of signOrder and signReadableOrder signatures', async () => {
+      const rawSignature = await signOrder(quote, { privateKey: wallet.privateKey }, typedDataParams);
+      const { signature } = await signReadableOrder(quote, {
+        signTypedData: ({ domain, types: { EIP712Domain, ...types }, message }: any) =>
+          wallet.signTypedData({ name: domain.name, version: domain.version, verifyingContract: domain.verifyingContract }, types, message)
+      }, wallet.address, undefined, undefined, mockChains[0], mockChains[1], domainInfo);
+
+      expect(recoverOrderSigner(quote, rawSignature, typedDataParams)).toBe(wallet.address);
+      expect(recoverOrderSigner(quote, signature, typedDataParams)).toBe(wallet.address);
+      await expect(verifyOrderSignature(quote, signature, typedDataParams)).resolves.toBe(true);
+    });
+
+    it('should reject signatures from other accounts', async () => {
+      const other = new ethers.Wallet('0x' + '02'.repeat(32));
+      const signature = other.signingKey.sign(quote.signingHash).serialized;
+
+      await expect(verifyOrderSignature(quote, signature, typedDataParams)).resolves.toBe(false);
+      expect(() => recoverOrderSigner(quote, '0x1234', typedDataParams)).toThrow(AoriValidationError);
+    });
+
+    it('should check smart contract wallet signatures with EIP-1271', async () => {
+      const contractWallet = '0x' + '55'.repeat(20);
+      const contractQuote = withHashes({ ...quote, offerer: contractWallet });
+      const executor = {
+        call: jest.fn().mockResolvedValue(eip1271.encodeFunctionResult('isValidSignature', ['0x1626ba7e']))
+      };
+
+      await expect(verifyOrderSignature(contractQuote, '0xabcdef', typedDataParams, executor)).resolves.toBe(true);
+      expect(executor.call).toHaveBeenCalledWith({
+        to: contractWallet,
+        data: eip1271.encodeFunctionData('isValidSignature', [contractQuote.signingHash, '0xabcdef'])
+      });
+
+      executor.call.mockResolvedValue(eip1271.encodeFunctionResult('isValidSignature', ['0xffffffff']));
+      await expect(verifyOrderSignature(contractQuote, '0xabcdef', typedDataParams, executor)).resolves.toBe(false);
+
+      executor.call.mockRejectedValue(new Error('execution reverted'));
+      await expect(verifyOrderSignature(contractQuote, '0xabcdef', typedDataParams, executor)).resolves.toBe(false);
+    });
+  });
+
+  describe('Smart accounts', () => {
+    const accountAddress = '0x' + '55'.repeat(20);
+    const nativeQuote = {
+      orderHash: '0x' + '12'.repeat(32),
+      offerer: accountAddress,
+      recipient: accountAddress,
+      inputToken: NATIVE_TOKEN_ADDRESS,
+      outputToken: '0x' + '33'.repeat(20),
+      inputAmount: '1000',
+      outputAmount: '990',
+      inputChain: 'base',
+      outputChain: 'arbitrum',
+      startTime: 1,
+      endTime: 2,
+      estimatedTime: 10
+    };
+
+    const createAccount = (success = true) => ({
+      address: accountAddress,
+      signTypedData: jest.fn().mockResolvedValue('0xsig'),
+      sendCalls: jest.fn().mockResolvedValue('0xuserop'),
+      waitForOperation: jest.fn().mockResolvedValue({ transactionHash: '0xbundle', success })
+    });
+
+    beforeEach(() => {
+      server.use(
+        http.post('https://api.aori.io/swap', () => {
+          return HttpResponse.json({
+            ...nativeQuote,
+            status: 'pending',
+            createdAt: 1,
+            to: mockChains[0].address,
+            data: '0xabcdef12',
+            value: nativeQuote.inputAmount
+          })
+        })
+      )
+    });
+
+    it('should submit native deposits through the account and report the bundled transaction hash', async () => {
+      const account = createAccount();
+
+      const result = await executeSwap(nativeQuote, { type: 'smartAccount', account });
+
+      expect(account.sendCalls).toHaveBeenCalledWith([{ to: mockChains[0].address, data: '0xabcdef12', value: '1000' }]);
+      expect(account.waitForOperation).toHaveBeenCalledWith('0xuserop');
+      expect(account.signTypedData).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        outcome: 'submitted',
+        orderHash: nativeQuote.orderHash,
+        swap: expect.objectContaining({ orderHash: nativeQuote.orderHash }),
+        depositTx: { success: true, txHash: '0xbundle', operationHash: '0xuserop' }
+      });
+    });
+
+    it('should report operations that revert inside a mined bundle', async () => {
+      const result = await executeSwap(nativeQuote, { type: 'smartAccount', account: createAccount(false) }, undefined, undefined, {}, { throwOnError: false });
+
+      expect(result).toMatchObject({
+        outcome: 'failed',
+        depositTx: { success: false, txHash: '0xbundle', operationHash: '0xuserop' },
+        error: { step: 'depositing' }
+      });
+    });
+
+    it('should sign ERC20 orders with the account', async () => {
+      const erc20Quote = withHashes({ ...nativeQuote, inputToken: '0x' + '22'.repeat(20) });
+      server.use(
+        http.get('https://api.aori.io/domain', () => {
+          return HttpResponse.json(domainInfo)
+        }),
+        http.post('https://api.aori.io/swap', () => {
+          return HttpResponse.json({ ...erc20Quote, status: 'pending', createdAt: 1 })
+        })
+      )
+      const account = createAccount();
+
+      const result = await executeSwap(erc20Quote, { type: 'smartAccount', account });
+
+      expect(account.signTypedData).toHaveBeenCalledWith(expect.objectContaining({ account: accountAddress, primaryType: 'Order' }));
+      expect(account.sendCalls).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ outcome: 'submitted', swap: { orderHash: erc20Quote.orderHash, status: 'pending' } });
+    });
+
+    it('should submit native deposits without signing or fetching the domain', async () => {
+      const domainRequests = jest.fn();
+      let submitted: any;
+      server.use(
+        http.get('https://api.aori.io/domain', () => {
+          domainRequests();
+          return HttpResponse.json(domainInfo)
+        }),
+        http.post('https://api.aori.io/swap', async ({ request }) => {
+          submitted = await request.json();
+          return HttpResponse.json({ ...nativeQuote, status: 'pending', createdAt: 1, to: mockChains[0].address, data: '0xabcdef12', value: '1000' })
+        })
+      )
+
+      await executeSwap(nativeQuote, { type: 'smartAccount', account: createAccount() });
+
+      expect(submitted).toEqual({ orderHash: nativeQuote.orderHash, signature: '' });
+      expect(domainRequests).not.toHaveBeenCalled();
+    });
+
+    it('should check the account chain before submitting', async () => {
+      const submitRequests = jest.fn();
+      server.use(
+        http.post('https://api.aori.io/swap', () => {
+          submitRequests();
+          return HttpResponse.json({})
+        })
+      )
+      const account = { ...createAccount(), getChainId: jest.fn().mockResolvedValue(1) };
+
+      const error = await executeSwap(nativeQuote, { type: 'smartAccount', account }).catch(e => e);
+
+      expect(error.cause).toBeInstanceOf(AoriChainMismatchError);
+      expect(error.cause).toMatchObject({ expectedChainId: 8453, actualChainId: 1 });
+      expect(submitRequests).not.toHaveBeenCalled();
+      expect(account.sendCalls).not.toHaveBeenCalled();
+    });
+
+    it('should reject quotes for a different offerer', async () => {
+      await expect(executeSwap({ ...nativeQuote, offerer: '0x' + '11'.repeat(20) }, { type: 'smartAccount', account: createAccount() }))
+        .rejects.toMatchObject({ step: 'validating', message: 'Smart account address does not match the quote offerer' });
+    });
+  });
+
+  describe('Chain validation', () => {
+    const nativeResponse = {
+      orderHash: '0x' + '12'.repeat(32),
+      offerer: '0x' + '55'.repeat(20),
+      recipient: '0x' + '55'.repeat(20),
+      inputToken: NATIVE_TOKEN_ADDRESS,
+      outputToken: '0x' + '33'.repeat(20),
+      inputAmount: '1000',
+      outputAmount: '990',
+      inputChain: 'base',
+      outputChain: 'arbitrum',
+      startTime: 1,
+      endTime: 2,
+      status: 'pending',
+      createdAt: 1,
+      to: mockChains[0].address,
+      data: '0xabcdef12',
+      value: '1000'
+    };
+
+    const createExecutor = (chainId: number, canSwitch = false) => {
+      let current = chainId;
+      return {
+        getChainId: jest.fn(async () => current),
+        sendTransaction: jest.fn().mockResolvedValue({ hash: '0xhash', wait: jest.fn().mockResolvedValue({}) }),
+        ...(canSwitch && { switchChain: jest.fn(async (id: number) => { current = id; }) })
+      };
+    };
+
+    it('should do nothing when the executor is on the expected chain or cannot report its chain', async () => {
+      await expect(ensureChain(createExecutor(8453), 8453)).resolves.toBeUndefined();
+      await expect(ensureChain({}, 8453)).resolves.toBeUndefined();
+    });
+
+    it('should throw a typed error instead of sending a native deposit on the wrong chain', async () => {
+      const txExecutor = createExecutor(1);
+
+      const error = await executeNativeSwap(nativeResponse, txExecutor, undefined, 8453).catch(e => e);
+
+      expect(error).toBeInstanceOf(AoriChainMismatchError);
+      expect(error).toMatchObject({ expectedChainId: 8453, actualChainId: 1 });
+      expect(txExecutor.sendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should switch chains before sending when the executor supports it', async () => {
+      const txExecutor = createExecutor(1, true);
+
+      const result = await executeNativeSwap(nativeResponse, txExecutor, undefined, 8453);
+
+      expect(txExecutor.switchChain).toHaveBeenCalledWith(8453);
+      expect(result).toEqual({ success: true, txHash: '0xhash' });
+    });
+
+    it('should report a failed switch with the cause', async () => {
+      const cause = new Error('User rejected the request');
+      const txExecutor = { ...createExecutor(1), switchChain: jest.fn().mockRejectedValue(cause) };
+
+      await expect(ensureChain(txExecutor, 8453)).rejects.toMatchObject({
+        name: 'AoriChainMismatchError',
+        message: 'Failed to switch from chain 1 to chain 8453: User rejected the request',
+        cause
+      });
+    });
+
+    it('should check the order chain before sending a cancellation', async () => {
+      const cancelTx = { orderHash: nativeResponse.orderHash, to: mockChains[1].address, data: '0xabcdef12', value: '0', chain: 'arbitrum' };
+      const txExecutor = createExecutor(8453);
+
+      await expect(cancelOrder(undefined, cancelTx, txExecutor)).rejects.toThrow(
+        'Executor is on chain 8453 but the transaction must be sent on chain 42161'
+      );
+      expect(txExecutor.sendTransaction).not.toHaveBeenCalled();
+
+      await expect(cancelOrder(undefined, cancelTx, createExecutor(42161))).resolves.toMatchObject({ success: true, txHash: '0xhash' });
+    });
+
+    it('should check the chain before submitting a native swap', async () => {
+      let submitted = false;
+      server.use(
+        http.post('https://api.aori.io/swap', () => {
+          submitted = true;
+          return HttpResponse.json(nativeResponse)
+        })
+      )
+
+      await expect(executeSwap({ ...nativeResponse, estimatedTime: 10 }, { type: 'native', txExecutor: createExecutor(42161) }))
+        .rejects.toMatchObject({ step: 'validating', cause: expect.any(AoriChainMismatchError) });
+      expect(submitted).toBe(false);
+    });
+  });
+
+  describe('Swap execution results', () => {
+    const nativeQuote = {
+      orderHash: '0x' + '12'.repeat(32),
+      offerer: '0x' + '55'.repeat(20),
+      recipient: '0x' + '55'.repeat(20),
+      inputToken: NATIVE_TOKEN_ADDRESS,
+      outputToken: '0x' + '33'.repeat(20),
+      inputAmount: '1000',
+      outputAmount: '990',
+      inputChain: 'base',
+      outputChain: 'arbitrum',
+      startTime: 1,
+      endTime: 2,
+      estimatedTime: 10
+    };
+    const { estimatedTime, ...order } = nativeQuote;
+    const nativeResponse = { ...order, status: 'pending', createdAt: 1, to: mockChains[0].address, data: '0xabcdef12', value: '1000' };
+
+    beforeEach(() => {
+      server.use(
+        http.post('https://api.aori.io/swap', () => {
+          return HttpResponse.json(nativeResponse)
+        })
+      )
+    });
+
+    it('should return the order and the deposit transaction of native swaps', async () => {
+      const txExecutor = { sendTransaction: jest.fn().mockResolvedValue({ hash: '0xdeposit', wait: jest.fn().mockResolvedValue({}) }) };
+
+      await expect(executeSwap(nativeQuote, { type: 'native', txExecutor })).resolves.toEqual({
+        outcome: 'submitted',
+        orderHash: nativeQuote.orderHash,
+        swap: nativeResponse,
+        depositTx: { success: true, txHash: '0xdeposit' }
+      });
+    });
+
+    it('should throw or return failed deposits with the submitted order', async () => {
+      const txExecutor = { sendTransaction: jest.fn().mockRejectedValue(new Error('insufficient funds')) };
+
+      const error = await executeSwap(nativeQuote, { type: 'native', txExecutor }).catch(e => e);
+      const result = await executeSwap(nativeQuote, { type: 'native', txExecutor }, undefined, undefined, {}, { throwOnError: false });
+
+      expect(error).toBeInstanceOf(AoriSwapError);
+      expect(error.message).toBe('insufficient funds');
+      expect(error).toMatchObject({ step: 'depositing', orderHash: nativeQuote.orderHash, swap: nativeResponse });
+      expect(result).toEqual({
+        outcome: 'failed',
+        orderHash: nativeQuote.orderHash,
+        swap: nativeResponse,
+        depositTx: { success: false, txHash: '', error: 'insufficient funds' },
+        error: expect.any(AoriSwapError)
+      });
+    });
+
+    it('should report the failed step and keep the API error as the cause', async () => {
+      server.use(
+        http.post('https://api.aori.io/swap', () => {
+          return HttpResponse.json({ message: 'Quote expired' }, { status: 400 })
+        })
+      )
+
+      const result = await executeSwap(nativeQuote, { type: 'native', txExecutor: { sendTransaction: jest.fn() } }, undefined, undefined, {}, { throwOnError: false });
+
+      expect(result).toMatchObject({ outcome: 'failed', error: { step: 'submitting', cause: expect.any(AoriApiError) } });
+      expect(result).not.toHaveProperty('swap');
+    });
+  });
+
+  describe('Slippage protection', () => {
+    const quoteRequest = {
+      offerer: '0x' + '55'.repeat(20),
+      recipient: '0x' + '55'.repeat(20),
+      inputToken: NATIVE_TOKEN_ADDRESS,
+      outputToken: '0x' + '33'.repeat(20),
+      inputAmount: '1000',
+      inputChain: 'base',
+      outputChain: 'arbitrum'
+    };
+    const quote = {
+      ...quoteRequest,
+      orderHash: '0x' + '12'.repeat(32),
+      outputAmount: '990',
+      startTime: 1,
+      endTime: 2,
+      estimatedTime: 10
+    };
+
+    let requests: any[];
+    beforeEach(() => {
+      requests = [];
+      server.use(
+        http.post('https://api.aori.io/quote', async ({ request }) => {
+          requests.push(await request.json());
+          return HttpResponse.json(quote)
+        })
+      )
+    });
+
+    it('should use the higher of the minimum output and the reference output less the slippage', () => {
+      expect(getMinOutputAmount({})).toBeUndefined();
+      expect(getMinOutputAmount({ minOutputAmount: BigInt(980) })).toBe(BigInt(980));
+      expect(getMinOutputAmount({ maxSlippageBps: 50, referenceOutputAmount: '1000' })).toBe(BigInt(995));
+      expect(getMinOutputAmount({ minOutputAmount: 999, maxSlippageBps: 50, referenceOutputAmount: '1000' })).toBe(BigInt(999));
+    });
+
+    it('should return quotes that reach the minimum output without sending it to the API', async () => {
+      await expect(getQuote({ ...quoteRequest, minOutputAmount: '990' })).resolves.toEqual(quote);
+
+      expect(requests[0]).not.toHaveProperty('minOutputAmount');
+    });
+
+    it('should reject quotes below the reference output less the maximum slippage', async () => {
+      const error = await getQuote({ ...quoteRequest, maxSlippageBps: 50, referenceOutputAmount: '1000' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(AoriSlippageError);
+      expect(error.message).toBe('Quoted output 990 is below the minimum output 995 (100 bps below the reference output 1000)');
+      expect(error).toMatchObject({ outputAmount: '990', minOutputAmount: '995', referenceOutputAmount: '1000', slippageBps: 100 });
+    });
+
+    it('should reject invalid settings before requesting a quote', async () => {
+      await expect(getQuote({ ...quoteRequest, maxSlippageBps: 50 })).rejects.toMatchObject({ field: 'referenceOutputAmount' });
+      await expect(getQuote({ ...quoteRequest, maxSlippageBps: 10001, referenceOutputAmount: '1000' })).rejects.toThrow(AoriValidationError);
+      await expect(getQuote({ ...quoteRequest, minOutputAmount: '9.5' })).rejects.toMatchObject({ field: 'minOutputAmount' });
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should reject the quote in executeSwap before submitting', async () => {
+      let submitted = false;
+      server.use(
+        http.post('https://api.aori.io/swap', () => {
+          submitted = true;
+          return HttpResponse.json({})
+        })
+      )
+
+      const error = await executeSwap(quote, {
+        type: 'native',
+        txExecutor: { sendTransaction: jest.fn() },
+        slippage: { minOutputAmount: '1000' }
+      }).catch(e => e);
+
+      expect(error).toMatchObject({ step: 'validating', cause: expect.any(AoriSlippageError) });
+      expect(submitted).toBe(false);
+    });
+  });
+
+  describe('Exact-output quotes', () => {
+    const quoteRequest = {
+      offerer: '0x' + '55'.repeat(20),
+      recipient: '0x' + '55'.repeat(20),
+      inputToken: NATIVE_TOKEN_ADDRESS,
+      outputToken: '0x' + '33'.repeat(20),
+      outputAmount: '100000',
+      inputChain: 'base',
+      outputChain: 'arbitrum'
+    };
+    const quoteFor = (inputAmount: string, outputAmount: string) => ({
+      ...quoteRequest,
+      orderHash: '0x' + '12'.repeat(32),
+      inputAmount,
+      outputAmount,
+      startTime: 1,
+      endTime: 2,
+      estimatedTime: 10
+    });
+
+    let requests: any[];
+    // An API without exact-output support, pricing the output at half the input less a fixed fee,
+    // and the reverse direction at twice the input
+    beforeEach(() => {
+      requests = [];
+      server.use(
+        http.post('https://api.aori.io/quote', async ({ request }) => {
+          const body: any = await request.json();
+          requests.push(body);
+          if (body.inputAmount === undefined) {
+            return HttpResponse.json({ message: 'inputAmount is required' }, { status: 400 });
+          }
+          const output = body.inputToken === quoteRequest.inputToken
+            ? BigInt(body.inputAmount) / BigInt(2) - BigInt(700)
+            : BigInt(body.inputAmount) * BigInt(2);
+          return HttpResponse.json(quoteFor(body.inputAmount, output.toString()));
+        })
+      )
+    });
+
+    it('should use exact-output quotes from the API', async () => {
+      server.use(
+        http.post('https://api.aori.io/quote', async ({ request }) => {
+          const body: any = await request.json();
+          requests.push(body);
+          return HttpResponse.json(quoteFor('201400', body.outputAmount));
+        })
+      );
+
+      await expect(getQuote({ ...quoteRequest, outputAmount: BigInt(100000) })).resolves.toEqual(quoteFor('201400', '100000'));
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({ outputAmount: '100000' });
+      expect(requests[0]).not.toHaveProperty('inputAmount');
+    });
+
+    it('should search exact-input quotes when the API does not support exact outputs', async () => {
+      const quote = await getQuote(quoteRequest);
+
+      const output = BigInt(quote.outputAmount);
+      expect(output >= BigInt(100000) && output <= BigInt(100100)).toBe(true);
+      expect(requests[0]).not.toHaveProperty('inputAmount');
+      // One rejected exact-output request and a reverse quote for the first input, then the search
+      expect(requests[1]).toMatchObject({ inputToken: quoteRequest.outputToken, outputToken: quoteRequest.inputToken, inputAmount: '100000' });
+      expect(requests.length).toBeLessThanOrEqual(4);
+      expect(requests.slice(1).every(body => body.outputAmount === undefined)).toBe(true);
+    });
+
+    it('should search within the configured tolerance', async () => {
+      const quote = await getQuote({
+        ...quoteRequest,
+        exactOutput: { strategy: 'search', toleranceBps: 0, initialInputAmount: '1000000' }
+      });
+
+      expect(quote.outputAmount).toBe('100000');
+      expect(requests[0].inputAmount).toBe('1000000');
+    });
+
+    it('should fail when the search does not converge', async () => {
+      const error = await getQuote({
+        ...quoteRequest,
+        exactOutput: { strategy: 'search', maxIterations: 1 }
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(AoriError);
+      expect(error.message).toBe('No quote within 10 bps above the output amount 100000 after 1 exact-input quotes');
+      await expect(getQuote({ ...quoteRequest, exactOutput: { toleranceBps: -1 } })).rejects.toMatchObject({ field: 'toleranceBps' });
+      await expect(getQuote({ ...quoteRequest, outputAmount: '0' })).rejects.toThrow(AoriValidationError);
+      // The reverse quote and one exact-input quote
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should start the search in the units of the input token when the decimals differ', async () => {
+      const usdc = '0x' + '66'.repeat(20);
+      const weth = '0x' + '77'.repeat(20);
+      const scale = BigInt(10) ** BigInt(12);
+      // 6-decimal USDC for 18-decimal WETH at par, less a 0.1% fee in both directions
+      server.use(
+        http.post('https://api.aori.io/quote', async ({ request }) => {
+          const body: any = await request.json();
+          requests.push(body);
+          const input = BigInt(body.inputAmount);
+          const output = body.inputToken === usdc ? input * scale : input / scale;
+          return HttpResponse.json(quoteFor(body.inputAmount, (output * BigInt(999) / BigInt(1000)).toString()));
+        })
+      );
+
+      const quote = await getQuote({
+        ...quoteRequest,
+        inputToken: usdc,
+        outputToken: weth,
+        outputAmount: '5000000000000000000',
+        exactOutput: { strategy: 'search' }
+      });
+
+      const output = BigInt(quote.outputAmount);
+      expect(output >= BigInt('5000000000000000000') && output <= BigInt('5005000000000000000')).toBe(true);
+      expect(requests[0]).toMatchObject({ inputToken: weth, inputAmount: '5000000000000000000' });
+      expect(requests.slice(1).every(body => BigInt(body.inputAmount) < BigInt(10000000))).toBe(true);
+      expect(requests.length).toBeLessThanOrEqual(3);
+    });
+
+    it('should require an initial input when the reverse pair cannot be quoted and grow rejected inputs', async () => {
+      const usdc = '0x' + '66'.repeat(20);
+      const weth = '0x' + '77'.repeat(20);
+      const scale = BigInt(10) ** BigInt(12);
+      // 6-decimal USDC for 18-decimal WETH at par, which can't be quoted in reverse or below 2 USDC
+      server.use(
+        http.post('https://api.aori.io/quote', async ({ request }) => {
+          const body: any = await request.json();
+          requests.push(body);
+          if (body.inputToken !== usdc) {
+            return HttpResponse.json({ message: 'Unsupported pair' }, { status: 404 });
+          }
+          if (BigInt(body.inputAmount) < BigInt(2000000)) {
+            return HttpResponse.json({ message: 'inputAmount is below the minimum' }, { status: 400 });
+          }
+          return HttpResponse.json(quoteFor(body.inputAmount, (BigInt(body.inputAmount) * scale).toString()));
+        })
+      );
+      const request = { ...quoteRequest, inputToken: usdc, outputToken: weth, outputAmount: '5000000000000000000' };
+
+      const error = await getQuote({ ...request, exactOutput: { strategy: 'search' } }).catch(e => e);
+      expect(error).toBeInstanceOf(AoriValidationError);
+      expect(error).toMatchObject({ field: 'initialInputAmount', cause: { status: 404 } });
+      expect(requests).toHaveLength(1);
+
+      requests = [];
+      const quote = await getQuote({ ...request, exactOutput: { strategy: 'search', initialInputAmount: '1000000' } });
+
+      const output = BigInt(quote.outputAmount);
+      expect(output >= BigInt('5000000000000000000') && output <= BigInt('5005000000000000000')).toBe(true);
+      expect(requests.map(body => body.inputAmount).slice(0, 2)).toEqual(['1000000', '2000000']);
+      expect(requests.every(body => BigInt(body.inputAmount) < BigInt(10000000))).toBe(true);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { sendMonitoredTransaction } from '../../src/monitor';
+import { executeNativeSwap } from '../../src/helpers';
+import { AoriTimeoutError, AoriValidationError } from '../../src/errors';
+import { NATIVE_TOKEN_ADDRESS } from '../../src/constants';
+
+const sender = '0x' + '55'.repeat(20);
+const request = {
+  to: '0x1234567890123456789012345678901234567890',
+  data: '0xabcdef12',
+  value: '1000',
+  gasLimit: '100000',
+  maxFeePerGas: '1000',
+  maxPriorityFeePerGas: '100'
+};
+
+const pending = () => new Promise(() => {});
+const mined = (delay = 0) => new Promise(resolve => setTimeout(() => resolve({ status: 1 }), delay));
+
+// Sends transactions 0x0, 0x1, ... whose waits are given in order
+const createExecutor = (...waits: Array<() => Promise<unknown>>) => {
+  let sent = 0;
+  return {
+    address: sender,
+    getNonce: jest.fn().mockResolvedValue(7),
+    getFeeData: jest.fn().mockResolvedValue({ maxFeePerGas: BigInt(500), maxPriorityFeePerGas: BigInt(200) }),
+    sendTransaction: jest.fn(async () => {
+      const index = sent++;
+      return { hash: `0x${index}`, wait: waits[index] ?? pending };
+    })
+  };
+};
+
+describe('Transaction monitor', () => {
+  it('should send and wait without replacements when not monitored', async () => {
+    const txExecutor = createExecutor(() => mined());
+
+    await expect(sendMonitoredTransaction(request, txExecutor))
+      .resolves.toEqual({ hash: '0x0', originalHash: '0x0', cancelled: false, receipt: { status: 1 } });
+    expect(txExecutor.getNonce).not.toHaveBeenCalled();
+  });
+
+  it('should speed up a stuck transaction with the same nonce and bumped fees', async () => {
+    const txExecutor = createExecutor(pending, () => mined());
+    const onReplaced = jest.fn();
+
+    const result = await sendMonitoredTransaction(request, txExecutor, { timeout: 10, onReplaced });
+
+    expect(txExecutor.sendTransaction).toHaveBeenNthCalledWith(1, { ...request, nonce: 7 });
+    // The max fee is bumped 15%, the priority fee is raised to the network fee
+    expect(txExecutor.sendTransaction).toHaveBeenNthCalledWith(2, { ...request, nonce: 7, maxFeePerGas: '1150', maxPriorityFeePerGas: '200' });
+    expect(onReplaced).toHaveBeenCalledWith({ previousHash: '0x0', hash: '0x1', attempt: 1, action: 'speedUp' });
+    expect(result).toMatchObject({ hash: '0x1', originalHash: '0x0', cancelled: false });
+  });
+
+  it('should report the original transaction if it is mined after a replacement was sent', async () => {
+    const txExecutor = createExecutor(() => mined(20), pending);
+
+    const result = await sendMonitoredTransaction(request, txExecutor, { timeout: 10 });
+
+    expect(txExecutor.sendTransaction).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ hash: '0x0', originalHash: '0x0', cancelled: false });
+  });
+
+  it('should replace a stuck deposit with a zero-value self-send', async () => {
+    const txExecutor = createExecutor(pending, () => mined());
+    const nativeResponse = {
+      orderHash: '0x' + '12'.repeat(32),
+      offerer: sender,
+      recipient: sender,
+      inputToken: NATIVE_TOKEN_ADDRESS,
+      outputToken: '0x' + '33'.repeat(20),
+      inputAmount: '1000',
+      outputAmount: '990',
+      inputChain: 'base',
+      outputChain: 'arbitrum',
+      startTime: 1,
+      endTime: 2,
+      status: 'pending',
+      createdAt: 1,
+      to: request.to,
+      data: request.data,
+      value: '1000'
+    };
+
+    const result = await executeNativeSwap(
+      nativeResponse, txExecutor, '100000', undefined, { maxFeePerGas: '1000', maxPriorityFeePerGas: '100' }, { timeout: 10, action: 'cancel' }
+    );
+
+    expect(txExecutor.sendTransaction).toHaveBeenLastCalledWith({
+      to: sender, data: '0x', value: '0', gasLimit: '21000', nonce: 7, maxFeePerGas: '1150', maxPriorityFeePerGas: '200'
+    });
+    expect(result).toEqual({
+      success: false,
+      txHash: '0x1',
+      originalTxHash: '0x0',
+      error: 'Deposit transaction was replaced with a cancellation'
+    });
+  });
+
+  it('should give up after the maximum number of replacements', async () => {
+    const txExecutor = createExecutor();
+
+    await expect(sendMonitoredTransaction(request, txExecutor, { timeout: 5, maxReplacements: 2 }))
+      .rejects.toThrow(AoriTimeoutError);
+    expect(txExecutor.sendTransaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('should check the executor can replace transactions before sending', async () => {
+    const { sendTransaction } = createExecutor();
+
+    await expect(sendMonitoredTransaction(request, { sendTransaction }, { timeout: 10 }))
+      .rejects.toThrow('Replacing transactions requires an executor that implements getNonce');
+    await expect(sendMonitoredTransaction({ ...request, maxFeePerGas: undefined }, { sendTransaction, getNonce: async () => 1 }, { timeout: 10 }))
+      .rejects.toThrow(AoriValidationError);
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+});
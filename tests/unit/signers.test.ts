@@ -0,0 +1,156 @@
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import { ethers } from 'ethers';
+import { createHardwareWalletSigner, createHttpSigner, createKmsSigner, createLocalSigner, toDigestSigner } from '../../src/signers';
+import { computeOrderHash, computeSigningHash, recoverOrderSigner, signOrder, signReadableOrder } from '../../src/helpers';
+import { AoriError, AoriValidationError } from '../../src/errors';
+import { ChainInfo, ERC20QuoteResponse } from '../../src/types';
+
+const wallet = new ethers.Wallet('0x' + '01'.repeat(32));
+const inputChain: ChainInfo = { chainKey: 'base', chainId: 8453, eid: 30184, address: '0x1234567890123456789012345678901234567890' };
+const outputChain: ChainInfo = { chainKey: 'arbitrum', chainId: 42161, eid: 30110, address: '0x9876543210987654321098765432109876543210' };
+const domainInfo = { domainTypeString: '', name: 'Aori', orderTypeString: '', version: '0.3.1' };
+const typedDataParams = {
+  srcEid: inputChain.eid,
+  dstEid: outputChain.eid,
+  chainId: inputChain.chainId,
+  verifyingContract: inputChain.address as `0x${string}`,
+  domainInfo
+};
+
+const order = {
+  offerer: wallet.address,
+  recipient: wallet.address,
+  inputToken: '0x' + '22'.repeat(20),
+  outputToken: '0x' + '33'.repeat(20),
+  inputAmount: '1000',
+  outputAmount: '990',
+  inputChain: 'base',
+  outputChain: 'arbitrum',
+  startTime: 1,
+  endTime: 2,
+  estimatedTime: 10
+};
+const quote: ERC20QuoteResponse = { ...order, orderHash: '', signingHash: '' };
+quote.orderHash = computeOrderHash({ ...order, srcEid: typedDataParams.srcEid, dstEid: typedDataParams.dstEid });
+quote.signingHash = computeSigningHash(quote, typedDataParams);
+
+// Encodes an unsigned big-endian integer as a DER INTEGER
+const derInteger = (value: string) => {
+  let bytes = ethers.getBytes(ethers.toBeHex(BigInt(value)));
+  if (bytes[0] & 0x80) {
+    bytes = ethers.getBytes(ethers.concat(['0x00', bytes]));
+  }
+  return ethers.concat(['0x02', ethers.toBeHex(bytes.length, 1), bytes]);
+};
+const derSignature = (r: string, s: string) => {
+  const body = ethers.getBytes(ethers.concat([derInteger(r), derInteger(s)]));
+  return ethers.getBytes(ethers.concat(['0x30', ethers.toBeHex(body.length, 1), body]));
+};
+
+describe('Signers', () => {
+  const server = setupServer();
+
+  beforeAll(() => server.listen())
+  afterEach(() => server.resetHandlers())
+  afterAll(() => server.close())
+
+  it('should keep raw private keys working as a local signer', async () => {
+    const legacy = await signOrder(quote, { privateKey: wallet.privateKey });
+    const local = await signOrder(quote, createLocalSigner(wallet.privateKey));
+
+    expect(local).toBe(legacy);
+    expect(await toDigestSigner({ privateKey: wallet.privateKey }).getAddress()).toBe(wallet.address);
+    expect(() => toDigestSigner({} as any)).toThrow(AoriValidationError);
+  });
+
+  it('should sign typed data orders with a digest signer', async () => {
+    const { signature } = await signReadableOrder(
+      quote, createLocalSigner(wallet.privateKey), wallet.address, undefined, undefined, inputChain, outputChain, domainInfo
+    );
+
+    expect(recoverOrderSigner(quote, signature, typedDataParams)).toBe(wallet.address);
+  });
+
+  it('should normalize KMS signatures and derive the recovery id', async () => {
+    const sign = jest.fn(async (digest: Uint8Array) => {
+      const { r, s } = wallet.signingKey.sign(digest);
+      // KMS keys may return the high-s form of a signature
+      const highS = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141') - BigInt(s);
+      return derSignature(r, ethers.toBeHex(highS));
+    });
+
+    const signature = await signOrder(quote, createKmsSigner({ address: wallet.address, sign }));
+
+    expect(signature).toBe(wallet.signingKey.sign(quote.signingHash).serialized);
+    expect(sign).toHaveBeenCalledWith(ethers.getBytes(quote.signingHash));
+  });
+
+  it('should reject KMS signatures from a different key', async () => {
+    const other = new ethers.Wallet('0x' + '02'.repeat(32));
+    const signer = createKmsSigner({
+      address: wallet.address,
+      sign: async (digest) => {
+        const { r, s } = other.signingKey.sign(digest);
+        return derSignature(r, s);
+      }
+    });
+
+    await expect(signOrder(quote, signer)).rejects.toThrow(AoriError);
+  });
+
+  it('should sign with an HTTP signing service', async () => {
+    let body: any;
+    let authorization: string | null = null;
+    server.use(
+      http.get('https://signer.example.com/v1/address', () => {
+        return HttpResponse.json({ address: wallet.address })
+      }),
+      http.post('https://signer.example.com/v1/sign', async ({ request }) => {
+        body = await request.json();
+        authorization = request.headers.get('authorization');
+        return HttpResponse.json({ signature: wallet.signingKey.sign(body.digest).serialized })
+      })
+    )
+    const signer = createHttpSigner({ url: 'https://signer.example.com/v1', headers: { authorization: 'Bearer token' } });
+
+    const signature = await signOrder(quote, signer, typedDataParams);
+
+    expect(await signer.getAddress()).toBe(wallet.address);
+    expect(recoverOrderSigner(quote, signature, typedDataParams)).toBe(wallet.address);
+    expect(authorization).toBe('Bearer token');
+    expect(body).toMatchObject({ address: wallet.address, digest: quote.signingHash, typedData: { digest: quote.signingHash } });
+  });
+
+  it('should sign the EIP-712 hashes with a hardware wallet', async () => {
+    const signTypedDataHashes = jest.fn(async (domainSeparator: string, structHash: string) => {
+      const { r, s, yParity } = wallet.signingKey.sign(ethers.keccak256(ethers.concat(['0x1901', domainSeparator, structHash])));
+      // Devices report unprefixed r and s
+      return { v: yParity, r: r.slice(2), s: s.slice(2) };
+    });
+    const signer = createHardwareWalletSigner({ address: wallet.address, signTypedDataHashes });
+
+    await expect(signOrder(quote, signer)).rejects.toThrow('Hardware wallets can only sign EIP-712 typed data');
+
+    const signature = await signOrder(quote, signer, typedDataParams);
+
+    expect(recoverOrderSigner(quote, signature, typedDataParams)).toBe(wallet.address);
+  });
+
+  it('should read v from hardware wallets as a decimal or 0x-prefixed hex string', async () => {
+    const signWith = (format: (v: number) => string) => createHardwareWalletSigner({
+      address: wallet.address,
+      signTypedDataHashes: async (domainSeparator, structHash) => {
+        const { r, s, v } = wallet.signingKey.sign(ethers.keccak256(ethers.concat(['0x1901', domainSeparator, structHash])));
+        return { v: format(v), r, s };
+      }
+    });
+
+    for (const format of [(v: number) => String(v), (v: number) => ethers.toBeHex(v)]) {
+      const signature = await signOrder(quote, signWith(format), typedDataParams);
+      expect(recoverOrderSigner(quote, signature, typedDataParams)).toBe(wallet.address);
+    }
+
+    await expect(signOrder(quote, signWith(() => 'zz'), typedDataParams)).rejects.toBeInstanceOf(AoriValidationError);
+  });
+});
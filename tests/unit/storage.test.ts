@@ -0,0 +1,137 @@
+import {
+  createFileSwapStore,
+  createKeyValueSwapStore,
+  createLocalStorageSwapStore,
+  createMemorySwapStore
+} from '../../src/storage';
+import { SwapSnapshot, SwapStore } from '../../src/types';
+
+const snapshot = (orderHash: string, state: SwapSnapshot['state'] = 'submitted'): SwapSnapshot => ({
+  state,
+  orderHash,
+  quote: {
+    orderHash,
+    offerer: '0x' + '55'.repeat(20),
+    recipient: '0x' + '55'.repeat(20),
+    inputToken: '0x' + '22'.repeat(20),
+    outputToken: '0x' + '33'.repeat(20),
+    inputAmount: '1000',
+    outputAmount: '990',
+    inputChain: 'base',
+    outputChain: 'arbitrum',
+    startTime: 1,
+    endTime: 2,
+    estimatedTime: 10,
+    signingHash: '0x' + '44'.repeat(32)
+  },
+  updatedAt: 1
+});
+
+// A Web Storage implementation over a Map
+const createWebStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    }
+  };
+};
+
+// A file system with a single directory of files
+const createFileSystem = () => {
+  const files = new Map<string, string>();
+  return {
+    files,
+    readFile: jest.fn(async (path: string) => {
+      const contents = files.get(path);
+      if (contents === undefined) {
+        throw Object.assign(new Error(`ENOENT: no such file or directory, open '${path}'`), { code: 'ENOENT' });
+      }
+      return contents;
+    }),
+    writeFile: jest.fn(async (path: string, data: string) => {
+      files.set(path, data);
+    })
+  };
+};
+
+describe('Swap stores', () => {
+  const stores: Array<[string, () => SwapStore]> = [
+    ['memory', () => createMemorySwapStore()],
+    ['file', () => createFileSwapStore('swaps.json', createFileSystem())],
+    ['localStorage', () => createLocalStorageSwapStore(createWebStorage())],
+    ['key-value', () => {
+      const items = new Map<string, unknown>();
+      return createKeyValueSwapStore({
+        get: async (key) => items.get(key),
+        set: async (key, value) => {
+          items.set(key, value);
+        },
+        del: async (key) => {
+          items.delete(key);
+        },
+        keys: async () => [...items.keys()]
+      });
+    }]
+  ];
+
+  it.each(stores)('should store, list and delete swaps in the %s store', async (_, createStore) => {
+    const store = createStore();
+
+    await expect(store.get('0x01')).resolves.toBeUndefined();
+    await store.set(snapshot('0x01'));
+    await store.set(snapshot('0x02'));
+    await store.set(snapshot('0x01', 'received'));
+
+    await expect(store.get('0x01')).resolves.toEqual(snapshot('0x01', 'received'));
+    await expect(store.list()).resolves.toEqual([snapshot('0x01', 'received'), snapshot('0x02')]);
+
+    await store.delete('0x01');
+    await expect(store.list()).resolves.toEqual([snapshot('0x02')]);
+  });
+
+  it('should not share stored snapshots with the caller', async () => {
+    const store = createMemorySwapStore();
+    const stored = snapshot('0x01');
+
+    await store.set(stored);
+    stored.state = 'completed';
+
+    await expect(store.get('0x01')).resolves.toMatchObject({ state: 'submitted' });
+  });
+
+  it('should queue concurrent writes to the file store', async () => {
+    const fileSystem = createFileSystem();
+    const store = createFileSwapStore('swaps.json', fileSystem);
+
+    await Promise.all([store.set(snapshot('0x01')), store.set(snapshot('0x02')), store.set(snapshot('0x03'))]);
+
+    expect(Object.keys(JSON.parse(fileSystem.files.get('swaps.json')!))).toEqual(['0x01', '0x02', '0x03']);
+    fileSystem.readFile.mockRejectedValueOnce(Object.assign(new Error('EACCES'), { code: 'EACCES' }));
+    await expect(store.list()).rejects.toThrow('EACCES');
+  });
+
+  it('should only list swaps under its prefix', async () => {
+    const storage = createWebStorage();
+    storage.setItem('theme', 'dark');
+    storage.setItem('other:0x01', JSON.stringify(snapshot('0x01')));
+    const store = createLocalStorageSwapStore(storage, 'other:');
+
+    await store.set(snapshot('0x02'));
+
+    await expect(store.list()).resolves.toEqual([snapshot('0x01'), snapshot('0x02')]);
+    expect(storage.getItem('other:0x02')).not.toBeNull();
+  });
+
+  it('should require localStorage when no storage is given', async () => {
+    await expect(createLocalStorageSwapStore().list()).rejects.toThrow('No localStorage available');
+  });
+});
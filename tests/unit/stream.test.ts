@@ -0,0 +1,183 @@
+import { AoriEventStream } from '../../src/stream';
+import { SubscriptionManager } from '../../src/subscriptions';
+import { AoriError, AoriNetworkError } from '../../src/errors';
+import { StreamOptions, WSEvent } from '../../src/types';
+
+class FakeWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send() {}
+
+  close = jest.fn(() => {
+    this.readyState = FakeWebSocket.CLOSED;
+  });
+
+  // Test helpers
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.({});
+  }
+
+  message(data: unknown) {
+    this.onmessage?.({ data: JSON.stringify(data) });
+  }
+
+  drop(code = 1006, reason = '') {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason, wasClean: false });
+  }
+}
+
+const event = (orderHash: string) => ({ eventType: 'created', timestamp: 1, order: { orderHash } });
+
+describe('AoriEventStream', () => {
+  let manager: SubscriptionManager;
+  const ws = () => FakeWebSocket.instances[0];
+  const createStream = (options?: StreamOptions) =>
+    new AoriEventStream(callbacks => manager.subscribe({}, callbacks), options);
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    (global as any).WebSocket = FakeWebSocket;
+    manager = new SubscriptionManager(() => 'wss://api.aori.io/stream', { reconnect: false });
+  });
+
+  afterEach(() => {
+    delete (global as any).WebSocket;
+  });
+
+  it('should yield buffered and incoming events in order', async () => {
+    const stream = createStream();
+    ws().open();
+    ws().message(event('0x1'));
+
+    const received: string[] = [];
+    const consume = (async () => {
+      for await (const wsEvent of stream) {
+        received.push(wsEvent.order.orderHash);
+        if (received.length === 2) {
+          break;
+        }
+      }
+    })();
+
+    await Promise.resolve();
+    ws().message(event('0x2'));
+    await consume;
+
+    expect(received).toEqual(['0x1', '0x2']);
+    // Exiting the loop closes the subscription and its connection
+    expect(ws().close).toHaveBeenCalled();
+    expect(manager.getSubscriptions()).toEqual([]);
+  });
+
+  it('should end with the abort reason when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const stream = createStream({ signal: controller.signal });
+    ws().open();
+
+    const next = stream.next();
+    controller.abort();
+
+    await expect(next).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(stream.next()).resolves.toEqual({ value: undefined, done: true });
+    expect(ws().close).toHaveBeenCalled();
+  });
+
+  it('should reject with the close error after delivering buffered events', async () => {
+    const stream = createStream();
+    ws().open();
+    ws().message(event('0x1'));
+    ws().drop(1008, 'Invalid API key');
+
+    await expect(stream.next()).resolves.toMatchObject({ value: event('0x1'), done: false });
+    await expect(stream.next()).rejects.toBeInstanceOf(AoriNetworkError);
+    await expect(stream.next()).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  describe('with the default reconnect settings', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      manager = new SubscriptionManager(() => 'wss://api.aori.io/stream');
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should reject when the connection drops', async () => {
+      const stream = createStream();
+      ws().open();
+      ws().message(event('0x1'));
+      ws().drop(1006);
+
+      await expect(stream.next()).resolves.toMatchObject({ value: event('0x1'), done: false });
+      await expect(stream.next()).rejects.toThrow(new AoriNetworkError('WebSocket connection closed (code 1006)', { endpoint: 'WS /stream' }));
+      jest.advanceTimersByTime(60000);
+      expect(FakeWebSocket.instances).toHaveLength(1);
+      expect(manager.getSubscriptions()).toEqual([]);
+    });
+
+    it('should continue after reconnects when failOnDisconnect is false', async () => {
+      const stream = createStream({ failOnDisconnect: false });
+      ws().open();
+      ws().drop(1006);
+      jest.advanceTimersByTime(60000);
+      FakeWebSocket.instances[1].open();
+      FakeWebSocket.instances[1].message(event('0x2'));
+
+      await expect(stream.next()).resolves.toMatchObject({ value: event('0x2'), done: false });
+      await stream.return();
+    });
+  });
+
+  it('should end without an error when the subscription is closed by the caller', async () => {
+    const stream = createStream();
+    ws().open();
+
+    const next = stream.next();
+    manager.closeAll();
+
+    await expect(next).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it('should fail when the buffer overflows by default', async () => {
+    const stream = createStream({ bufferSize: 2 });
+    ws().open();
+    ['0x1', '0x2', '0x3'].forEach(hash => ws().message(event(hash)));
+
+    await stream.next();
+    await stream.next();
+    await expect(stream.next()).rejects.toThrow(AoriError);
+    expect(ws().close).toHaveBeenCalled();
+  });
+
+  it.each([
+    ['drop-oldest', ['0x2', '0x3']],
+    ['drop-newest', ['0x1', '0x2']],
+  ] as const)('should apply the %s overflow strategy', async (overflow, expected) => {
+    const stream = createStream({ bufferSize: 2, overflow });
+    ws().open();
+    ['0x1', '0x2', '0x3'].forEach(hash => ws().message(event(hash)));
+
+    const first = await stream.next();
+    const second = await stream.next();
+    await stream.return();
+
+    expect([first.value, second.value].map(value => (value as WSEvent).order.orderHash)).toEqual(expected);
+  });
+});
@@ -0,0 +1,155 @@
+import { SubscriptionManager } from '../../src/subscriptions';
+import { AoriNetworkError } from '../../src/errors';
+import { SubscriptionParams } from '../../src/types';
+
+class FakeWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send() {}
+
+  close = jest.fn(() => {
+    this.readyState = FakeWebSocket.CLOSED;
+  });
+
+  // Test helpers
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.({});
+  }
+
+  message(data: unknown) {
+    this.onmessage?.({ data: JSON.stringify(data) });
+  }
+
+  drop(code = 1006, reason = '') {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason, wasClean: false });
+  }
+}
+
+describe('SubscriptionManager', () => {
+  const buildUrl = (filter: SubscriptionParams) => {
+    const url = new URL('wss://api.aori.io/stream');
+    for (const [key, value] of Object.entries(filter)) {
+      if (value) {
+        url.searchParams.append(key, value);
+      }
+    }
+    return url.toString();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeWebSocket.instances = [];
+    (global as any).WebSocket = FakeWebSocket;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (global as any).WebSocket;
+  });
+
+  it('should share one connection between subscriptions with the same filter', async () => {
+    const manager = new SubscriptionManager(buildUrl);
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const a = manager.subscribe({ offerer: '0xabc', inputChain: 'base' }, { onMessage: first });
+    const b = manager.subscribe({ inputChain: 'base', offerer: '0xabc' }, { onMessage: second });
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    FakeWebSocket.instances[0].open();
+    await Promise.all([a.ready, b.ready]);
+
+    FakeWebSocket.instances[0].message({ eventType: 'created', timestamp: 1, order: { orderHash: '0x1' } });
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(manager.getConnectionCount()).toBe(1);
+  });
+
+  it('should open separate connections for different filters', () => {
+    const manager = new SubscriptionManager(buildUrl);
+
+    manager.subscribe({ offerer: '0xabc' });
+    manager.subscribe({ inputChain: 'base' });
+
+    expect(FakeWebSocket.instances.map(ws => ws.url)).toEqual([
+      'wss://api.aori.io/stream?offerer=0xabc',
+      'wss://api.aori.io/stream?inputChain=base',
+    ]);
+    expect(manager.getConnectionCount()).toBe(2);
+  });
+
+  it('should close the shared connection only when the last subscription leaves', async () => {
+    const manager = new SubscriptionManager(buildUrl);
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const a = manager.subscribe({}, { onMessage: first });
+    const b = manager.subscribe({}, { onMessage: second });
+    const ws = FakeWebSocket.instances[0];
+    ws.open();
+
+    a.unsubscribe();
+    ws.message({ eventType: 'created', timestamp: 1, order: { orderHash: '0x1' } });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(ws.close).not.toHaveBeenCalled();
+    expect(a.getState()).toBe('closed');
+    expect(b.getState()).toBe('open');
+
+    b.unsubscribe();
+    expect(ws.close).toHaveBeenCalled();
+    expect(manager.getSubscriptions()).toEqual([]);
+  });
+
+  it('should mark late subscribers to an open connection as connected', async () => {
+    const manager = new SubscriptionManager(buildUrl);
+    manager.subscribe({});
+    FakeWebSocket.instances[0].open();
+
+    const onConnect = jest.fn();
+    const late = manager.subscribe({}, { onConnect });
+
+    await late.ready;
+    expect(onConnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close all subscriptions when their connection gives up', async () => {
+    const manager = new SubscriptionManager(buildUrl, { reconnect: false });
+    const a = manager.subscribe({});
+    const b = manager.subscribe({});
+
+    FakeWebSocket.instances[0].drop(1008, 'Invalid API key');
+
+    await expect(a.ready).rejects.toBeInstanceOf(AoriNetworkError);
+    await expect(b.ready).rejects.toThrow('Invalid API key');
+    expect(a.isActive()).toBe(false);
+    expect(manager.getConnectionCount()).toBe(0);
+  });
+
+  it('should give subscriptions with custom options a dedicated connection', () => {
+    const manager = new SubscriptionManager(buildUrl);
+
+    manager.subscribe({});
+    manager.subscribe({}, {}, { reconnect: false });
+
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+});
@@ -0,0 +1,404 @@
+import { delay, http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import { ethers } from 'ethers';
+import { AoriSwap, resumeSwaps } from '../../src/swap';
+import { Aori } from '../../src/core';
+import { createLocalSigner } from '../../src/signers';
+import { createMemorySwapStore } from '../../src/storage';
+import { computeOrderHash, computeSigningHash } from '../../src/helpers';
+import { NATIVE_TOKEN_ADDRESS } from '../../src/constants';
+import { ChainInfo, ERC20QuoteResponse, NativeQuoteResponse, SwapProgressEvent, SwapSnapshot } from '../../src/types';
+
+const wallet = new ethers.Wallet('0x' + '01'.repeat(32));
+const chains: ChainInfo[] = [
+  { chainKey: 'base', chainId: 8453, eid: 30184, address: '0x1234567890123456789012345678901234567890' },
+  { chainKey: 'arbitrum', chainId: 42161, eid: 30110, address: '0x9876543210987654321098765432109876543210' }
+];
+const domainInfo = { domainTypeString: '', name: 'Aori', orderTypeString: '', version: '0.3.1' };
+
+const future = () => Math.floor(Date.now() / 1000) + 600;
+const order = () => ({
+  offerer: wallet.address,
+  recipient: wallet.address,
+  inputToken: '0x' + '22'.repeat(20),
+  outputToken: '0x' + '33'.repeat(20),
+  inputAmount: '1000',
+  outputAmount: '990',
+  inputChain: 'base',
+  outputChain: 'arbitrum',
+  startTime: 1,
+  endTime: future(),
+  estimatedTime: 10
+});
+
+const erc20Quote = (): ERC20QuoteResponse => {
+  const quote = { ...order(), orderHash: '', signingHash: '' };
+  const params = { srcEid: chains[0].eid, dstEid: chains[1].eid, chainId: chains[0].chainId, verifyingContract: chains[0].address as `0x${string}`, domainInfo };
+  quote.orderHash = computeOrderHash({ ...quote, srcEid: params.srcEid, dstEid: params.dstEid });
+  quote.signingHash = computeSigningHash(quote, params);
+  return quote;
+};
+
+const nativeQuote = (): NativeQuoteResponse => ({ ...order(), inputToken: NATIVE_TOKEN_ADDRESS, orderHash: '0x' + '12'.repeat(32) });
+
+const states = (events: SwapProgressEvent[]) => events.map(event => event.state);
+
+const nativeSnapshot = (state: SwapSnapshot['state'], quote = nativeQuote()): SwapSnapshot => ({
+  state,
+  quote,
+  orderHash: quote.orderHash,
+  swap: { ...quote, status: 'pending', createdAt: 1, to: chains[0].address, data: '0xabcdef12', value: quote.inputAmount },
+  updatedAt: 1
+});
+
+describe('AoriSwap', () => {
+  const server = setupServer(
+    http.get('https://api.aori.io/chains', () => {
+      return HttpResponse.json(chains)
+    }),
+    http.get('https://api.aori.io/domain', () => {
+      return HttpResponse.json(domainInfo)
+    })
+  )
+
+  beforeAll(() => server.listen())
+  afterEach(() => server.resetHandlers())
+  afterAll(() => server.close())
+
+  const respond = (quote: object, swap: object, ...statuses: object[]) => {
+    let calls = 0;
+    server.use(
+      http.post('https://api.aori.io/swap', () => {
+        return HttpResponse.json({ ...quote, status: 'pending', createdAt: 1, ...swap })
+      }),
+      http.get(/\/data\/status\//, () => {
+        return HttpResponse.json(statuses[Math.min(calls++, statuses.length - 1)])
+      })
+    )
+  };
+
+  it('should move a native swap through deposit, receipt and completion', async () => {
+    const quote = nativeQuote();
+    respond(
+      quote,
+      { to: chains[0].address, data: '0xabcdef12', value: quote.inputAmount },
+      { status: 'pending', timestamp: 1 },
+      { status: 'received', txHash: '0x1', txUrl: 'url', timestamp: 2 },
+      { status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 }
+    );
+    const txExecutor = { sendTransaction: jest.fn().mockResolvedValue({ hash: '0xdeposit', wait: jest.fn().mockResolvedValue({}) }) };
+    const events: SwapProgressEvent[] = [];
+
+    const swap = new AoriSwap(quote, { type: 'native', txExecutor }, { pollInterval: 5, onProgress: event => events.push(event) });
+    const result = await swap.execute();
+
+    expect(states(events)).toEqual(['quoted', 'submitted', 'depositing', 'received', 'completed']);
+    expect(events[4]).toMatchObject({ orderHash: quote.orderHash, previousState: 'received', status: { txHash: '0x2' } });
+    expect(result).toMatchObject({ state: 'completed', depositTxHash: '0xdeposit', swap: { orderHash: quote.orderHash } });
+    expect(swap.isFinished()).toBe(true);
+    await expect(swap.execute()).resolves.toBe(result);
+  });
+
+  it('should approve and sign ERC20 swaps and stop at received when asked', async () => {
+    const quote = erc20Quote();
+    respond(quote, {}, { status: 'received', txHash: '0x1', txUrl: 'url', timestamp: 2 });
+    const txExecutor = {
+      call: jest.fn().mockResolvedValue(ethers.ZeroHash),
+      sendTransaction: jest.fn().mockResolvedValue({ hash: '0xapprove', wait: jest.fn().mockResolvedValue({ status: 1 }) })
+    };
+    const swap = new AoriSwap(quote, {
+      type: 'erc20',
+      signer: createLocalSigner(wallet.privateKey),
+      userAddress: wallet.address,
+      approval: { txExecutor, spender: chains[0].address }
+    }, { until: 'received' });
+    const events: SwapProgressEvent[] = [];
+    const stop = swap.onProgress(event => events.push(event));
+
+    const result = await swap.execute();
+    stop();
+
+    expect(states(events)).toEqual(['quoted', 'approving', 'signing', 'submitted', 'received']);
+    expect(result.state).toBe('received');
+    expect(swap.isFinished()).toBe(false);
+  });
+
+  it('should fail with the order error or the deposit error', async () => {
+    const quote = nativeQuote();
+    respond(quote, { to: chains[0].address, data: '0xabcdef12', value: quote.inputAmount }, { status: 'failed', error: 'Solver reverted', timestamp: 2 });
+    const events: SwapProgressEvent[] = [];
+
+    const failedOrder = await new AoriSwap(quote, {
+      type: 'native',
+      txExecutor: { sendTransaction: jest.fn().mockResolvedValue({ hash: '0xdeposit', wait: jest.fn().mockResolvedValue({}) }) }
+    }, { onProgress: event => events.push(event) }).execute();
+    const failedDeposit = await new AoriSwap(quote, {
+      type: 'native',
+      txExecutor: { sendTransaction: jest.fn().mockRejectedValue(new Error('insufficient funds')) }
+    }).execute();
+
+    expect(failedOrder).toMatchObject({ state: 'failed', error: 'Solver reverted' });
+    expect(events[events.length - 1]).toMatchObject({ state: 'failed', previousState: 'depositing', error: expect.any(Error) });
+    expect(failedDeposit).toMatchObject({ state: 'failed', error: 'insufficient funds' });
+    expect(failedDeposit).not.toHaveProperty('depositTxHash');
+  });
+
+  it('should report cancelled orders', async () => {
+    const quote = erc20Quote();
+    respond(quote, {}, { status: 'cancelled', timestamp: 2 });
+
+    const result = await new AoriSwap(quote, { type: 'erc20', signer: createLocalSigner(wallet.privateKey), userAddress: wallet.address }).execute();
+
+    expect(result).toMatchObject({ state: 'cancelled', status: { status: 'cancelled' } });
+  });
+
+  it('should expire quotes whose endTime has passed without submitting them', async () => {
+    const quote = { ...nativeQuote(), endTime: Math.floor(Date.now() / 1000) - 1 };
+    const sendTransaction = jest.fn();
+    const events: SwapProgressEvent[] = [];
+
+    const result = await new AoriSwap(quote, { type: 'native', txExecutor: { sendTransaction } }, { onProgress: event => events.push(event) }).execute();
+
+    expect(result.state).toBe('expired');
+    expect(events[1]).toMatchObject({ state: 'expired', previousState: 'quoted', endTime: quote.endTime });
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should store the swap while it executes and remove it once finished', async () => {
+    const quote = nativeQuote();
+    respond(quote, { to: chains[0].address, data: '0xabcdef12', value: quote.inputAmount }, { status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 });
+    const store = createMemorySwapStore();
+    const set = jest.spyOn(store, 'set');
+    const txExecutor = { sendTransaction: jest.fn().mockResolvedValue({ hash: '0xdeposit', wait: jest.fn().mockResolvedValue({}) }) };
+
+    await new AoriSwap(quote, { type: 'native', txExecutor }, { store }).execute();
+
+    expect(set.mock.calls.map(([snapshot]) => snapshot.state)).toEqual(['quoted', 'submitted', 'depositing', 'depositing', 'completed']);
+    expect(set.mock.calls[2][0]).toMatchObject({ depositTxHash: '0xdeposit' });
+    await expect(store.list()).resolves.toEqual([]);
+  });
+
+  it('should reject when the swap cannot be stored', async () => {
+    const quote = { ...nativeQuote(), endTime: 1 };
+    const store = { ...createMemorySwapStore(), set: jest.fn().mockRejectedValue(new Error('Quota exceeded')) };
+
+    const execution = new AoriSwap(quote, { type: 'native', txExecutor: { sendTransaction: jest.fn() } }, { store }).execute();
+
+    await expect(execution).rejects.toThrow(`Failed to store swap ${quote.orderHash}: Quota exceeded`);
+  });
+
+  it('should deposit resumed native swaps whose deposit was never sent', async () => {
+    const quote = nativeQuote();
+    respond(
+      quote,
+      { to: chains[0].address, data: '0xabcdef12', value: quote.inputAmount },
+      { status: 'pending', timestamp: 1 },
+      { status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 }
+    );
+    const store = createMemorySwapStore();
+    // The wallet prompt is never answered, as if the process stopped there
+    const prompted = new Promise<void>(resolve => {
+      const sendTransaction = jest.fn(() => {
+        resolve();
+        return new Promise<never>(() => undefined);
+      });
+      void new AoriSwap(quote, { type: 'native', txExecutor: { sendTransaction } }, { store }).execute();
+    });
+    await prompted;
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const [stored] = await store.list();
+    expect(stored.state).toBe('submitted');
+    expect(stored).not.toHaveProperty('depositTxHash');
+
+    const txExecutor = { sendTransaction: jest.fn().mockResolvedValue({ hash: '0xdeposit', wait: jest.fn().mockResolvedValue({}) }) };
+    const events: SwapProgressEvent[] = [];
+    const [swap] = await resumeSwaps(store, { type: 'native', txExecutor }, { pollInterval: 5, onProgress: event => events.push(event) });
+    const result = await swap.execute();
+
+    expect(txExecutor.sendTransaction).toHaveBeenCalledWith(expect.objectContaining({ to: chains[0].address, value: quote.inputAmount }));
+    expect(states(events)).toEqual(['depositing', 'completed']);
+    expect(events[0]).toMatchObject({ txHash: '0xdeposit' });
+    expect(result).toMatchObject({ state: 'completed', depositTxHash: '0xdeposit' });
+    await expect(store.list()).resolves.toEqual([]);
+  });
+
+  it('should only track resumed swaps whose deposit was sent', async () => {
+    const quote = nativeQuote();
+    respond(quote, { to: chains[0].address, data: '0xabcdef12', value: quote.inputAmount }, { status: 'received', txHash: '0x1', txUrl: 'url', timestamp: 2 });
+    const store = createMemorySwapStore();
+    // The deposit is sent but the process stops before it is mined
+    const sent = new Promise<void>(resolve => {
+      const wait = jest.fn(() => {
+        resolve();
+        return new Promise<never>(() => undefined);
+      });
+      const txExecutor = { sendTransaction: jest.fn().mockResolvedValue({ hash: '0xdeposit', wait }) };
+      void new AoriSwap(quote, { type: 'native', txExecutor }, { store }).execute();
+    });
+    await sent;
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    await expect(store.list()).resolves.toEqual([expect.objectContaining({ state: 'depositing', depositTxHash: '0xdeposit' })]);
+
+    const sendTransaction = jest.fn();
+    const [swap] = await resumeSwaps(store, { type: 'native', txExecutor: { sendTransaction } }, { until: 'received' });
+
+    await expect(swap.execute()).resolves.toMatchObject({ state: 'received', depositTxHash: '0xdeposit' });
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should store the deposit hash before waiting for its receipt', async () => {
+    const quote = nativeQuote();
+    respond(quote, { to: chains[0].address, data: '0xabcdef12', value: quote.inputAmount }, { status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 });
+    const memory = createMemorySwapStore();
+    const store = {
+      ...memory,
+      set: async (snapshot: SwapSnapshot) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        await memory.set(snapshot);
+      }
+    };
+    let storedOnWait: SwapSnapshot[] = [];
+    const wait = jest.fn(async () => {
+      storedOnWait = await memory.list();
+      return {};
+    });
+    const txExecutor = { sendTransaction: jest.fn().mockResolvedValue({ hash: '0xdeposit', wait }) };
+
+    await new AoriSwap(quote, { type: 'native', txExecutor }, { store }).execute();
+
+    expect(wait).toHaveBeenCalled();
+    expect(storedOnWait).toEqual([expect.objectContaining({ state: 'depositing', depositTxHash: '0xdeposit' })]);
+  });
+
+  it('should not redeposit resumed swaps once the executor nonce moved', async () => {
+    const quote = nativeQuote();
+    respond(quote, { to: chains[0].address, data: '0xabcdef12', value: quote.inputAmount }, { status: 'received', txHash: '0x1', txUrl: 'url', timestamp: 2 });
+    const memory = createMemorySwapStore();
+    // The deposit is sent but the process stops before its hash is stored
+    const store = {
+      ...memory,
+      set: (snapshot: SwapSnapshot) => snapshot.depositTxHash ? new Promise<never>(() => undefined) : memory.set(snapshot)
+    };
+    const sent = new Promise<void>(resolve => {
+      const sendTransaction = jest.fn(async () => {
+        resolve();
+        return { hash: '0xdeposit', wait: jest.fn().mockResolvedValue({}) };
+      });
+      void new AoriSwap(quote, { type: 'native', txExecutor: { sendTransaction, getNonce: async () => 7 } }, { store }).execute();
+    });
+    await sent;
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    await expect(memory.list()).resolves.toEqual([expect.objectContaining({ state: 'submitted', depositNonce: 7 })]);
+
+    const sendTransaction = jest.fn();
+    const [swap] = await resumeSwaps(store, { type: 'native', txExecutor: { sendTransaction, getNonce: async () => 8 } }, { until: 'received' });
+
+    await expect(swap.execute()).resolves.toMatchObject({ state: 'received' });
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should keep swaps in the store when tracking a live order fails', async () => {
+    const quote = erc20Quote();
+    server.use(
+      http.post('https://api.aori.io/swap', () => {
+        return HttpResponse.json({ ...quote, status: 'pending', createdAt: 1 })
+      }),
+      http.get(/\/data\/status\//, () => {
+        return HttpResponse.json({ message: 'Forbidden' }, { status: 403 })
+      })
+    );
+    const store = createMemorySwapStore();
+
+    const result = await new AoriSwap(quote, { type: 'erc20', signer: createLocalSigner(wallet.privateKey), userAddress: wallet.address }, { store }).execute();
+
+    expect(result.state).toBe('failed');
+    const [stored] = await store.list();
+    expect(stored).toMatchObject({ state: 'submitted', swap: { orderHash: quote.orderHash } });
+    expect(stored).not.toHaveProperty('error');
+  });
+
+  it('should submit resumed swaps that never reached the API', async () => {
+    const quote = erc20Quote();
+    const submitted = jest.fn();
+    let submittedOrder = false;
+    server.use(
+      http.post('https://api.aori.io/swap', async ({ request }) => {
+        submitted(await request.json());
+        submittedOrder = true;
+        return HttpResponse.json({ ...quote, status: 'pending', createdAt: 1 })
+      }),
+      http.get(/\/data\/status\//, () => {
+        return submittedOrder
+          ? HttpResponse.json({ status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 })
+          : HttpResponse.json({ message: 'Order not found' }, { status: 404 })
+      })
+    );
+    const store = createMemorySwapStore();
+    await store.set({ state: 'signing', quote, orderHash: quote.orderHash, updatedAt: 1 });
+
+    const [swap] = await resumeSwaps(store, { type: 'erc20', signer: createLocalSigner(wallet.privateKey), userAddress: wallet.address });
+
+    await expect(swap.execute()).resolves.toMatchObject({ state: 'completed' });
+    expect(submitted).toHaveBeenCalledWith(expect.objectContaining({ orderHash: quote.orderHash }));
+  });
+
+  it('should cancel expired orders whose deposit was received', async () => {
+    const snapshot = { ...nativeSnapshot('received', { ...nativeQuote(), endTime: 1 }), depositTxHash: '0xdeposit' };
+    respond(snapshot.quote, {}, { status: 'received', txHash: '0x1', txUrl: 'url', timestamp: 2 });
+    server.use(
+      http.post('https://api.aori.io/cancel', () => {
+        return HttpResponse.json({ orderHash: snapshot.orderHash, to: chains[0].address, data: '0xdeadbeef', value: '0', chain: 'base' })
+      })
+    );
+    const cancelOnExpiry = { sendTransaction: jest.fn().mockResolvedValue({ hash: '0xcancel', wait: jest.fn().mockResolvedValue({}) }) };
+
+    const result = await AoriSwap.fromSnapshot(snapshot, { type: 'native', txExecutor: { sendTransaction: jest.fn() } }, { cancelOnExpiry }).execute();
+
+    expect(cancelOnExpiry.sendTransaction).toHaveBeenCalledWith(expect.objectContaining({ data: '0xdeadbeef' }));
+    expect(result).toMatchObject({ state: 'cancelled', status: { status: 'cancelled' } });
+  });
+
+  it('should keep tracking orders during the grace period after their endTime', async () => {
+    const snapshot = { ...nativeSnapshot('received', { ...nativeQuote(), endTime: Math.floor(Date.now() / 1000) - 1 }), depositTxHash: '0xdeposit' };
+    server.use(
+      http.get(/\/data\/status\//, async () => {
+        await delay(20);
+        return HttpResponse.json({ status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 })
+      })
+    );
+    const config = { type: 'native' as const, txExecutor: { sendTransaction: jest.fn() } };
+
+    await expect(AoriSwap.fromSnapshot(snapshot, config).execute()).resolves.toMatchObject({ state: 'completed' });
+    await expect(AoriSwap.fromSnapshot(snapshot, config, { expiryGracePeriod: 0 }).execute()).resolves.toMatchObject({ state: 'expired' });
+  });
+
+  it('should not cancel expired orders that settled in the meantime', async () => {
+    const snapshot = { ...nativeSnapshot('received', { ...nativeQuote(), endTime: 1 }), depositTxHash: '0xdeposit' };
+    let calls = 0;
+    server.use(
+      http.get(/\/data\/status\//, async () => {
+        // The first poll is still in flight when tracking times out
+        if (calls++ === 0) {
+          await delay(50);
+        }
+        return HttpResponse.json({ status: 'completed', txHash: '0x2', txUrl: 'url', timestamp: 3 })
+      })
+    );
+    const cancelOnExpiry = { sendTransaction: jest.fn() };
+
+    const result = await AoriSwap.fromSnapshot(snapshot, { type: 'native', txExecutor: { sendTransaction: jest.fn() } }, { cancelOnExpiry }).execute();
+
+    expect(result).toMatchObject({ state: 'completed', status: { status: 'completed' } });
+    expect(cancelOnExpiry.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should require a swap store to resume swaps on an Aori instance', async () => {
+    const aori = await Aori.create({ chains: { base: chains[0] }, domain: domainInfo });
+
+    await expect(aori.resumeSwaps({ type: 'native', txExecutor: { sendTransaction: jest.fn() } }))
+      .rejects.toThrow('No swap store configured');
+  });
+});
@@ -0,0 +1,238 @@
+import { AoriWebSocket } from '../../src/websocket';
+import { AoriError, AoriNetworkError } from '../../src/errors';
+import { WebSocketConnectionState } from '../../src/types';
+
+class FakeWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: string[] = [];
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close = jest.fn(() => {
+    this.readyState = FakeWebSocket.CLOSED;
+  });
+
+  // Test helpers
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.({});
+  }
+
+  message(data: unknown) {
+    this.onmessage?.({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+  }
+
+  drop(code = 1006, reason = '') {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onerror?.({ type: 'error' });
+    this.onclose?.({ code, reason, wasClean: false });
+  }
+}
+
+describe('AoriWebSocket', () => {
+  const latest = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeWebSocket.instances = [];
+    (global as any).WebSocket = FakeWebSocket;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (global as any).WebSocket;
+  });
+
+  it('should connect and deliver parsed events', async () => {
+    const onMessage = jest.fn();
+    const onConnect = jest.fn();
+    const socket = new AoriWebSocket('wss://api.aori.io/stream', { onMessage, onConnect });
+
+    const connected = socket.connect();
+    expect(socket.getState()).toBe('connecting');
+    latest().open();
+    await connected;
+
+    latest().message({ eventType: 'created', timestamp: 1, order: { orderHash: '0x1' } });
+
+    expect(socket.getState()).toBe('open');
+    expect(onConnect).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith({ eventType: 'created', timestamp: 1, order: { orderHash: '0x1' } });
+  });
+
+  it('should reconnect with backoff and report state transitions', async () => {
+    const states: WebSocketConnectionState[] = [];
+    const onReconnect = jest.fn();
+    const onDisconnect = jest.fn();
+    const socket = new AoriWebSocket('wss://api.aori.io/stream', {
+      onStateChange: (state) => states.push(state),
+      onReconnect,
+      onDisconnect
+    }, {
+      reconnect: { initialDelay: 100, multiplier: 2, jitter: false }
+    });
+
+    const connected = socket.connect();
+    latest().open();
+    await connected;
+
+    latest().drop();
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(onReconnect).toHaveBeenLastCalledWith(1, 100);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+
+    jest.advanceTimersByTime(100);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    latest().drop();
+    expect(onReconnect).toHaveBeenLastCalledWith(2, 200);
+
+    jest.advanceTimersByTime(200);
+    latest().open();
+
+    expect(states).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+    expect(socket.getState()).toBe('open');
+  });
+
+  it('should give up after maxAttempts and reject the pending connect', async () => {
+    const socket = new AoriWebSocket('wss://api.aori.io/stream', {}, {
+      reconnect: { maxAttempts: 1, maxConnectAttempts: 3, initialDelay: 10, jitter: false }
+    });
+
+    const connected = socket.connect();
+    latest().drop();
+    jest.advanceTimersByTime(10);
+    latest().drop();
+
+    await expect(connected).rejects.toBeInstanceOf(AoriNetworkError);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(socket.getState()).toBe('closed');
+  });
+
+  it('should reject connect when the server is unreachable', async () => {
+    const onReconnect = jest.fn();
+    const socket = new AoriWebSocket('wss://unreachable.example.com/stream', { onReconnect });
+
+    const connected = socket.connect();
+    latest().drop(1006);
+
+    await expect(connected).rejects.toThrow('WebSocket connection closed (code 1006)');
+    jest.advanceTimersByTime(60000);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(onReconnect).not.toHaveBeenCalled();
+    expect(socket.getState()).toBe('closed');
+  });
+
+  it('should not reconnect when reconnect is disabled', async () => {
+    const socket = new AoriWebSocket('wss://api.aori.io/stream', {}, { reconnect: false });
+
+    const connected = socket.connect();
+    latest().open();
+    await connected;
+    latest().drop();
+    jest.advanceTimersByTime(60000);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(socket.getState()).toBe('closed');
+  });
+
+  it('should not reconnect after a policy violation', async () => {
+    const socket = new AoriWebSocket('wss://api.aori.io/stream');
+
+    const connected = socket.connect();
+    latest().drop(1008, 'Invalid API key');
+
+    await expect(connected).rejects.toThrow('Invalid API key');
+    expect(socket.getState()).toBe('closed');
+  });
+
+  it('should detect dead connections with the heartbeat', async () => {
+    const onDisconnect = jest.fn();
+    const socket = new AoriWebSocket('wss://api.aori.io/stream', { onDisconnect }, {
+      reconnect: { initialDelay: 10, jitter: false },
+      heartbeat: { interval: 1000, timeout: 2500, message: 'ping' }
+    });
+
+    const connected = socket.connect();
+    latest().open();
+    await connected;
+
+    jest.advanceTimersByTime(1000);
+    expect(latest().sent).toEqual(['ping']);
+
+    // Incoming traffic keeps the connection alive
+    latest().message('pong');
+    jest.advanceTimersByTime(2000);
+    expect(onDisconnect).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(500);
+    expect(onDisconnect).toHaveBeenCalledWith(expect.objectContaining({ code: 4000, reason: 'Heartbeat timeout' }));
+    expect(FakeWebSocket.instances[0].close).toHaveBeenCalled();
+    expect(socket.getState()).toBe('reconnecting');
+  });
+
+  it('should use the injected WebSocket implementation without a global WebSocket', async () => {
+    delete (global as any).WebSocket;
+    const onMessage = jest.fn();
+    const onDisconnect = jest.fn();
+    const onError = jest.fn();
+    const socket = new AoriWebSocket('wss://api.aori.io/stream', { onMessage, onDisconnect, onError }, {
+      reconnect: false,
+      implementation: FakeWebSocket
+    });
+
+    const connected = socket.connect();
+    latest().open();
+    await connected;
+
+    // Node implementations deliver text frames as Buffers
+    latest().onmessage?.({ data: Buffer.from(JSON.stringify({ eventType: 'created', timestamp: 1 })) });
+    latest().onerror?.({ type: 'error', message: 'socket hang up', error: new Error('socket hang up') });
+    latest().onclose?.({ code: 1006, reason: Buffer.from(''), wasClean: false });
+
+    expect(onMessage).toHaveBeenCalledWith({ eventType: 'created', timestamp: 1 });
+    expect(onError).toHaveBeenCalledWith({ type: 'error', message: 'socket hang up', error: expect.any(Error) });
+    expect(onDisconnect).toHaveBeenCalledWith({ code: 1006, reason: '', wasClean: false });
+  });
+
+  it('should fail to connect without any WebSocket implementation', async () => {
+    delete (global as any).WebSocket;
+    const socket = new AoriWebSocket('wss://api.aori.io/stream');
+
+    await expect(socket.connect()).rejects.toThrow(AoriError);
+    await expect(socket.connect()).rejects.toThrow('No WebSocket implementation available');
+    expect(socket.getState()).toBe('closed');
+  });
+
+  it('should stop reconnecting when closed', async () => {
+    const socket = new AoriWebSocket('wss://api.aori.io/stream', {}, {
+      reconnect: { initialDelay: 10, jitter: false }
+    });
+
+    const connected = socket.connect();
+    latest().open();
+    await connected;
+    latest().drop();
+    socket.close();
+    jest.advanceTimersByTime(1000);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(socket.getState()).toBe('closed');
+  });
+});